@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { exchangeAuthorizationCode, OAUTH_STATE_COOKIE } from '@/lib/pinterest-api';
+import { SessionSecretMissingError } from '@/lib/secure-store';
+
+export const runtime = 'nodejs';
+
+/**
+ * OAuth redirect target: check state, exchange the code, store the tokens and return to the app
+ */
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const code = params.get('code');
+  const state = params.get('state');
+  const expectedState = request.cookies.get(OAUTH_STATE_COOKIE)?.value;
+
+  if (params.get('error')) {
+    return NextResponse.json(
+      { error: `Pinterest authorization was denied: ${params.get('error')}` },
+      { status: 400 }
+    );
+  }
+  if (!code || !state || !expectedState || state !== expectedState) {
+    return NextResponse.json(
+      { error: 'Invalid or expired OAuth state; start again from /api/auth/pinterest/login' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    await exchangeAuthorizationCode(code);
+  } catch (error) {
+    if (error instanceof SessionSecretMissingError) {
+      return NextResponse.json({ error: error.message }, { status: 503 });
+    }
+    console.error('Pinterest OAuth callback error:', error);
+    return NextResponse.json(
+      { error: 'Failed to exchange the authorization code' },
+      { status: 502 }
+    );
+  }
+
+  const response = NextResponse.redirect(new URL('/?pinterest=connected', request.nextUrl.origin));
+  response.cookies.delete({ name: OAUTH_STATE_COOKIE, path: '/api/auth/pinterest' });
+  return response;
+}
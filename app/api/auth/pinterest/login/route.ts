@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { authorizationUrl, createOAuthState, isOAuthConfigured, OAUTH_STATE_COOKIE } from '@/lib/pinterest-api';
+
+export const runtime = 'nodejs';
+
+/**
+ * Start the OAuth authorization-code flow: redirect to Pinterest's consent page
+ */
+export async function GET() {
+  if (!isOAuthConfigured()) {
+    return NextResponse.json(
+      { error: 'Set PINTEREST_APP_ID, PINTEREST_APP_SECRET and PINTEREST_REDIRECT_URI to connect the Pinterest API' },
+      { status: 400 }
+    );
+  }
+
+  const state = createOAuthState();
+  const response = NextResponse.redirect(authorizationUrl(state));
+  response.cookies.set(OAUTH_STATE_COOKIE, state, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/api/auth/pinterest',
+    maxAge: 10 * 60
+  });
+  return response;
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { getApiConnectionStatus, disconnectOAuth } from '@/lib/pinterest-api';
+
+export const runtime = 'nodejs';
+
+/**
+ * Pinterest API v5 connection status (never returns tokens)
+ */
+export async function GET() {
+  return NextResponse.json(await getApiConnectionStatus());
+}
+
+/**
+ * Forget the stored OAuth tokens (PINTEREST_ACCESS_TOKEN, if set, still applies)
+ */
+export async function DELETE() {
+  await disconnectOAuth();
+  return NextResponse.json(await getApiConnectionStatus());
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isPinterestUrl } from '@/lib/scraper';
+import { runScrapeChain, resolveStrategies } from '@/lib/strategies';
+import { saveToLibrary } from '@/lib/library';
+
+export const runtime = 'nodejs';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { boardUrl, maxPages = 20, strategies, exhaustive = false, includeSections = false } = await request.json();
+
+    if (!isPinterestUrl(boardUrl)) {
+      return NextResponse.json(
+        { error: 'Invalid Pinterest board URL' },
+        { status: 400 }
+      );
+    }
+
+    const selected = resolveStrategies(Array.isArray(strategies) ? strategies : undefined);
+    if (selected.length === 0) {
+      return NextResponse.json(
+        { error: 'No known strategies requested' },
+        { status: 400 }
+      );
+    }
+
+    console.log(`Board scrape for: ${boardUrl} (strategies: ${selected.map(s => s.name).join(' → ')})`);
+
+    const { images, boardInfo, strategies: reports, complete, sections, diagnostics } = await runScrapeChain(boardUrl, {
+      maxPages,
+      strategies: selected,
+      exhaustive,
+      includeSections: Boolean(includeSections)
+    });
+
+    if (images.length === 0) {
+      return NextResponse.json(
+        { error: 'No images found on this board. Make sure it\'s a public board, or import a session for private boards.', strategies: reports, diagnostics },
+        { status: 404 }
+      );
+    }
+
+    const libraryScrapeId = await saveToLibrary(boardUrl, boardInfo, images, 'board', !complete);
+
+    return NextResponse.json({
+      images,
+      count: images.length,
+      boardUrl,
+      boardInfo,
+      complete,
+      libraryScrapeId,
+      strategies: reports,
+      sections,
+      diagnostics,
+      message: boardInfo?.pinCount && boardInfo.pinCount > images.length
+        ? `Fetched ${images.length} of ${boardInfo.pinCount} pins. Some pins may be private or unavailable.`
+        : `Successfully fetched all ${images.length} pins from the board!`
+    });
+
+  } catch (error) {
+    console.error('Board scrape error:', error);
+    return NextResponse.json(
+      { error: 'Failed to scrape Pinterest board' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isPinterestUrl, groupPinsBySection } from '@/lib/scraper';
+import type { BoardSection } from '@/lib/scraper';
+import { runScrapeChain, resolveStrategies } from '@/lib/strategies';
+import type { ChainEvent, ChainResult } from '@/lib/strategies';
+import { createEventStream } from '@/lib/stream';
+import { saveToLibrary } from '@/lib/library';
+import type { StreamFormat } from '@/lib/stream';
+
+export const runtime = 'nodejs';
+
+type BoardStreamEvent =
+  | ChainEvent
+  | ({
+    type: 'done';
+    count: number;
+    message: string;
+    libraryScrapeId?: number;
+    // Final section membership (pins streamed before the section feeds ran carry no sectionId)
+    sectionGroups?: { section: BoardSection | null; pinIds: string[] }[];
+  } & Omit<ChainResult, 'images'>);
+
+function streamBoard(
+  request: NextRequest,
+  format: StreamFormat,
+  boardUrl: unknown,
+  maxPages: number,
+  strategyNames?: string[],
+  includeSections: boolean = false
+) {
+  if (!isPinterestUrl(boardUrl)) {
+    return NextResponse.json(
+      { error: 'Invalid Pinterest board URL' },
+      { status: 400 }
+    );
+  }
+
+  const strategies = resolveStrategies(strategyNames);
+  if (strategies.length === 0) {
+    return NextResponse.json(
+      { error: 'No known strategies requested' },
+      { status: 400 }
+    );
+  }
+
+  return createEventStream<BoardStreamEvent>(format, async (emit) => {
+    const { images, ...result } = await runScrapeChain(boardUrl, {
+      maxPages,
+      strategies,
+      includeSections,
+      signal: request.signal,
+      onEvent: emit
+    });
+
+    const libraryScrapeId = await saveToLibrary(boardUrl, result.boardInfo, images, 'board-stream', !result.complete);
+
+    emit({
+      type: 'done',
+      count: images.length,
+      ...result,
+      libraryScrapeId,
+      sectionGroups: result.sections ? groupPinsBySection(images, result.sections) : undefined,
+      message: result.boardInfo?.pinCount && result.boardInfo.pinCount > images.length
+        ? `Fetched ${images.length} of ${result.boardInfo.pinCount} pins. Some pins may be private or unavailable.`
+        : `Successfully fetched all ${images.length} pins from the board!`
+    });
+  });
+}
+
+/**
+ * NDJSON stream: one event per line (strategy, board, pins, progress, done | error)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { boardUrl, maxPages = 20, strategies, includeSections = false } = await request.json();
+    return streamBoard(request, 'ndjson', boardUrl, maxPages, Array.isArray(strategies) ? strategies : undefined, Boolean(includeSections));
+  } catch (error) {
+    console.error('Board stream error:', error);
+    return NextResponse.json(
+      { error: 'Failed to start board stream' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Server-Sent Events for EventSource clients: /api/board/stream?boardUrl=...&maxPages=20
+ */
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const maxPages = parseInt(searchParams.get('maxPages') || '20', 10) || 20;
+  const strategies = searchParams.get('strategies')?.split(',').filter(Boolean);
+  return streamBoard(request, 'sse', searchParams.get('boardUrl'), maxPages, strategies, searchParams.get('includeSections') === 'true');
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { extractImagesFromHtml } from '@/lib/scraper';
 import type { PinterestImage } from '@/lib/scraper';
+import { transportFetch } from '@/lib/transport';
 
 export async function POST(request: NextRequest) {
   try {
@@ -37,7 +38,7 @@ export async function POST(request: NextRequest) {
     // Strategy 1: Current Enhanced Scraping
     try {
       console.log('📋 Strategy 1: Current Enhanced Scraping');
-      const response = await fetch(boardUrl, {
+      const response = await transportFetch(undefined, boardUrl, {
         headers: {
           'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
           'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,*/*;q=0.8',
@@ -98,7 +99,7 @@ export async function POST(request: NextRequest) {
     try {
       console.log('📋 Strategy 2: RSS Feed');
       const rssUrl = boardUrl.replace(/\/$/, '') + '.rss';
-      const response = await fetch(rssUrl, {
+      const response = await transportFetch(undefined, rssUrl, {
         headers: {
           'User-Agent': 'Mozilla/5.0 (compatible; RSS Reader)',
           'Accept': 'application/rss+xml, application/xml, text/xml',
@@ -183,7 +184,7 @@ export async function POST(request: NextRequest) {
     try {
       console.log('📋 Strategy 3: Mobile Pinterest');
       const mobileUrl = boardUrl.replace('www.pinterest.com', 'm.pinterest.com');
-      const response = await fetch(mobileUrl, {
+      const response = await transportFetch(undefined, mobileUrl, {
         headers: {
           'User-Agent': 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1',
           'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
@@ -250,7 +251,7 @@ export async function POST(request: NextRequest) {
       
       for (const altUrl of altUrls) {
         try {
-          const response = await fetch(altUrl, {
+          const response = await transportFetch(undefined, altUrl, {
             headers: {
               'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
               'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { transportFetch } from '@/lib/transport';
 
 export async function POST(request: NextRequest) {
   try {
@@ -14,7 +15,7 @@ export async function POST(request: NextRequest) {
     console.log(`Debug analysis for: ${boardUrl}`);
     
     // Fetch the Pinterest board page
-    const response = await fetch(boardUrl, {
+    const response = await transportFetch(undefined, boardUrl, {
       headers: {
         'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
         'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { getDriftReport, resetDriftReport } from '@/lib/diagnostics';
+
+export const runtime = 'nodejs';
+
+/**
+ * Aggregated extractor drift report: which JSON paths produced pins and board info across scrapes,
+ * missing containers, pin-like objects at unknown paths and the most recent drifted scrapes
+ */
+export async function GET() {
+  try {
+    const report = await getDriftReport();
+    return NextResponse.json({
+      ...report,
+      driftRate: report.scrapes > 0 ? report.driftScrapes / report.scrapes : 0
+    });
+  } catch (error) {
+    console.error('Diagnostics report error:', error);
+    return NextResponse.json({ error: 'Failed to load diagnostics report' }, { status: 500 });
+  }
+}
+
+/**
+ * Start a fresh report (e.g. after fixing the extractors)
+ */
+export async function DELETE() {
+  try {
+    return NextResponse.json(await resetDriftReport());
+  } catch (error) {
+    console.error('Diagnostics reset error:', error);
+    return NextResponse.json({ error: 'Failed to reset diagnostics report' }, { status: 500 });
+  }
+}
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { fetchMedia } from '@/lib/archive';
 
 export async function GET(request: NextRequest) {
   const searchParams = request.nextUrl.searchParams;
@@ -10,46 +11,20 @@ export async function GET(request: NextRequest) {
   }
 
   // Basic validation to ensure we're proxying only http(s) URLs
+  let parsed: URL;
   try {
-    const parsed = new URL(imageUrl);
-    if (!/^https?:$/.test(parsed.protocol)) {
-      return NextResponse.json({ error: 'Invalid URL protocol' }, { status: 400 });
-    }
+    parsed = new URL(imageUrl);
   } catch {
     return NextResponse.json({ error: 'Malformed image URL' }, { status: 400 });
   }
-
-  // imageUrl is guaranteed non-null beyond this point
-  const targetUrl = imageUrl as string;
-
-  const UA_DESKTOP =
-    'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/123.0 Safari/537.36';
-  const UA_MOBILE =
-    'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1';
-
-  async function attemptFetch(ua: string) {
-    return fetch(targetUrl, {
-      headers: {
-        'User-Agent': ua,
-        'Referer': 'https://www.pinterest.com/',
-        'Accept': 'image/avif,image/webp,image/apng,image/*,*/*;q=0.8',
-        'Accept-Language': 'en-US,en;q=0.9',
-        'Cache-Control': 'no-cache',
-        'Pragma': 'no-cache',
-        'Connection': 'keep-alive'
-      }
-    });
+  if (!/^https?:$/.test(parsed.protocol)) {
+    return NextResponse.json({ error: 'Invalid URL protocol' }, { status: 400 });
   }
 
   try {
-    // Try desktop-like headers first
-    let response = await attemptFetch(UA_DESKTOP);
-
-    // If blocked by CDN (403/429) or other non-OK, retry once with mobile UA
-    if (!response.ok && (response.status === 403 || response.status === 429)) {
-      await new Promise((r) => setTimeout(r, 300 + Math.floor(Math.random() * 500)));
-      response = await attemptFetch(UA_MOBILE);
-    }
+    // Desktop-like headers first, one retry with a mobile UA if the CDN blocks it (403/429);
+    // PINTEREST_IMAGE_BASE_URL can stand in for the CDN
+    const response = await fetchMedia(imageUrl);
 
     if (!response.ok) {
       const text = await response.text().catch(() => '');
@@ -63,16 +38,11 @@ export async function GET(request: NextRequest) {
     const contentType = response.headers.get('content-type') || 'image/jpeg';
     const buffer = await response.arrayBuffer();
 
-    // Derive filename
+    // Derive filename (the CDN stand-in keeps the path, so the requested URL's is the same)
     let filename = fileParam;
     if (!filename) {
-      try {
-        const urlObj = new URL(targetUrl);
-        const last = urlObj.pathname.split('/').filter(Boolean).pop() || 'image';
-        filename = last.includes('.') ? last : `${last}.${contentType.split('/')[1] || 'jpg'}`;
-      } catch {
-        filename = `image.${contentType.split('/')[1] || 'jpg'}`;
-      }
+      const last = parsed.pathname.split('/').filter(Boolean).pop() || 'image';
+      filename = last.includes('.') ? last : `${last}.${contentType.split('/')[1] || 'jpg'}`;
     }
 
     // Return image with proper headers; allow caching for 1 hour
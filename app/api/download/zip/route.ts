@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { parseArchiveRequest, streamPinArchive } from '@/lib/archive';
+
+export const runtime = 'nodejs';
+
+/**
+ * Stream a ZIP of the given pins: { pins, size, videoMode, sections?, concurrency? }
+ * Accepts a JSON body or a form post with the same object in a `payload` field, so the browser
+ * can save the response straight to disk.
+ */
+export async function POST(request: NextRequest) {
+  let body: unknown;
+  try {
+    const contentType = request.headers.get('content-type') || '';
+    if (contentType.includes('application/json')) {
+      body = await request.json();
+    } else {
+      const form = await request.formData();
+      body = JSON.parse(String(form.get('payload') ?? ''));
+    }
+  } catch {
+    return NextResponse.json({ error: 'Invalid download request' }, { status: 400 });
+  }
+
+  const archive = parseArchiveRequest(body);
+  if ('error' in archive) {
+    return NextResponse.json({ error: archive.error }, { status: 400 });
+  }
+
+  const concurrency = body && typeof body === 'object' && 'concurrency' in body ? Number(body.concurrency) || undefined : undefined;
+  const stream = streamPinArchive(archive, { concurrency, signal: request.signal });
+  const timestamp = new Date().toISOString().slice(0, 10);
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'application/zip',
+      'Content-Disposition': `attachment; filename="pinterest-board-${timestamp}.zip"`,
+      'Cache-Control': 'no-store',
+      'X-Accel-Buffering': 'no'
+    }
+  });
+}
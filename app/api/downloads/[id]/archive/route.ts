@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createReadStream, promises as fs } from 'fs';
+import { Readable } from 'stream';
+import { getDownload, getDownloadArchive } from '@/lib/downloads';
+
+export const runtime = 'nodejs';
+
+/**
+ * The finished ZIP (409 while files are still queued or downloading)
+ */
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const job = getDownload(id);
+
+  if (!job) {
+    return NextResponse.json({ error: 'Download not found' }, { status: 404 });
+  }
+
+  const archive = getDownloadArchive(id);
+  if (!archive) {
+    return NextResponse.json({ error: `Archive not ready (download is ${job.status})` }, { status: 409 });
+  }
+
+  const { size } = await fs.stat(archive);
+  const timestamp = job.createdAt.slice(0, 10);
+  return new Response(Readable.toWeb(createReadStream(archive)) as ReadableStream<Uint8Array>, {
+    headers: {
+      'Content-Type': 'application/zip',
+      'Content-Length': String(size),
+      'Content-Disposition': `attachment; filename="pinterest-board-${timestamp}.zip"`,
+      'Cache-Control': 'no-store'
+    }
+  });
+}
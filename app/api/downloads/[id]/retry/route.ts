@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { retryFailedDownloads, summarizeDownload } from '@/lib/downloads';
+
+export const runtime = 'nodejs';
+
+/**
+ * Queue the failed files again; they are appended to the existing archive
+ */
+export async function POST(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const job = await retryFailedDownloads(id);
+
+  if (!job) {
+    return NextResponse.json({ error: 'Download not found' }, { status: 404 });
+  }
+
+  return NextResponse.json(summarizeDownload(job), { status: 202 });
+}
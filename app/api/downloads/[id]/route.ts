@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cancelDownload, downloadProgress, getDownload, summarizeDownload, updateDownload } from '@/lib/downloads';
+
+export const runtime = 'nodejs';
+
+/**
+ * Download status with every file's status (queued, downloading, done, failed with a reason)
+ */
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const job = getDownload(id);
+
+  if (!job) {
+    return NextResponse.json({ error: 'Download not found' }, { status: 404 });
+  }
+
+  return NextResponse.json(downloadProgress(job));
+}
+
+/**
+ * Pause or resume the queue, or change its concurrency: { paused?: boolean, concurrency?: number }
+ */
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const { paused, concurrency } = await request.json().catch(() => ({}));
+
+  const job = updateDownload(id, {
+    paused: typeof paused === 'boolean' ? paused : undefined,
+    concurrency: concurrency !== undefined ? Number(concurrency) || undefined : undefined
+  });
+  if (!job) {
+    return NextResponse.json({ error: 'Download not found' }, { status: 404 });
+  }
+
+  return NextResponse.json(summarizeDownload(job));
+}
+
+export async function DELETE(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  if (!cancelDownload(id)) {
+    return NextResponse.json({ error: 'Download not found' }, { status: 404 });
+  }
+
+  return NextResponse.json(summarizeDownload(getDownload(id)!));
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { parseArchiveRequest } from '@/lib/archive';
+import { createDownload, listDownloads, summarizeDownload } from '@/lib/downloads';
+
+export const runtime = 'nodejs';
+
+/**
+ * Queue a download: { pins, size, videoMode, sections?, concurrency? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    const archive = parseArchiveRequest(body);
+    if ('error' in archive) {
+      return NextResponse.json({ error: archive.error }, { status: 400 });
+    }
+
+    const job = await createDownload(archive, { concurrency: Number(body.concurrency) || undefined });
+    return NextResponse.json({ downloadId: job.id, ...summarizeDownload(job) }, { status: 202 });
+  } catch (error) {
+    console.error('Download creation error:', error);
+    return NextResponse.json(
+      { error: 'Failed to start download' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET() {
+  return NextResponse.json({ downloads: listDownloads() });
+}
@@ -1,12 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { extractImagesFromHtml } from '@/lib/scraper';
-import type { PinterestImage } from '@/lib/scraper';
+import { isPinterestUrl } from '@/lib/scraper';
+import { scrapeBoardEnhanced } from '@/lib/enhanced';
 
 export async function POST(request: NextRequest) {
   try {
     const { boardUrl } = await request.json();
     
-    if (!boardUrl || !boardUrl.includes('pinterest.com')) {
+    if (!isPinterestUrl(boardUrl)) {
       return NextResponse.json(
         { error: 'Invalid Pinterest board URL' },
         { status: 400 }
@@ -15,104 +15,12 @@ export async function POST(request: NextRequest) {
     
     console.log(`Enhanced scraping for: ${boardUrl}`);
     
-    const allImages: PinterestImage[] = [];
-    const seenIds = new Set<string>();
-    
-    // Enhanced scraping strategy: Multiple requests with different parameters
-    // Pinterest loads different content based on user agent, scroll position simulation, etc.
-    
-    const scrapingStrategies = [
-      {
-        name: 'Standard Desktop',
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-          'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,*/*;q=0.8',
-          'Accept-Language': 'en-US,en;q=0.9',
-          'Accept-Encoding': 'gzip, deflate, br',
-          'DNT': '1',
-          'Connection': 'keep-alive',
-          'Upgrade-Insecure-Requests': '1',
-        },
-        url: boardUrl
-      },
-      {
-        name: 'Mobile View',
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1',
-          'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-          'Accept-Language': 'en-US,en;q=0.9',
-          'Accept-Encoding': 'gzip, deflate, br',
-        },
-        url: boardUrl
-      },
-      {
-        name: 'Alternative Desktop',
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-          'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,image/apng,*/*;q=0.8',
-          'Accept-Language': 'en-US,en;q=0.9',
-          'Cache-Control': 'no-cache',
-          'Pragma': 'no-cache',
-        },
-        url: boardUrl
-      },
-      {
-        name: 'Direct Board Access',
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36',
-          'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-          'Referer': 'https://www.pinterest.com/',
-        },
-        url: boardUrl + (boardUrl.endsWith('/') ? '' : '/')
-      },
-    ];
-    
-    for (const strategy of scrapingStrategies) {
-      try {
-        console.log(`Trying strategy: ${strategy.name}`);
-        
-        const response = await fetch(strategy.url, {
-          headers: strategy.headers
-        });
-        
-        if (!response.ok) {
-          console.log(`Strategy ${strategy.name} failed: ${response.status}`);
-          continue;
-        }
-        
-        const html = await response.text();
-        const { images } = extractImagesFromHtml(html);
-        
-        // Add new unique images
-        let newCount = 0;
-        for (const image of images) {
-          if (!seenIds.has(image.id)) {
-            seenIds.add(image.id);
-            allImages.push(image);
-            newCount++;
-          }
-        }
-        
-        console.log(`Strategy ${strategy.name}: Found ${images.length} pins, ${newCount} new unique pins`);
-        
-        // Add delay between requests to be respectful
-        if (strategy !== scrapingStrategies[scrapingStrategies.length - 1]) {
-          await new Promise(resolve => setTimeout(resolve, 1000));
-        }
-        
-      } catch (error) {
-        console.log(`Strategy ${strategy.name} failed:`, error.message);
-        continue;
-      }
-    }
-    
-    // Sort images by ID for consistent ordering
-    allImages.sort((a, b) => a.id.localeCompare(b.id));
+    const { images: allImages, strategies } = await scrapeBoardEnhanced(boardUrl);
     
     const result = {
       success: true,
       totalPinsFound: allImages.length,
-      strategies: scrapingStrategies.length,
+      strategies,
       targetPins: 82,
       completionPercentage: Math.round((allImages.length / 82) * 100),
       images: allImages,
@@ -127,7 +35,6 @@ export async function POST(request: NextRequest) {
         : `✅ Found ${allImages.length} pins. Enhanced scraping extracted maximum available pins from current HTML.`
     };
     
-    console.log(`Enhanced scraping complete: ${allImages.length} total unique pins`);
     return NextResponse.json(result);
     
   } catch (error) {
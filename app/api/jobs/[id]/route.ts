@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJob, cancelJob, summarizeJob } from '@/lib/jobs';
+
+export const runtime = 'nodejs';
+
+/**
+ * Job status. Pass ?since=N to only receive pins after the first N already collected.
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const job = getJob(id);
+
+  if (!job) {
+    return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+  }
+
+  const since = Math.max(0, parseInt(request.nextUrl.searchParams.get('since') || '0', 10) || 0);
+
+  return NextResponse.json({
+    ...summarizeJob(job),
+    since,
+    images: job.images.slice(since)
+  });
+}
+
+export async function DELETE(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  if (!cancelJob(id)) {
+    return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+  }
+
+  const job = getJob(id)!;
+  return NextResponse.json(summarizeJob(job));
+}
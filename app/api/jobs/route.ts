@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isPinterestUrl } from '@/lib/scraper';
+import { createJob, listJobs } from '@/lib/jobs';
+
+export const runtime = 'nodejs';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { boardUrl, method = 'scrape', maxPages = 20 } = await request.json();
+
+    if (!isPinterestUrl(boardUrl)) {
+      return NextResponse.json(
+        { error: 'Invalid Pinterest board URL' },
+        { status: 400 }
+      );
+    }
+
+    if (method !== 'scrape' && method !== 'playwright') {
+      return NextResponse.json(
+        { error: `Unknown job method: ${method}` },
+        { status: 400 }
+      );
+    }
+
+    const job = createJob(boardUrl, method, maxPages);
+    console.log(`🧵 Created ${method} job ${job.id} for ${boardUrl}`);
+
+    return NextResponse.json({ jobId: job.id, status: job.status }, { status: 202 });
+
+  } catch (error) {
+    console.error('Job creation error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create scrape job' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET() {
+  return NextResponse.json({ jobs: listJobs() });
+}
@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getBoard } from '@/lib/library';
+
+export const runtime = 'nodejs';
+
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const result = await getBoard(id);
+    if (!result) {
+      return NextResponse.json({ error: 'Board not found in library' }, { status: 404 });
+    }
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Library board error:', error);
+    return NextResponse.json({ error: 'Failed to read library' }, { status: 500 });
+  }
+}
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getBoardTimeline } from '@/lib/library';
+
+export const runtime = 'nodejs';
+
+/**
+ * A board's scrapes oldest first, each with counts of what changed since the one before
+ */
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const result = await getBoardTimeline(id);
+    if (!result) {
+      return NextResponse.json({ error: 'Board not found in library' }, { status: 404 });
+    }
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Library timeline error:', error);
+    return NextResponse.json({ error: 'Failed to read library' }, { status: 500 });
+  }
+}
@@ -0,0 +1,13 @@
+import { NextResponse } from 'next/server';
+import { listBoards } from '@/lib/library';
+
+export const runtime = 'nodejs';
+
+export async function GET() {
+  try {
+    return NextResponse.json({ boards: await listBoards() });
+  } catch (error) {
+    console.error('Library boards error:', error);
+    return NextResponse.json({ error: 'Failed to read library' }, { status: 500 });
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { diffScrapes, LibraryBoardMismatchError, LibraryPartialScrapeError } from '@/lib/library';
+
+export const runtime = 'nodejs';
+
+/**
+ * Pins added, removed and retitled between two stored complete scrapes of the same board
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const from = parseInt(request.nextUrl.searchParams.get('from') || '', 10);
+    const to = parseInt(request.nextUrl.searchParams.get('to') || '', 10);
+    if (!Number.isFinite(from) || !Number.isFinite(to)) {
+      return NextResponse.json({ error: 'from and to scrape ids are required' }, { status: 400 });
+    }
+
+    const diff = await diffScrapes(from, to);
+    if (!diff) {
+      return NextResponse.json({ error: 'Scrape not found in library' }, { status: 404 });
+    }
+    return NextResponse.json({
+      ...diff,
+      message: `${diff.added.length} added, ${diff.removed.length} removed, ${diff.retitled.length} retitled`
+    });
+  } catch (error) {
+    if (error instanceof LibraryBoardMismatchError || error instanceof LibraryPartialScrapeError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error('Library diff error:', error);
+    return NextResponse.json({ error: 'Failed to read library' }, { status: 500 });
+  }
+}
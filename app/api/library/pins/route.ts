@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { queryPins } from '@/lib/library';
+
+export const runtime = 'nodejs';
+
+/**
+ * Query stored pins: ?boardId=&q=&limit=&offset=
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const result = await queryPins({
+      boardId: searchParams.get('boardId') || undefined,
+      q: searchParams.get('q') || undefined,
+      limit: parseInt(searchParams.get('limit') || '100', 10) || 100,
+      offset: parseInt(searchParams.get('offset') || '0', 10) || 0
+    });
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Library pins error:', error);
+    return NextResponse.json({ error: 'Failed to read library' }, { status: 500 });
+  }
+}
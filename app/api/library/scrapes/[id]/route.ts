@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getScrape } from '@/lib/library';
+
+export const runtime = 'nodejs';
+
+/**
+ * Re-open a past scrape without hitting Pinterest
+ */
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const result = await getScrape(parseInt(id, 10));
+    if (!result) {
+      return NextResponse.json({ error: 'Scrape not found in library' }, { status: 404 });
+    }
+    return NextResponse.json({ ...result, count: result.images.length });
+  } catch (error) {
+    console.error('Library scrape error:', error);
+    return NextResponse.json({ error: 'Failed to read library' }, { status: 500 });
+  }
+}
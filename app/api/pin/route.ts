@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { resolvePinterestUrl, fetchPin } from '@/lib/pin';
+
+export const runtime = 'nodejs';
+
+/**
+ * Single pin lookup for /pin/{id}/ URLs and pin.it short links
+ * Short links that resolve to a board or profile return { kind, resolvedUrl } so the client can
+ * continue with the matching scrape.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { url } = await request.json();
+
+    if (typeof url !== 'string' || !url) {
+      return NextResponse.json(
+        { error: 'url is required' },
+        { status: 400 }
+      );
+    }
+
+    const { resolvedUrl, target } = await resolvePinterestUrl(url, { signal: request.signal });
+    if (!target) {
+      return NextResponse.json(
+        { error: 'Not a Pinterest pin, board or profile URL', resolvedUrl },
+        { status: 400 }
+      );
+    }
+
+    if (target.kind !== 'pin') {
+      return NextResponse.json({ kind: target.kind, resolvedUrl });
+    }
+
+    console.log(`Fetching pin: ${target.pinId}`);
+    const pin = await fetchPin(target.pinId, { signal: request.signal });
+    if (!pin) {
+      return NextResponse.json(
+        { error: 'Pin not found. It may be private or removed.', resolvedUrl },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      kind: 'pin',
+      resolvedUrl,
+      ...pin,
+      images: [pin.image],
+      count: 1,
+      message: pin.board
+        ? `Fetched pin from board "${pin.board.name}".`
+        : 'Fetched pin.'
+    });
+
+  } catch (error) {
+    console.error('Pin lookup error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch pin' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { parseProfileUrl } from '@/lib/scraper';
+import { fetchProfileBoards } from '@/lib/profile';
+
+export const runtime = 'nodejs';
+
+/**
+ * List the public boards of a profile (?url=https://www.pinterest.com/{user}/)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const profileUrl = request.nextUrl.searchParams.get('url') || '';
+    const profile = parseProfileUrl(profileUrl);
+    if (!profile) {
+      return NextResponse.json(
+        { error: 'Invalid Pinterest profile URL' },
+        { status: 400 }
+      );
+    }
+
+    console.log(`Listing boards for profile: ${profile.username}`);
+    const boards = await fetchProfileBoards(profile.username, { signal: request.signal });
+
+    if (boards.length === 0) {
+      return NextResponse.json(
+        { error: 'No public boards found for this profile.' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      username: profile.username,
+      boards,
+      count: boards.length,
+      totalPins: boards.reduce((sum, board) => sum + board.pinCount, 0)
+    });
+
+  } catch (error) {
+    console.error('Profile boards error:', error);
+    return NextResponse.json(
+      { error: 'Failed to list profile boards' },
+      { status: 500 }
+    );
+  }
+}
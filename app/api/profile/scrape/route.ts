@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { parseBoardUrl, parseProfileUrl } from '@/lib/scraper';
+import { fetchProfileBoards, scrapeProfileBoards } from '@/lib/profile';
+
+export const runtime = 'nodejs';
+
+/**
+ * Scrape several boards of one profile in a single batch
+ * Body: { profileUrl, boardUrls? (defaults to every public board), maxPages?, strategies? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { profileUrl, boardUrls, maxPages = 20, strategies } = await request.json();
+
+    const profile = typeof profileUrl === 'string' ? parseProfileUrl(profileUrl) : null;
+    if (!profile) {
+      return NextResponse.json(
+        { error: 'Invalid Pinterest profile URL' },
+        { status: 400 }
+      );
+    }
+
+    let targets: string[];
+    if (Array.isArray(boardUrls) && boardUrls.length > 0) {
+      // Only boards that belong to this profile
+      const foreign = boardUrls.filter(
+        (url: unknown) => typeof url !== 'string' || parseBoardUrl(url)?.username.toLowerCase() !== profile.username.toLowerCase()
+      );
+      if (foreign.length > 0) {
+        return NextResponse.json(
+          { error: `boardUrls must be boards of ${profile.username}`, invalid: foreign },
+          { status: 400 }
+        );
+      }
+      targets = boardUrls;
+    } else {
+      targets = (await fetchProfileBoards(profile.username, { signal: request.signal })).map(board => board.url);
+    }
+
+    if (targets.length === 0) {
+      return NextResponse.json(
+        { error: 'No public boards found for this profile.' },
+        { status: 404 }
+      );
+    }
+
+    console.log(`Batch scrape for ${profile.username}: ${targets.length} boards`);
+
+    const results = await scrapeProfileBoards(targets, {
+      maxPages,
+      strategies: Array.isArray(strategies) ? strategies : undefined,
+      signal: request.signal
+    });
+
+    const succeeded = results.filter(result => result.success).length;
+    const totalPins = results.reduce((sum, result) => sum + result.count, 0);
+
+    return NextResponse.json({
+      username: profile.username,
+      results,
+      boardCount: results.length,
+      succeeded,
+      totalPins,
+      message: `Scraped ${totalPins} pins from ${succeeded} of ${results.length} boards`
+    });
+
+  } catch (error) {
+    console.error('Profile batch scrape error:', error);
+    return NextResponse.json(
+      { error: 'Failed to scrape profile boards' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { parseBoardUrl } from '@/lib/scraper';
+import { harvestRelatedPins, MAX_RELATED_DEPTH } from '@/lib/related';
+
+export const runtime = 'nodejs';
+
+/**
+ * Harvest "More ideas" recommendations for a seed board
+ * Body: { boardUrl, depth? (1-3), maxPins?, seedsPerLevel?, maxPages? }
+ * The board's own pins are left out; each related pin carries relatedDepth and relatedTo.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { boardUrl, depth = 1, maxPins = 200, seedsPerLevel = 10, maxPages = 20 } = await request.json();
+
+    if (typeof boardUrl !== 'string' || !parseBoardUrl(boardUrl)) {
+      return NextResponse.json(
+        { error: 'Invalid Pinterest board URL' },
+        { status: 400 }
+      );
+    }
+    if (!Number.isInteger(depth) || depth < 1 || depth > MAX_RELATED_DEPTH) {
+      return NextResponse.json(
+        { error: `depth must be between 1 and ${MAX_RELATED_DEPTH}` },
+        { status: 400 }
+      );
+    }
+
+    console.log(`Harvesting related pins for ${boardUrl} (depth ${depth}, max ${maxPins})`);
+
+    const result = await harvestRelatedPins(boardUrl, {
+      depth,
+      maxPins: Math.max(1, Number(maxPins) || 200),
+      seedsPerLevel: Math.max(1, Number(seedsPerLevel) || 10),
+      maxPages,
+      signal: request.signal
+    });
+
+    if (result.related.length === 0) {
+      return NextResponse.json(
+        { ...result, error: 'Pinterest returned no recommendations for this board.' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      ...result,
+      boardUrl,
+      count: result.related.length,
+      message: `Found ${result.related.length} related pins (${result.byDepth.map((count, i) => `depth ${i + 1}: ${count}`).join(', ')})`
+    });
+
+  } catch (error) {
+    console.error('Related pins error:', error);
+    return NextResponse.json(
+      { error: 'Failed to harvest related pins' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,45 +1,84 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { scrapePinterestBoard } from '@/lib/scraper';
+import { scrapePinterestBoard, isPinterestUrl, groupPinsBySection } from '@/lib/scraper';
+import { saveCheckpoint, loadCheckpoint, deleteCheckpoint, boardKeyFor } from '@/lib/checkpoints';
+import { saveToLibrary } from '@/lib/library';
+
+export const runtime = 'nodejs';
 
 export async function POST(request: NextRequest) {
   try {
-    const { boardUrl, maxPages = 20 } = await request.json();
-    
-    if (!boardUrl || !boardUrl.includes('pinterest.com')) {
+    const { boardUrl: requestedUrl, maxPages = 20, resumeToken, includeSections = false } = await request.json();
+
+    // Resume from a saved checkpoint when a token is supplied
+    const resumeFrom = resumeToken ? await loadCheckpoint(String(resumeToken)) : undefined;
+    if (resumeToken && !resumeFrom) {
+      return NextResponse.json(
+        { error: 'Resume token not found or expired' },
+        { status: 404 }
+      );
+    }
+    if (resumeFrom && requestedUrl && boardKeyFor(requestedUrl) !== boardKeyFor(resumeFrom.boardUrl)) {
+      return NextResponse.json(
+        { error: 'Resume token belongs to a different board' },
+        { status: 400 }
+      );
+    }
+
+    const boardUrl = requestedUrl || resumeFrom?.boardUrl;
+    if (!isPinterestUrl(boardUrl)) {
       return NextResponse.json(
         { error: 'Invalid Pinterest board URL' },
         { status: 400 }
       );
     }
-    
-    console.log(`Fetching board: ${boardUrl}`);
+
+    console.log(`Fetching board: ${boardUrl}${resumeFrom ? ` (resuming at page ${resumeFrom.pagesFetched + 1})` : ''}`);
     console.log(`Max pages to fetch: ${maxPages}`);
-    
+
     // Scrape the board with pagination
-    const { images, boardInfo } = await scrapePinterestBoard(boardUrl, maxPages);
-    
+    const { images, boardInfo, checkpoint, sections, diagnostics } = await scrapePinterestBoard(boardUrl, maxPages, {
+      resumeFrom: resumeFrom ?? undefined,
+      includeSections: Boolean(includeSections)
+    });
+
     console.log(`Scraped ${images.length} images from board: ${boardInfo?.name || 'unknown'}`);
     if (boardInfo?.pinCount) {
       console.log(`Board has ${boardInfo.pinCount} total pins, fetched ${images.length}`);
     }
-    
+
+    // Persist partial progress, or clear the consumed checkpoint once the board is done
+    const nextResumeToken = checkpoint ? await saveCheckpoint(checkpoint) : undefined;
+    if (!checkpoint && resumeToken) {
+      await deleteCheckpoint(String(resumeToken));
+    }
+
     if (images.length === 0) {
       return NextResponse.json(
-        { error: 'No images found on this board. Make sure it\'s a public board.' },
+        { error: 'No images found on this board. Make sure it\'s a public board, or import a session for private boards.', resumeToken: nextResumeToken, diagnostics },
         { status: 404 }
       );
     }
-    
-    return NextResponse.json({ 
+
+    const libraryScrapeId = await saveToLibrary(boardUrl, boardInfo, images, 'scrape', !!checkpoint);
+
+    return NextResponse.json({
       images,
       count: images.length,
       boardUrl,
       boardInfo,
-      message: boardInfo?.pinCount && boardInfo.pinCount > images.length 
-        ? `Fetched ${images.length} of ${boardInfo.pinCount} pins. Some pins may be private or unavailable.`
-        : `Successfully fetched all ${images.length} pins from the board!`
+      complete: !checkpoint,
+      libraryScrapeId,
+      resumeToken: nextResumeToken,
+      sections,
+      sectionGroups: sections ? groupPinsBySection(images, sections) : undefined,
+      diagnostics,
+      message: checkpoint
+        ? `Fetched ${images.length}${boardInfo?.pinCount ? ` of ${boardInfo.pinCount}` : ''} pins before pagination stopped${checkpoint.error ? ` (${checkpoint.error})` : ''}. Send resumeToken to continue.`
+        : boardInfo?.pinCount && boardInfo.pinCount > images.length
+          ? `Fetched ${images.length} of ${boardInfo.pinCount} pins. Some pins may be private or unavailable.`
+          : `Successfully fetched all ${images.length} pins from the board!`
     });
-    
+
   } catch (error) {
     console.error('Scraping error:', error);
     return NextResponse.json(
@@ -47,4 +86,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { parseSearchUrl } from '@/lib/scraper';
+import { scrapeSearch } from '@/lib/search';
+import { saveToLibrary } from '@/lib/library';
+
+export const runtime = 'nodejs';
+
+/**
+ * Pin search results
+ * Body: { query } or { url: "https://www.pinterest.com/search/pins/?q=..." }, plus maxPins? and maxPages?
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { query: requestedQuery, url, maxPins = 200, maxPages = 40 } = await request.json();
+
+    const query = typeof requestedQuery === 'string' && requestedQuery.trim()
+      ? requestedQuery.trim()
+      : typeof url === 'string' ? parseSearchUrl(url)?.query : undefined;
+    if (!query) {
+      return NextResponse.json(
+        { error: 'query or a Pinterest search URL is required' },
+        { status: 400 }
+      );
+    }
+
+    console.log(`Searching pins: "${query}" (max ${maxPins} pins)`);
+
+    const result = await scrapeSearch(query, {
+      maxPins: Math.max(1, Number(maxPins) || 200),
+      maxPages,
+      signal: request.signal
+    });
+
+    if (result.images.length === 0) {
+      return NextResponse.json(
+        { error: result.error ? `Search failed: ${result.error}` : 'No pins found for this search.' },
+        { status: result.error ? 502 : 404 }
+      );
+    }
+
+    const libraryScrapeId = await saveToLibrary(result.searchUrl, result.boardInfo, result.images, 'search', !result.complete);
+
+    return NextResponse.json({
+      ...result,
+      count: result.images.length,
+      libraryScrapeId,
+      message: result.complete
+        ? `Found ${result.images.length} pins for "${query}"`
+        : `Fetched ${result.images.length} pins for "${query}" before pagination stopped (${result.error})`
+    });
+
+  } catch (error) {
+    console.error('Search error:', error);
+    return NextResponse.json(
+      { error: 'Failed to search Pinterest' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { importSession, clearSession, getSessionStatus } from '@/lib/session';
+import { SessionSecretMissingError } from '@/lib/secure-store';
+
+export const runtime = 'nodejs';
+
+/**
+ * Status of the imported session (never returns cookie values)
+ */
+export async function GET() {
+  return NextResponse.json(await getSessionStatus());
+}
+
+/**
+ * Import a cookie jar. Body: { cookies } with the text of a Netscape cookies.txt or a JSON export
+ * (a JSON array/object is accepted as-is), or the raw file as text/plain.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    let jar: unknown;
+    if (request.headers.get('content-type')?.includes('application/json')) {
+      const body = await request.json();
+      jar = typeof body?.cookies === 'string' ? body.cookies : body?.cookies ? JSON.stringify(body.cookies) : undefined;
+    } else {
+      jar = await request.text();
+    }
+
+    if (typeof jar !== 'string' || !jar.trim()) {
+      return NextResponse.json(
+        { error: 'cookies is required' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(await importSession(jar));
+
+  } catch (error) {
+    if (error instanceof SessionSecretMissingError) {
+      return NextResponse.json({ error: error.message }, { status: 503 });
+    }
+    console.error('Session import error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? `Could not read cookie jar: ${error.message}` : 'Could not read cookie jar' },
+      { status: 400 }
+    );
+  }
+}
+
+export async function DELETE() {
+  await clearSession();
+  return NextResponse.json(await getSessionStatus());
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isPinterestUrl } from '@/lib/scraper';
+import { syncPinterestBoard, SyncBoardMismatchError } from '@/lib/sync';
+
+export const runtime = 'nodejs';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { boardUrl, snapshot, maxPages = 50 } = await request.json();
+
+    if (!isPinterestUrl(boardUrl)) {
+      return NextResponse.json(
+        { error: 'Invalid Pinterest board URL' },
+        { status: 400 }
+      );
+    }
+
+    if (!snapshot || !Array.isArray(snapshot.pinIds)) {
+      return NextResponse.json(
+        { error: 'snapshot with pinIds (and boardId) is required' },
+        { status: 400 }
+      );
+    }
+
+    console.log(`Syncing board: ${boardUrl} against ${snapshot.pinIds.length} known pins`);
+
+    const result = await syncPinterestBoard(
+      boardUrl,
+      { boardId: String(snapshot.boardId || ''), pinIds: snapshot.pinIds.map(String), takenAt: snapshot.takenAt },
+      maxPages
+    );
+
+    return NextResponse.json({
+      boardUrl,
+      ...result,
+      message: `${result.added.length} new pin${result.added.length === 1 ? '' : 's'}, ${result.removed.length} removed`
+        + (result.removalsChecked ? '' : ' (removals not checked: board pin count unavailable or scan incomplete)')
+    });
+
+  } catch (error) {
+    if (error instanceof SyncBoardMismatchError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error('Sync error:', error);
+    return NextResponse.json(
+      { error: 'Failed to sync Pinterest board' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,130 @@
+'use client';
+
+import { useState } from 'react';
+import type { DownloadProgress } from '@/lib/downloads';
+
+interface DownloadPanelProps {
+  download: DownloadProgress;
+  onRefresh: () => void;
+  onClose: () => void;
+}
+
+/**
+ * Progress and controls for a queued ZIP download (pause/resume, retry failed, save, cancel)
+ */
+export default function DownloadPanel({ download, onRefresh, onClose }: DownloadPanelProps) {
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+  const [showFailures, setShowFailures] = useState(false);
+
+  const { counts, fileCount, status } = download;
+  const finishedFiles = counts.done + counts.failed;
+  const percent = fileCount ? Math.round((finishedFiles / fileCount) * 100) : 0;
+  const failures = download.files.filter(file => file.status === 'failed');
+  const active = status === 'running' || status === 'paused';
+
+  const act = async (url: string, init: RequestInit) => {
+    setBusy(true);
+    setError('');
+    try {
+      const res = await fetch(url, init);
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data?.error || 'Download request failed');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setBusy(false);
+      onRefresh();
+    }
+  };
+
+  const setPaused = (paused: boolean) => act(`/api/downloads/${download.id}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ paused })
+  });
+  const retryFailed = () => act(`/api/downloads/${download.id}/retry`, { method: 'POST' });
+  const cancel = () => act(`/api/downloads/${download.id}`, { method: 'DELETE' });
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-4 mb-6">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div className="text-black">
+          <span className="font-semibold">
+            {status === 'running' && `⏳ Downloading ${finishedFiles} of ${fileCount} files`}
+            {status === 'paused' && `⏸ Paused at ${finishedFiles} of ${fileCount} files`}
+            {status === 'completed' && `✅ ZIP ready: ${counts.done} files${counts.failed ? `, ${counts.failed} failed` : ''}`}
+            {status === 'failed' && `❌ ${download.error || 'Failed to write the archive'}`}
+            {status === 'cancelled' && '✖ Download cancelled'}
+          </span>
+          <span className="ml-3 text-sm text-gray-700">
+            {counts.downloading} in progress, {counts.queued} queued, {counts.failed} failed
+            {' · '}{(download.archiveBytes / (1024 * 1024)).toFixed(1)} MB
+          </span>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          {status === 'running' && (
+            <button onClick={() => setPaused(true)} disabled={busy} className="px-3 py-1 rounded border border-gray-400 text-black hover:bg-gray-100 text-sm">
+              Pause
+            </button>
+          )}
+          {status === 'paused' && (
+            <button onClick={() => setPaused(false)} disabled={busy} className="px-3 py-1 rounded border border-gray-400 text-black hover:bg-gray-100 text-sm">
+              Resume
+            </button>
+          )}
+          {counts.failed > 0 && status !== 'cancelled' && (
+            <button onClick={retryFailed} disabled={busy} className="px-3 py-1 rounded border border-red-300 text-red-700 hover:bg-red-50 text-sm">
+              Retry failed ({counts.failed})
+            </button>
+          )}
+          {status === 'completed' && (
+            <a
+              href={`/api/downloads/${download.id}/archive`}
+              className="px-4 py-1 rounded bg-green-600 text-white font-medium hover:bg-green-700 text-sm"
+            >
+              💾 Save ZIP
+            </a>
+          )}
+          {active ? (
+            <button onClick={cancel} disabled={busy} className="px-3 py-1 rounded border border-gray-400 text-black hover:bg-gray-100 text-sm">
+              Cancel
+            </button>
+          ) : (
+            <button onClick={onClose} className="px-3 py-1 rounded border border-gray-400 text-black hover:bg-gray-100 text-sm">
+              Close
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="mt-3 h-2 bg-gray-200 rounded overflow-hidden">
+        <div
+          className={`h-full ${counts.failed ? 'bg-amber-500' : 'bg-green-600'} transition-all`}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+
+      {error && <p className="mt-2 text-sm text-red-700">{error}</p>}
+
+      {failures.length > 0 && (
+        <div className="mt-3 text-sm">
+          <button onClick={() => setShowFailures(!showFailures)} className="text-blue-600 hover:text-blue-800 underline">
+            {showFailures ? 'Hide' : 'Show'} failed files
+          </button>
+          {showFailures && (
+            <ul className="mt-2 max-h-48 overflow-y-auto text-gray-800 space-y-1">
+              {failures.map(file => (
+                <li key={file.basename}>
+                  <span className="font-mono">{file.basename}</span>: {file.reason || 'Unknown error'}
+                  {file.attempts > 1 ? ` (${file.attempts} tries)` : ''}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { PinterestImage } from '@/lib/scraper';
+import type { LibraryBoard, LibraryScrape, ScrapeDiff, TimelineEntry } from '@/lib/library';
+import ScrapeDiffView from './ScrapeDiffView';
+
+interface LibraryPanelProps {
+  onOpen: (images: PinterestImage[], message: string) => void;
+}
+
+/**
+ * Stored boards and their past scrapes; re-opening a scrape loads it without hitting Pinterest
+ */
+export default function LibraryPanel({ onOpen }: LibraryPanelProps) {
+  const [boards, setBoards] = useState<LibraryBoard[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [expandedBoard, setExpandedBoard] = useState<string | null>(null);
+  const [timeline, setTimeline] = useState<TimelineEntry[]>([]);
+  const [compareIds, setCompareIds] = useState<number[]>([]);
+  const [diff, setDiff] = useState<ScrapeDiff | null>(null);
+
+  useEffect(() => {
+    fetch('/api/library/boards')
+      .then(res => res.json())
+      .then(data => {
+        if (data.error) throw new Error(data.error);
+        setBoards(data.boards || []);
+      })
+      .catch(e => setError(e instanceof Error ? e.message : 'Failed to load library'))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const toggleBoard = async (boardId: string) => {
+    if (expandedBoard === boardId) {
+      setExpandedBoard(null);
+      return;
+    }
+    setExpandedBoard(boardId);
+    setTimeline([]);
+    setCompareIds([]);
+    setDiff(null);
+    const res = await fetch(`/api/library/boards/${encodeURIComponent(boardId)}/timeline`);
+    const data = await res.json().catch(() => ({}));
+    // Newest first in the list; change counts are relative to the scrape below
+    setTimeline((data.timeline || []).slice().reverse());
+  };
+
+  // Keep at most two scrapes selected for comparison
+  const toggleCompare = (scrapeId: number) => {
+    setCompareIds(prev => prev.includes(scrapeId)
+      ? prev.filter(id => id !== scrapeId)
+      : [...prev, scrapeId].slice(-2));
+  };
+
+  const compareScrapes = async () => {
+    // Always diff older → newer regardless of click order
+    const [from, to] = [...compareIds].sort((a, b) => a - b);
+    const res = await fetch(`/api/library/diff?from=${from}&to=${to}`);
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      setError(data?.error || 'Failed to compare scrapes');
+      return;
+    }
+    setDiff(data);
+  };
+
+  const openScrape = async (scrape: LibraryScrape) => {
+    const res = await fetch(`/api/library/scrapes/${scrape.id}`);
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      setError(data?.error || 'Failed to open scrape');
+      return;
+    }
+    onOpen(data.images || [], `Opened saved scrape from ${new Date(scrape.createdAt).toLocaleString()} (${data.count} pins)`);
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+      <h2 className="text-lg font-bold text-black mb-4">Library</h2>
+
+      {loading && <p className="text-gray-700">Loading library...</p>}
+      {error && <p className="text-red-700 font-medium">{error}</p>}
+      {!loading && !error && boards.length === 0 && (
+        <p className="text-gray-700">No saved boards yet. Scraped boards are saved here automatically.</p>
+      )}
+
+      <ul className="divide-y divide-gray-200">
+        {boards.map(board => (
+          <li key={board.id} className="py-3">
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <p className="text-black font-semibold">{board.name}</p>
+                <p className="text-sm text-gray-700">
+                  {board.owner && `${board.owner} · `}{board.pinCount} pins · {board.scrapeCount} scrape{board.scrapeCount === 1 ? '' : 's'} · last {new Date(board.lastSeen).toLocaleDateString()}
+                </p>
+              </div>
+              <button
+                onClick={() => toggleBoard(board.id)}
+                className="text-blue-600 hover:text-blue-800 font-medium underline"
+              >
+                {expandedBoard === board.id ? 'Hide scrapes' : 'Show scrapes'}
+              </button>
+            </div>
+
+            {expandedBoard === board.id && (
+              <div className="mt-2 ml-4">
+                <ul className="space-y-1">
+                  {timeline.map((entry, index) => (
+                    <li key={entry.id} className="flex items-center justify-between text-sm text-gray-800">
+                      <label className="flex items-center gap-2">
+                        <input
+                          type="checkbox"
+                          checked={compareIds.includes(entry.id)}
+                          onChange={() => toggleCompare(entry.id)}
+                          disabled={entry.partial}
+                          title={entry.partial ? 'Partial scrapes can\'t be compared' : undefined}
+                          className="w-4 h-4 text-blue-600"
+                        />
+                        <span>
+                          {new Date(entry.createdAt).toLocaleString()} · {entry.pinCount} pins · {entry.source}
+                          {entry.partial && <span className="text-gray-500"> (partial)</span>}
+                          {!entry.partial && index < timeline.length - 1 && (
+                            <>
+                              {' · '}
+                              <span className="text-green-700">+{entry.added}</span>
+                              {' '}<span className="text-red-700">−{entry.removed}</span>
+                              {entry.retitled > 0 && <> <span className="text-amber-700">~{entry.retitled}</span></>}
+                            </>
+                          )}
+                        </span>
+                      </label>
+                      <button
+                        onClick={() => openScrape(entry)}
+                        className="text-blue-600 hover:text-blue-800 font-medium underline"
+                      >
+                        Open
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+                {timeline.length > 1 && (
+                  <button
+                    onClick={compareScrapes}
+                    disabled={compareIds.length !== 2}
+                    className="mt-2 px-3 py-1 bg-blue-600 text-white text-sm font-medium rounded hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+                  >
+                    Compare selected
+                  </button>
+                )}
+                {diff && <ScrapeDiffView diff={diff} onClose={() => setDiff(null)} />}
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
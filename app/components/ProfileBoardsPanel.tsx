@@ -0,0 +1,149 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { PinterestImage } from '@/lib/scraper';
+import type { ProfileBoard, ProfileBoardResult } from '@/lib/profile';
+
+interface ProfileBoardsPanelProps {
+  profileUrl: string;
+  onScraped: (images: PinterestImage[], message: string) => void;
+}
+
+/**
+ * Board picker for a profile URL; scrapes the selected boards as one batch
+ */
+export default function ProfileBoardsPanel({ profileUrl, onScraped }: ProfileBoardsPanelProps) {
+  const [boards, setBoards] = useState<ProfileBoard[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const [scraping, setScraping] = useState(false);
+  const [error, setError] = useState('');
+  const [results, setResults] = useState<ProfileBoardResult[]>([]);
+
+  useEffect(() => {
+    setLoading(true);
+    setError('');
+    setResults([]);
+    fetch(`/api/profile?url=${encodeURIComponent(profileUrl)}`)
+      .then(async res => {
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(data?.error || 'Failed to list boards');
+        setBoards(data.boards || []);
+        setSelected(new Set((data.boards || []).map((board: ProfileBoard) => board.url)));
+      })
+      .catch(e => setError(e instanceof Error ? e.message : 'Failed to list boards'))
+      .finally(() => setLoading(false));
+  }, [profileUrl]);
+
+  const toggleBoard = (url: string) => {
+    const next = new Set(selected);
+    if (next.has(url)) {
+      next.delete(url);
+    } else {
+      next.add(url);
+    }
+    setSelected(next);
+  };
+
+  const scrapeSelected = async () => {
+    setScraping(true);
+    setError('');
+    setResults([]);
+    try {
+      const res = await fetch('/api/profile/scrape', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ profileUrl, boardUrls: Array.from(selected) })
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data?.error || 'Failed to scrape boards');
+
+      const batch: ProfileBoardResult[] = data.results || [];
+      setResults(batch);
+
+      // The same pin can be saved to several boards; keep the first copy
+      const merged = new Map<string, PinterestImage>();
+      for (const result of batch) {
+        for (const image of result.images) {
+          if (!merged.has(image.id)) merged.set(image.id, image);
+        }
+      }
+      onScraped(Array.from(merged.values()), data.message);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setScraping(false);
+    }
+  };
+
+  const boardName = (url: string) => boards.find(board => board.url === url)?.name || url;
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-bold text-black">Profile boards</h2>
+        {boards.length > 0 && (
+          <div className="flex gap-2 text-sm">
+            <button
+              onClick={() => setSelected(new Set(boards.map(board => board.url)))}
+              className="text-blue-600 hover:text-blue-800 font-medium underline"
+            >
+              Select all
+            </button>
+            <button
+              onClick={() => setSelected(new Set())}
+              className="text-blue-600 hover:text-blue-800 font-medium underline"
+            >
+              Select none
+            </button>
+          </div>
+        )}
+      </div>
+
+      {loading && <p className="text-gray-700">Loading boards...</p>}
+      {error && <p className="text-red-700 font-medium mb-2">{error}</p>}
+
+      <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-6 gap-4">
+        {boards.map(board => (
+          <label key={board.id} className="cursor-pointer">
+            <div className={`relative aspect-square rounded-lg overflow-hidden bg-gray-100 border-2 ${selected.has(board.url) ? 'border-blue-600' : 'border-transparent'}`}>
+              {board.coverUrl && (
+                <img src={board.coverUrl} alt={board.name} className="w-full h-full object-cover" loading="lazy" />
+              )}
+              <input
+                type="checkbox"
+                checked={selected.has(board.url)}
+                onChange={() => toggleBoard(board.url)}
+                className="absolute top-2 left-2 w-5 h-5 text-blue-600"
+              />
+            </div>
+            <p className="text-sm text-black font-medium mt-1 truncate">{board.name}</p>
+            <p className="text-xs text-gray-700">{board.pinCount} pins</p>
+          </label>
+        ))}
+      </div>
+
+      {boards.length > 0 && (
+        <button
+          onClick={scrapeSelected}
+          disabled={scraping || selected.size === 0}
+          className="mt-4 px-6 py-2 bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+        >
+          {scraping ? `Scraping ${selected.size} boards...` : `Scrape ${selected.size} selected board${selected.size === 1 ? '' : 's'}`}
+        </button>
+      )}
+
+      {results.length > 0 && (
+        <ul className="mt-4 space-y-1 text-sm">
+          {results.map(result => (
+            <li key={result.boardUrl} className={result.success ? 'text-gray-800' : 'text-red-700'}>
+              {result.success ? '✓' : '✗'} {result.boardInfo?.name || boardName(result.boardUrl)}: {result.success
+                ? `${result.count} pins${result.complete ? '' : ' (incomplete)'}`
+                : result.error}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+'use client';
+
+import { useState } from 'react';
+import type { PinterestImage } from '@/lib/scraper';
+import type { RelatedPin } from '@/lib/related';
+
+interface RelatedPinsPanelProps {
+  boardUrl: string;
+  onLoad: (images: PinterestImage[], message: string) => void;
+}
+
+/**
+ * "More ideas" harvester for a seed board; results stay here until loaded into the grid
+ */
+export default function RelatedPinsPanel({ boardUrl, onLoad }: RelatedPinsPanelProps) {
+  const [depth, setDepth] = useState(1);
+  const [maxPins, setMaxPins] = useState(200);
+  const [harvesting, setHarvesting] = useState(false);
+  const [error, setError] = useState('');
+  const [related, setRelated] = useState<RelatedPin[]>([]);
+  const [message, setMessage] = useState('');
+
+  const harvest = async () => {
+    setHarvesting(true);
+    setError('');
+    setRelated([]);
+    setMessage('');
+    try {
+      const res = await fetch('/api/related', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ boardUrl, depth, maxPins })
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data?.error || 'Failed to harvest related pins');
+      setRelated(data.related || []);
+      setMessage(data.message);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setHarvesting(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+      <h2 className="text-lg font-bold text-black mb-1">More ideas</h2>
+      <p className="text-sm text-gray-700 mb-4">
+        Pins Pinterest recommends around this board. Depth 2 and 3 follow the related pins of each level.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-4">
+        <label className="flex items-center gap-2 text-sm text-gray-800">
+          Depth
+          <select
+            value={depth}
+            onChange={(e) => setDepth(Number(e.target.value))}
+            disabled={harvesting}
+            className="px-2 py-1 border border-gray-400 rounded text-black bg-white"
+          >
+            <option value={1}>1</option>
+            <option value={2}>2</option>
+            <option value={3}>3</option>
+          </select>
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-800">
+          Max pins
+          <input
+            type="number"
+            min={1}
+            value={maxPins}
+            onChange={(e) => setMaxPins(Number(e.target.value) || 1)}
+            disabled={harvesting}
+            className="w-24 px-2 py-1 border border-gray-400 rounded text-black bg-white"
+          />
+        </label>
+        <button
+          onClick={harvest}
+          disabled={harvesting}
+          className="px-6 py-2 bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+        >
+          {harvesting ? 'Harvesting...' : 'Harvest more ideas'}
+        </button>
+        {related.length > 0 && (
+          <button
+            onClick={() => onLoad(related, message)}
+            className="px-4 py-2 border border-gray-400 text-gray-800 font-medium rounded-lg hover:bg-gray-100 transition-colors"
+          >
+            Show {related.length} in grid
+          </button>
+        )}
+      </div>
+
+      {error && <p className="text-red-700 font-medium mt-3">{error}</p>}
+      {message && <p className="text-gray-800 mt-3">{message}</p>}
+
+      {related.length > 0 && (
+        <div className="mt-4 grid grid-cols-4 sm:grid-cols-6 md:grid-cols-8 lg:grid-cols-12 gap-2">
+          {related.slice(0, 48).map(pin => (
+            <div key={pin.id} className="relative aspect-square rounded overflow-hidden bg-gray-100" title={pin.title || pin.id}>
+              <img src={pin.thumbnail} alt={pin.title || ''} className="w-full h-full object-cover" loading="lazy" />
+              <span className="absolute bottom-1 right-1 px-1 rounded bg-black/60 text-white text-xs">{pin.relatedDepth}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+'use client';
+
+import type { PinterestImage } from '@/lib/scraper';
+import type { ScrapeDiff } from '@/lib/library';
+
+interface ScrapeDiffViewProps {
+  diff: ScrapeDiff;
+  onClose: () => void;
+}
+
+function PinThumb({ pin, caption }: { pin: PinterestImage, caption?: string }) {
+  return (
+    <div className="w-28">
+      <img src={pin.thumbnail || pin.url} alt={pin.title || 'Pin'} className="w-28 h-28 object-cover rounded" loading="lazy" />
+      <p className="text-xs text-gray-800 mt-1 line-clamp-2">{caption ?? (pin.title || pin.id)}</p>
+    </div>
+  );
+}
+
+/**
+ * Side-by-side summary of what changed on a board between two stored scrapes
+ */
+export default function ScrapeDiffView({ diff, onClose }: ScrapeDiffViewProps) {
+  const sections: { label: string, color: string, items: { pin: PinterestImage, caption?: string }[] }[] = [
+    { label: 'Added', color: 'text-green-700', items: diff.added.map(pin => ({ pin })) },
+    { label: 'Removed', color: 'text-red-700', items: diff.removed.map(pin => ({ pin })) },
+    {
+      label: 'Retitled',
+      color: 'text-amber-700',
+      items: diff.retitled.map(({ pin, previousTitle, title }) => ({
+        pin,
+        caption: `"${previousTitle || '(untitled)'}" → "${title || '(untitled)'}"`
+      }))
+    }
+  ];
+
+  return (
+    <div className="mt-4 border border-gray-200 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-3">
+        <p className="text-sm text-gray-800 font-medium">
+          {new Date(diff.from.createdAt).toLocaleString()} → {new Date(diff.to.createdAt).toLocaleString()}
+          {' '}· {diff.unchangedCount} unchanged
+        </p>
+        <button onClick={onClose} className="text-blue-600 hover:text-blue-800 font-medium underline text-sm">
+          Close
+        </button>
+      </div>
+
+      {sections.map(section => (
+        <div key={section.label} className="mb-4">
+          <h3 className={`font-semibold mb-2 ${section.color}`}>
+            {section.label} ({section.items.length})
+          </h3>
+          {section.items.length > 0 ? (
+            <div className="flex flex-wrap gap-3">
+              {section.items.map(({ pin, caption }) => (
+                <PinThumb key={pin.id} pin={pin} caption={caption} />
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-600">None</p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { SessionStatus } from '@/lib/session';
+import type { ApiConnectionStatus } from '@/lib/pinterest-api';
+
+/**
+ * Import or clear the Pinterest session cookie jar used for private and secret boards,
+ * and connect the official API (OAuth)
+ */
+export default function SessionPanel() {
+  const [status, setStatus] = useState<SessionStatus | null>(null);
+  const [jar, setJar] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+  const [apiStatus, setApiStatus] = useState<ApiConnectionStatus | null>(null);
+
+  useEffect(() => {
+    fetch('/api/session')
+      .then(res => res.json())
+      .then(setStatus)
+      .catch(() => setError('Failed to load session status'));
+    fetch('/api/auth/pinterest')
+      .then(res => res.json())
+      .then(setApiStatus)
+      .catch(() => {});
+  }, []);
+
+  const disconnectApi = async () => {
+    const res = await fetch('/api/auth/pinterest', { method: 'DELETE' }).catch(() => null);
+    if (res?.ok) setApiStatus(await res.json());
+  };
+
+  const send = async (init: RequestInit) => {
+    setBusy(true);
+    setError('');
+    try {
+      const res = await fetch('/api/session', init);
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data?.error || 'Session request failed');
+      setStatus(data);
+      setJar('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const importJar = () => send({
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ cookies: jar })
+  });
+
+  const loadFile = async (file: File | undefined) => {
+    if (file) setJar(await file.text());
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+      <h2 className="text-lg font-bold text-black mb-1">Session (private boards)</h2>
+      <p className="text-sm text-gray-700 mb-4">
+        Import cookies exported from a browser logged in to Pinterest (cookies.txt or JSON). They are stored encrypted on the server.
+      </p>
+
+      {status && (
+        <p className="text-sm text-gray-800 mb-3">
+          {status.active
+            ? `${status.loggedIn ? 'Logged in' : 'Not logged in'} · ${status.cookieCount} cookies · imported ${status.importedAt ? new Date(status.importedAt).toLocaleString() : ''}${status.expiresAt ? ` · expires ${new Date(status.expiresAt).toLocaleDateString()}` : ''}`
+            : 'No session imported: only public boards can be scraped.'}
+        </p>
+      )}
+
+      <textarea
+        value={jar}
+        onChange={(e) => setJar(e.target.value)}
+        placeholder="Paste cookies.txt or JSON cookie export"
+        rows={4}
+        className="w-full px-3 py-2 border border-gray-400 rounded-lg font-mono text-xs text-black bg-white"
+        disabled={busy}
+      />
+
+      <div className="mt-3 flex flex-wrap items-center gap-4">
+        <input
+          type="file"
+          accept=".txt,.json,text/plain,application/json"
+          onChange={(e) => loadFile(e.target.files?.[0])}
+          disabled={busy}
+          className="text-sm text-gray-800"
+        />
+        <button
+          onClick={importJar}
+          disabled={busy || !jar.trim()}
+          className="px-6 py-2 bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+        >
+          Import
+        </button>
+        {status?.active && (
+          <button
+            onClick={() => send({ method: 'DELETE' })}
+            disabled={busy}
+            className="px-4 py-2 border border-gray-400 text-gray-800 font-medium rounded-lg hover:bg-gray-100 transition-colors"
+          >
+            Clear session
+          </button>
+        )}
+      </div>
+
+      {error && <p className="text-red-700 font-medium mt-3">{error}</p>}
+
+      {apiStatus && (
+        <div className="mt-6 pt-4 border-t border-gray-200 flex flex-wrap items-center gap-4 text-sm text-gray-800">
+          <span>
+            Official API: {apiStatus.connected
+              ? `connected (${apiStatus.source === 'oauth' ? 'OAuth' : 'PINTEREST_ACCESS_TOKEN'}) · scrape your boards with the "api" strategy`
+              : 'not connected'}
+          </span>
+          {apiStatus.configured && apiStatus.source !== 'oauth' && (
+            <a href="/api/auth/pinterest/login" className="text-blue-600 hover:text-blue-800 font-medium underline">
+              Connect with Pinterest
+            </a>
+          )}
+          {apiStatus.source === 'oauth' && (
+            <button onClick={disconnectApi} className="text-blue-600 hover:text-blue-800 font-medium underline">
+              Disconnect
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
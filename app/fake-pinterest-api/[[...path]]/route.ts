@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { fakePinterestApiResponse } from '@/lib/fake-pinterest-api';
+
+export const runtime = 'nodejs';
+
+type RouteContext = { params: Promise<{ path?: string[] }> };
+
+/**
+ * Offline fake of the Pinterest API v5 (see lib/fake-pinterest-api.ts), only served when FAKE_PINTEREST=1
+ */
+async function handle(request: NextRequest, { params }: RouteContext, body: string = '') {
+  if (process.env.FAKE_PINTEREST !== '1') {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+  const { path = [] } = await params;
+  return fakePinterestApiResponse(request.method, `/${path.join('/')}`, request.nextUrl.searchParams, request.headers, body);
+}
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  return handle(request, context);
+}
+
+export async function POST(request: NextRequest, context: RouteContext) {
+  return handle(request, context, await request.text());
+}
@@ -0,0 +1,15 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { fakePinterestResponse } from '@/lib/fake-pinterest';
+
+export const runtime = 'nodejs';
+
+/**
+ * Offline fake Pinterest (see lib/fake-pinterest.ts), only served when FAKE_PINTEREST=1
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ path?: string[] }> }) {
+  if (process.env.FAKE_PINTEREST !== '1') {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+  const { path = [] } = await params;
+  return fakePinterestResponse(`/${path.join('/')}`, request.nextUrl.searchParams);
+}
@@ -1,81 +1,369 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import JSZip from 'jszip';
-import { saveAs } from 'file-saver';
-import type { PinterestImage } from '@/lib/scraper';
+import { useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import { classifyPinterestUrl, searchUrlFor } from '@/lib/urls';
+import type { PinterestImage, BoardSection } from '@/lib/scraper';
+import type { JobSummary } from '@/lib/jobs';
+import type { ChainEvent } from '@/lib/strategies';
+import type { PinBoardRef } from '@/lib/pin';
+import type { DownloadFileStatus, DownloadProgress } from '@/lib/downloads';
+import LibraryPanel from './components/LibraryPanel';
+import ProfileBoardsPanel from './components/ProfileBoardsPanel';
+import RelatedPinsPanel from './components/RelatedPinsPanel';
+import SessionPanel from './components/SessionPanel';
+import DownloadPanel from './components/DownloadPanel';
+
+type BoardStreamEvent =
+  | ChainEvent
+  | { type: 'done'; count: number; message: string; sectionGroups?: { section: BoardSection | null; pinIds: string[] }[] }
+  | { type: 'error'; error: string };
+
+const JOB_STORAGE_KEY = 'pinterest-scraper:job';
 
 export default function Home() {
   const [boardUrl, setBoardUrl] = useState('');
+  const [searchQuery, setSearchQuery] = useState('');
   const [images, setImages] = useState<PinterestImage[]>([]);
   const [loading, setLoading] = useState(false);
-  const [downloading, setDownloading] = useState(false);
   const [error, setError] = useState('');
   const [successMsg, setSuccessMsg] = useState('');
   const [selectedImages, setSelectedImages] = useState<Set<string>>(new Set());
   const [imageSize, setImageSize] = useState<'medium' | 'large' | 'original'>('large');
+  const [videoMode, setVideoMode] = useState<'mp4' | 'poster'>('mp4');
   const [isPreviewOpen, setIsPreviewOpen] = useState(false);
   const [previewIndex, setPreviewIndex] = useState<number | null>(null);
+  // Page/slot shown in the lightbox for idea/story and carousel pins
+  const [previewChild, setPreviewChild] = useState(0);
+  const [runInBackground, setRunInBackground] = useState(false);
+  const [includeSections, setIncludeSections] = useState(false);
+  // Pin id → section title, used to mirror sections as ZIP subfolders
+  const [pinSections, setPinSections] = useState<Record<string, string>>({});
+  const [activeJob, setActiveJob] = useState<JobSummary | null>(null);
+  const [showLibrary, setShowLibrary] = useState(false);
+  const [showRelated, setShowRelated] = useState(false);
+  const [showSession, setShowSession] = useState(false);
+  const [profileUrl, setProfileUrl] = useState<string | null>(null);
+  const [pinBoard, setPinBoard] = useState<PinBoardRef | null>(null);
+  const [streamStatus, setStreamStatus] = useState<{ strategy?: string; pinCount?: number } | null>(null);
+  const jobPollRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Queued ZIP download: files fetched server-side, `concurrency` at a time
+  const [download, setDownload] = useState<DownloadProgress | null>(null);
+  const [concurrency, setConcurrency] = useState(6);
+  const downloadPollRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const downloadStatusRef = useRef<string | null>(null);
+
+  const stopJobPolling = useCallback(() => {
+    if (jobPollRef.current) clearTimeout(jobPollRef.current);
+    jobPollRef.current = null;
+  }, []);
+
+  // Poll a background job, appending pins as they arrive; survives page reloads via localStorage
+  const pollJob = useCallback((jobId: string, since = 0) => {
+    stopJobPolling();
+    const tick = async (offset: number) => {
+      try {
+        const res = await fetch(`/api/jobs/${jobId}?since=${offset}`);
+        if (!res.ok) {
+          // Job expired or the server restarted
+          localStorage.removeItem(JOB_STORAGE_KEY);
+          setActiveJob(null);
+          setLoading(false);
+          return;
+        }
+        const data = await res.json();
+        const { images: newImages = [], ...summary } = data;
+        setActiveJob(summary);
+
+        if (summary.status === 'completed' || summary.status === 'failed' || summary.status === 'cancelled') {
+          localStorage.removeItem(JOB_STORAGE_KEY);
+          setLoading(false);
+          // Final result replaces the incremental view (order and contents may have been refined)
+          const finalRes = await fetch(`/api/jobs/${jobId}`);
+          const finalData = finalRes.ok ? await finalRes.json() : { images: [] };
+          const finalImages: PinterestImage[] = finalData.images || [];
+          setImages(finalImages);
+          setSelectedImages(new Set(finalImages.map(img => img.id)));
+          if (summary.status === 'completed') {
+            setSuccessMsg(`Background job finished: ${finalImages.length} pins${summary.boardInfo?.pinCount ? ` of ${summary.boardInfo.pinCount}` : ''}${summary.complete === false ? ` (pagination stopped early${summary.errors?.[0] ? `: ${summary.errors[0]}` : ''}; resume token ${summary.resumeToken})` : ''}`);
+          } else if (summary.status === 'failed') {
+            setError(summary.errors?.[0] || 'Background job failed');
+          } else {
+            setSuccessMsg(`Background job cancelled with ${finalImages.length} pins collected`);
+          }
+          return;
+        }
+
+        if (newImages.length > 0) {
+          setImages(prev => [...prev, ...newImages]);
+          setSelectedImages(prev => {
+            const next = new Set(prev);
+            for (const img of newImages as PinterestImage[]) next.add(img.id);
+            return next;
+          });
+        }
+        jobPollRef.current = setTimeout(() => tick(offset + newImages.length), 2000);
+      } catch {
+        // Network blip: keep polling from the same offset
+        jobPollRef.current = setTimeout(() => tick(offset), 5000);
+      }
+    };
+    void tick(since);
+  }, [stopJobPolling]);
+
+  // Reconnect to a background job left running by a previous visit
+  useEffect(() => {
+    const jobId = localStorage.getItem(JOB_STORAGE_KEY);
+    if (jobId) {
+      setLoading(true);
+      pollJob(jobId);
+    }
+    return stopJobPolling;
+  }, [pollJob, stopJobPolling]);
+
+  const cancelJob = async () => {
+    if (!activeJob) return;
+    await fetch(`/api/jobs/${activeJob.id}`, { method: 'DELETE' }).catch(() => {});
+  };
 
-  const handleScrape = async () => {
-    if (!boardUrl) return;
+  const startBackgroundJob = async (targetUrl: string) => {
+    const res = await fetch('/api/jobs', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ boardUrl: targetUrl, method: 'scrape', maxPages: 50 })
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok || !data.jobId) {
+      throw new Error(data?.error || 'Failed to start background job');
+    }
+    localStorage.setItem(JOB_STORAGE_KEY, data.jobId);
+    pollJob(data.jobId);
+  };
 
+  /**
+   * Look up a single pin (or resolve a pin.it link); returns the resolved URL when it isn't a pin
+   */
+  const openPin = async (pinUrl: string): Promise<string | null> => {
+    setLoading(true);
+    setError('');
+    setSuccessMsg('');
+    setProfileUrl(null);
+    setPinBoard(null);
+    try {
+      const res = await fetch('/api/pin', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ url: pinUrl })
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data?.error || 'Failed to fetch pin');
+
+      if (data.kind !== 'pin') return data.resolvedUrl;
+
+      setImages(data.images);
+      setSelectedImages(new Set(data.images.map((img: PinterestImage) => img.id)));
+      setSuccessMsg(data.message);
+      setPinBoard(data.board ?? null);
+      return null;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  /**
+   * Pin search; results replace the grid like a board scrape
+   */
+  const runSearch = async (query: string) => {
     setLoading(true);
     setError('');
     setSuccessMsg('');
     setImages([]);
     setSelectedImages(new Set());
+    setPinSections({});
+    try {
+      const res = await fetch('/api/search', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ query, maxPins: 200 })
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data?.error || 'Search failed');
 
-    const postJson = async (url: string, body: any, timeoutMs = 20000) => {
-      const controller = new AbortController();
-      const t = setTimeout(() => controller.abort(), timeoutMs);
+      setImages(data.images);
+      setSelectedImages(new Set(data.images.map((img: PinterestImage) => img.id)));
+      setSuccessMsg(data.message);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleScrape = async (targetUrl: string = boardUrl) => {
+    if (!targetUrl) return;
+
+    let target = classifyPinterestUrl(targetUrl);
+    if (target?.kind === 'pin' || target?.kind === 'short') {
+      const resolvedUrl = await openPin(targetUrl);
+      if (!resolvedUrl) return;
+      // Short link to a board or profile: continue with the resolved URL
+      targetUrl = resolvedUrl;
+      setBoardUrl(resolvedUrl);
+      target = classifyPinterestUrl(resolvedUrl);
+    }
+
+    if (target?.kind === 'search') {
+      setProfileUrl(null);
+      setPinBoard(null);
+      setSearchQuery(target.query);
+      await runSearch(target.query);
+      return;
+    }
+
+    // A profile URL lists the user's boards to pick from instead of scraping directly
+    if (target?.kind === 'profile') {
+      setError('');
+      setSuccessMsg('');
+      setPinBoard(null);
+      setProfileUrl(targetUrl);
+      return;
+    }
+    setProfileUrl(null);
+    setPinBoard(null);
+
+    setLoading(true);
+    setError('');
+    setSuccessMsg('');
+    setImages([]);
+    setSelectedImages(new Set());
+    setActiveJob(null);
+    setStreamStatus({});
+    setPinSections({});
+
+    if (runInBackground) {
       try {
-        const res = await fetch(url, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(body),
-          signal: controller.signal
-        });
-        const data = await res.json().catch(() => ({}));
-        return { ok: res.ok, data };
-      } catch (e) {
-        return { ok: false, data: { error: e instanceof Error ? e.message : 'Request failed' } };
-      } finally {
-        clearTimeout(t);
+        await startBackgroundJob(targetUrl);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An error occurred');
+        setLoading(false);
       }
-    };
+      return;
+    }
 
     try {
-      // 1) Try Playwright first for complete pin coverage (browser automation + DOM harvest + in-page API)
-      // Increase timeout because browser automation can exceed 20s
-      let resp = await postJson('/api/playwright-scrape', { boardUrl }, 90000);
+      // Server runs the strategy chain (Playwright → paginated scrape → enhanced sweep) and streams
+      // NDJSON events so the grid fills in as pages arrive
+      const res = await fetch('/api/board/stream', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ boardUrl: targetUrl, maxPages: 20, includeSections })
+      });
 
-      // 2) Fallback to server scrape if Playwright fails or returns nothing
-      if (!resp.ok || !resp.data?.images?.length) {
-        resp = await postJson('/api/scrape', { boardUrl, maxPages: 20 });
+      if (!res.ok || !res.body) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data?.error || 'Failed to scrape board');
       }
 
-      // 3) Last resort: enhanced static scrape (multi-UA HTML sweep)
-      if (!resp.ok || !resp.data?.images?.length) {
-        resp = await postJson('/api/enhanced-scrape', { boardUrl });
-      }
+      const reader = res.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      let finished = false;
+
+      const handleEvent = (event: BoardStreamEvent) => {
+        switch (event.type) {
+          case 'strategy':
+            setStreamStatus(prev => ({ ...prev, strategy: event.name }));
+            break;
+          case 'board':
+            setStreamStatus(prev => ({ ...prev, pinCount: event.boardInfo.pinCount }));
+            break;
+          case 'pins':
+            setImages(prev => [...prev, ...event.pins]);
+            // Auto-select pins as they arrive
+            setSelectedImages(prev => {
+              const next = new Set(prev);
+              for (const img of event.pins) next.add(img.id);
+              return next;
+            });
+            break;
+          case 'progress':
+            if (event.pinCount) setStreamStatus(prev => ({ ...prev, pinCount: event.pinCount }));
+            break;
+          case 'done':
+            finished = true;
+            if (event.count === 0) {
+              setError('No images found on this board. Make sure it\'s a public board, or import a session for private boards.');
+            } else {
+              setSuccessMsg(event.message);
+            }
+            if (event.sectionGroups) {
+              const sectionsByPin: Record<string, string> = {};
+              for (const group of event.sectionGroups) {
+                if (!group.section) continue;
+                for (const pinId of group.pinIds) sectionsByPin[pinId] = group.section.title;
+              }
+              setPinSections(sectionsByPin);
+            }
+            break;
+          case 'error':
+            finished = true;
+            setError(event.error || 'Failed to scrape board');
+            break;
+        }
+      };
 
-      if (!resp.ok) {
-        throw new Error(resp.data?.error || 'Failed to scrape board');
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        for (const line of lines) {
+          if (line.trim()) handleEvent(JSON.parse(line));
+        }
       }
+      if (buffer.trim()) handleEvent(JSON.parse(buffer));
 
-      const resultImages: PinterestImage[] = resp.data.images || [];
-      setImages(resultImages);
-      // Auto-select all images initially
-      setSelectedImages(new Set(resultImages.map((img: PinterestImage) => img.id)));
-      setSuccessMsg(resp.data?.message || `Fetched ${resultImages.length} images`);
+      if (!finished) {
+        throw new Error('Scrape stream ended unexpectedly');
+      }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred');
     } finally {
       setLoading(false);
+      setStreamStatus(null);
     }
   };
 
+  // Load a stored scrape from the local library into the grid
+  const openFromLibrary = (libraryImages: PinterestImage[], message: string) => {
+    setImages(libraryImages);
+    setSelectedImages(new Set(libraryImages.map(img => img.id)));
+    setError('');
+    setSuccessMsg(message);
+    setShowLibrary(false);
+  };
+
+  const showBatchResult = (batchImages: PinterestImage[], message: string) => {
+    setImages(batchImages);
+    setSelectedImages(new Set(batchImages.map(img => img.id)));
+    setError('');
+    setSuccessMsg(message);
+  };
+
+  const urlKind = classifyPinterestUrl(boardUrl)?.kind;
+  const scrapeButtonLabel = urlKind === 'profile' ? 'List Boards'
+    : urlKind === 'pin' || urlKind === 'short' ? 'Open Pin'
+      : urlKind === 'search' ? 'Search Pins' : 'Scrape Board';
+
+  const searchPins = () => {
+    const url = searchUrlFor(searchQuery);
+    setBoardUrl(url);
+    handleScrape(url);
+  };
+
   const toggleImageSelection = (imageId: string) => {
     const newSelection = new Set(selectedImages);
     if (newSelection.has(imageId)) {
@@ -90,6 +378,7 @@ export default function Home() {
   const openPreview = (index: number) => {
     setIsPreviewOpen(true);
     setPreviewIndex(index);
+    setPreviewChild(0);
   };
 
   const closePreview = () => {
@@ -100,11 +389,13 @@ export default function Home() {
   const goPrev = () => {
     if (!images.length || previewIndex === null) return;
     setPreviewIndex((previewIndex + images.length - 1) % images.length);
+    setPreviewChild(0);
   };
 
   const goNext = () => {
     if (!images.length || previewIndex === null) return;
     setPreviewIndex((previewIndex + 1) % images.length);
+    setPreviewChild(0);
   };
 
   useEffect(() => {
@@ -126,93 +417,105 @@ export default function Home() {
     setSelectedImages(new Set());
   };
 
+  const stopDownloadPolling = () => {
+    if (downloadPollRef.current) clearTimeout(downloadPollRef.current);
+    downloadPollRef.current = null;
+  };
+
+  // Poll a queued download while files are in flight; saves the ZIP once it finishes cleanly
+  const refreshDownload = async (downloadId: string) => {
+    stopDownloadPolling();
+    try {
+      const res = await fetch(`/api/downloads/${downloadId}`);
+      if (!res.ok) {
+        setDownload(null);
+        return;
+      }
+      const data: DownloadProgress = await res.json();
+      setDownload(data);
+
+      const previousStatus = downloadStatusRef.current;
+      downloadStatusRef.current = data.status;
+      if (previousStatus === 'running' && data.status === 'completed' && data.counts.failed === 0) {
+        window.location.href = `/api/downloads/${downloadId}/archive`;
+      }
+
+      if (data.status === 'running' || data.counts.downloading > 0) {
+        downloadPollRef.current = setTimeout(() => refreshDownload(downloadId), 1000);
+      }
+    } catch {
+      // Network blip: try again a little later
+      downloadPollRef.current = setTimeout(() => refreshDownload(downloadId), 3000);
+    }
+  };
+
+  useEffect(() => stopDownloadPolling, []);
+
+  const downloadActive = download?.status === 'running' || download?.status === 'paused';
+
+  // Per-pin download status for the grid; a pin is only done when all of its files are
+  const pinDownloadStatus = useMemo(() => {
+    const rank: Record<DownloadFileStatus, number> = { done: 0, queued: 1, downloading: 2, failed: 3 };
+    const byPin: Record<string, { status: DownloadFileStatus; reason?: string }> = {};
+    for (const file of download?.files ?? []) {
+      const current = byPin[file.pinId];
+      if (!current || rank[file.status] > rank[current.status]) {
+        byPin[file.pinId] = { status: file.status, reason: file.reason };
+      }
+    }
+    return byPin;
+  }, [download]);
+
+  const changeConcurrency = async (value: number) => {
+    setConcurrency(value);
+    if (download && downloadActive) {
+      await fetch(`/api/downloads/${download.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ concurrency: value })
+      }).catch(() => {});
+      void refreshDownload(download.id);
+    }
+  };
+
+  // The server fetches the files into a ZIP on disk; the grid shows each pin's progress
   const downloadSelected = async () => {
     const selectedImagesList = images.filter(img => selectedImages.has(img.id));
-    
+
     if (selectedImagesList.length === 0) {
       alert('Please select at least one image');
       return;
     }
-    
-    setDownloading(true);
+
     setError('');
     setSuccessMsg('');
-    
+
+    // Section pins go into a subfolder named after the section
+    const sections: Record<string, string> = {};
+    for (const image of selectedImagesList) {
+      if (pinSections[image.id]) sections[image.id] = pinSections[image.id];
+    }
+
     try {
-      const zip = new JSZip();
-      const folder = zip.folder('pinterest-images');
-      
-      // Helper function to download with retry
-      const downloadWithRetry = async (image: PinterestImage, index: number, maxRetries = 3) => {
-        const imageUrl = image[imageSize];
-        if (!imageUrl) return null;
-        
-        for (let attempt = 1; attempt <= maxRetries; attempt++) {
-          try {
-            const proxyUrl = `/api/download?url=${encodeURIComponent(imageUrl)}`;
-            const response = await fetch(proxyUrl);
-            
-            if (!response.ok) {
-              throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-            }
-            
-            const blob = await response.blob();
-            
-            // Verify we got an image
-            if (blob.size === 0 || !blob.type.startsWith('image/')) {
-              throw new Error('Invalid image data received');
-            }
-            
-            const filename = `${String(index + 1).padStart(3, '0')}_pinterest_${image.id}.jpg`;
-            return { filename, blob };
-            
-          } catch (error) {
-            console.warn(`Download attempt ${attempt}/${maxRetries} failed for image ${image.id}:`, error);
-            
-            if (attempt === maxRetries) {
-              console.error(`Failed to download image ${image.id} after ${maxRetries} attempts`);
-              return null;
-            }
-            
-            // Wait before retry (exponential backoff)
-            await new Promise(resolve => setTimeout(resolve, attempt * 1000));
-          }
-        }
-      };
-      
-      // Download all selected images with retry logic
-      const downloadPromises = selectedImagesList.map(async (image, index) => {
-        const result = await downloadWithRetry(image, index);
-        if (result) {
-          folder?.file(result.filename, result.blob);
-        }
-        return result;
+      const res = await fetch('/api/downloads', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ pins: selectedImagesList, size: imageSize, videoMode, sections, concurrency })
       });
-      
-      const results = await Promise.all(downloadPromises);
-      
-      // Count successful downloads
-      const successfulDownloads = results.filter(result => result !== null).length;
-      const failedDownloads = results.length - successfulDownloads;
-      
-      // Generate and download ZIP
-      const zipBlob = await zip.generateAsync({ type: 'blob' });
-      const timestamp = new Date().toISOString().slice(0, 10);
-      saveAs(zipBlob, `pinterest-board-${timestamp}.zip`);
-      
-      if (failedDownloads > 0) {
-        setSuccessMsg(`✅ Downloaded ${successfulDownloads} images (${failedDownloads} failed)`);
-      } else {
-        setSuccessMsg(`✅ Successfully downloaded all ${successfulDownloads} images!`);
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok || !data.downloadId) {
+        throw new Error(data?.error || 'Failed to start download');
       }
-    } catch (error) {
-      setError('Failed to create ZIP file');
-      console.error('ZIP creation error:', error);
-    } finally {
-      setDownloading(false);
+      downloadStatusRef.current = null;
+      void refreshDownload(data.downloadId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start download');
     }
   };
 
+  const previewPin = previewIndex !== null ? images[previewIndex] : undefined;
+  const previewMedia = previewPin?.children?.[previewChild] ?? previewPin;
+
   return (
     <main className="min-h-screen bg-gradient-to-b from-gray-50 to-gray-100 p-8">
       <div className="max-w-7xl mx-auto">
@@ -233,18 +536,98 @@ export default function Home() {
               type="url"
               value={boardUrl}
               onChange={(e) => setBoardUrl(e.target.value)}
-              placeholder="https://www.pinterest.com/username/board-name/"
+              placeholder="Board, profile, pin, search or pin.it URL"
               className="flex-1 px-4 py-2 border border-gray-400 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-black placeholder-gray-500 bg-white"
               disabled={loading}
             />
             <button
-              onClick={handleScrape}
+              onClick={() => handleScrape()}
               disabled={loading || !boardUrl}
               className="px-6 py-2 bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
             >
-              {loading ? 'Scraping...' : 'Scrape Board'}
+              {loading ? 'Scraping...' : scrapeButtonLabel}
+            </button>
+            <button
+              onClick={() => setShowLibrary(!showLibrary)}
+              className="px-4 py-2 border border-gray-400 text-gray-800 font-medium rounded-lg hover:bg-gray-100 transition-colors"
+            >
+              📚 Library
+            </button>
+            <button
+              onClick={() => setShowRelated(!showRelated)}
+              disabled={urlKind !== 'board'}
+              title="Harvest Pinterest's recommendations around this board"
+              className="px-4 py-2 border border-gray-400 text-gray-800 font-medium rounded-lg hover:bg-gray-100 disabled:text-gray-400 disabled:cursor-not-allowed transition-colors"
+            >
+              🌱 More ideas
+            </button>
+            <button
+              onClick={() => setShowSession(!showSession)}
+              title="Import session cookies for private and secret boards"
+              className="px-4 py-2 border border-gray-400 text-gray-800 font-medium rounded-lg hover:bg-gray-100 transition-colors"
+            >
+              🔐
             </button>
           </div>
+
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              searchPins();
+            }}
+            className="mt-3 flex gap-4"
+          >
+            <input
+              type="search"
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              placeholder="...or search pins, e.g. mid-century kitchen"
+              className="flex-1 px-4 py-2 border border-gray-400 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-black placeholder-gray-500 bg-white"
+              disabled={loading}
+            />
+            <button
+              type="submit"
+              disabled={loading || !searchQuery.trim()}
+              className="px-6 py-2 border border-blue-600 text-blue-700 font-medium rounded-lg hover:bg-blue-50 disabled:border-gray-400 disabled:text-gray-400 disabled:cursor-not-allowed transition-colors"
+            >
+              🔎 Search
+            </button>
+          </form>
+
+          <label className="mt-3 flex items-center gap-2 text-sm text-gray-800">
+            <input
+              type="checkbox"
+              checked={runInBackground}
+              onChange={(e) => setRunInBackground(e.target.checked)}
+              disabled={loading}
+            />
+            Run as background job (keeps going if you close this tab)
+          </label>
+
+          <label className="mt-2 flex items-center gap-2 text-sm text-gray-800">
+            <input
+              type="checkbox"
+              checked={includeSections}
+              onChange={(e) => setIncludeSections(e.target.checked)}
+              disabled={loading || runInBackground}
+            />
+            Include board sections (ZIP keeps each section in its own folder)
+          </label>
+
+          {activeJob && (activeJob.status === 'queued' || activeJob.status === 'running') && (
+            <div className="mt-4 p-3 bg-blue-50 border border-blue-200 rounded-lg text-blue-900 font-medium flex items-center justify-between gap-4">
+              <span>
+                Job {activeJob.status}: {activeJob.pinCount}
+                {activeJob.boardInfo?.pinCount ? ` of ${activeJob.boardInfo.pinCount}` : ''} pins, {activeJob.pagesFetched} pages fetched
+              </span>
+              <button
+                onClick={cancelJob}
+                className="px-3 py-1 rounded bg-white border border-blue-300 hover:bg-blue-100 text-sm"
+              >
+                Cancel
+              </button>
+            </div>
+          )}
           
           {error && (
             <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 font-medium">
@@ -257,8 +640,35 @@ export default function Home() {
               {successMsg}
             </div>
           )}
+
+          {pinBoard && (
+            <div className="mt-4 p-3 bg-blue-50 border border-blue-200 rounded-lg flex items-center justify-between gap-4">
+              <span className="text-gray-800">
+                This pin is saved on <span className="font-semibold">{pinBoard.name || 'a board'}</span>
+                {pinBoard.pinCount ? ` (${pinBoard.pinCount} pins)` : ''}.
+              </span>
+              <button
+                onClick={() => {
+                  setBoardUrl(pinBoard.url);
+                  handleScrape(pinBoard.url);
+                }}
+                disabled={loading}
+                className="px-4 py-2 bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700 disabled:bg-gray-400 transition-colors"
+              >
+                Scrape this board
+              </button>
+            </div>
+          )}
         </div>
 
+        {showSession && <SessionPanel />}
+
+        {showLibrary && <LibraryPanel onOpen={openFromLibrary} />}
+
+        {profileUrl && <ProfileBoardsPanel profileUrl={profileUrl} onScraped={showBatchResult} />}
+
+        {showRelated && urlKind === 'board' && <RelatedPinsPanel key={boardUrl} boardUrl={boardUrl} onLoad={showBatchResult} />}
+
         {/* Results */}
         {images.length > 0 && (
           <>
@@ -292,17 +702,50 @@ export default function Home() {
                   <option value="large">Large (736px)</option>
                   <option value="original">Original (Full Size)</option>
                 </select>
+
+                {images.some(img => img.video?.mp4) && (
+                  <select
+                    value={videoMode}
+                    onChange={(e) => setVideoMode(e.target.value as 'mp4' | 'poster')}
+                    className="px-3 py-2 border border-gray-400 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-black bg-white"
+                  >
+                    <option value="mp4">Videos as MP4</option>
+                    <option value="poster">Videos as poster image</option>
+                  </select>
+                )}
                 
+                <select
+                  value={concurrency}
+                  onChange={(e) => changeConcurrency(Number(e.target.value))}
+                  title="Files fetched at the same time"
+                  className="px-3 py-2 border border-gray-400 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-black bg-white"
+                >
+                  {[1, 2, 4, 6, 8, 12].map(n => (
+                    <option key={n} value={n}>{n} at a time</option>
+                  ))}
+                </select>
+
                 <button
                   onClick={downloadSelected}
-                  disabled={selectedImages.size === 0 || downloading}
+                  disabled={selectedImages.size === 0 || downloadActive}
                   className="px-6 py-2 bg-green-600 text-white font-medium rounded-lg hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
                 >
-                  {downloading ? '⏳ Creating ZIP...' : `📦 Download as ZIP (${selectedImages.size})`}
+                  {downloadActive ? '⏳ Downloading...' : `📦 Download as ZIP (${selectedImages.size})`}
                 </button>
               </div>
             </div>
 
+            {download && (
+              <DownloadPanel
+                download={download}
+                onRefresh={() => refreshDownload(download.id)}
+                onClose={() => {
+                  stopDownloadPolling();
+                  setDownload(null);
+                }}
+              />
+            )}
+
             {/* Image Grid */}
             <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4">
               {images.map((image, idx) => (
@@ -318,7 +761,7 @@ export default function Home() {
                 >
                   <div className="w-full h-64 bg-gray-100">
                     <img
-                      src={`/api/download?url=${encodeURIComponent(image.thumbnail)}`}
+                      src={`/api/download?url=${encodeURIComponent(image.mediaType === 'gif' ? image.original : image.thumbnail)}`}
                       alt={image.title || 'Pinterest Image'}
                       className="w-full h-full object-cover object-center"
                       loading="lazy"
@@ -361,6 +804,41 @@ export default function Home() {
                   
                   {/* Selection Indicator */}
                   <div className="absolute inset-0 pointer-events-none">
+                    {image.video && (
+                      <div className="absolute top-2 right-2 bg-black/70 text-white text-xs font-medium rounded px-2 py-1">
+                        ▶ Video
+                      </div>
+                    )}
+                    {image.mediaType === 'gif' && (
+                      <div className="absolute top-2 right-2 bg-black/70 text-white text-xs font-medium rounded px-2 py-1">
+                        GIF
+                      </div>
+                    )}
+                    {!image.video && image.children && image.children.length > 1 && (
+                      <div className="absolute top-2 right-2 bg-black/70 text-white text-xs font-medium rounded px-2 py-1">
+                        ▦ {image.children.length}
+                      </div>
+                    )}
+                    {pinDownloadStatus[image.id] && (
+                      <div
+                        title={pinDownloadStatus[image.id].reason}
+                        className={`absolute top-10 left-2 max-w-[85%] truncate text-xs font-medium rounded px-2 py-1 ${
+                          {
+                            queued: 'bg-gray-700/80 text-white',
+                            downloading: 'bg-blue-600/90 text-white',
+                            done: 'bg-green-600/90 text-white',
+                            failed: 'bg-red-600/90 text-white'
+                          }[pinDownloadStatus[image.id].status]
+                        }`}
+                      >
+                        {{
+                          queued: '⏳ Queued',
+                          downloading: '⬇ Downloading',
+                          done: '✓ Saved',
+                          failed: `✕ ${pinDownloadStatus[image.id].reason || 'Failed'}`
+                        }[pinDownloadStatus[image.id].status]}
+                      </div>
+                    )}
                     {selectedImages.has(image.id) && (
                       <div className="absolute top-2 left-2 bg-white/95 rounded-full p-1 shadow">
                         <svg className="w-5 h-5 text-blue-600" fill="currentColor" viewBox="0 0 20 20">
@@ -383,7 +861,7 @@ export default function Home() {
         )}
 
         {/* Image Preview Modal */}
-        {isPreviewOpen && previewIndex !== null && images[previewIndex] && (
+        {isPreviewOpen && previewIndex !== null && images[previewIndex] && previewMedia && (
           <div className="fixed inset-0 z-50 flex items-center justify-center">
             <div className="absolute inset-0 bg-black/70" onClick={closePreview} />
             <div className="relative z-10 max-w-5xl w-[90%] max-h-[90vh] bg-white rounded-lg shadow-xl overflow-hidden">
@@ -420,38 +898,51 @@ export default function Home() {
                   ‹
                 </button>
 
-                <img
-                  src={`/api/download?url=${encodeURIComponent(images[previewIndex].large || images[previewIndex].medium || images[previewIndex].original)}`}
-                  alt={images[previewIndex].title || 'Preview'}
-                  className="max-h-[calc(90vh-48px)] w-auto object-contain"
-                  onError={(e) => {
-                    const img = e.target as HTMLImageElement;
-                    const current = images[previewIndex!];
-                    const proxied = (u: string) => `/api/download?url=${encodeURIComponent(u)}`;
-
-                    // Try alternate sizes first
-                    const sizeCandidates = [current.medium, current.original].filter(Boolean) as string[];
-                    for (const u of sizeCandidates) {
-                      if (!img.src.includes(encodeURIComponent(u))) {
-                        img.src = proxied(u);
-                        return;
+                {previewMedia.video?.mp4 ? (
+                  <video
+                    key={`${images[previewIndex].id}-${previewChild}`}
+                    src={`/api/download?url=${encodeURIComponent(previewMedia.video.mp4)}`}
+                    poster={`/api/download?url=${encodeURIComponent(previewMedia.large || previewMedia.medium)}`}
+                    className="max-h-[calc(90vh-48px)] w-auto"
+                    controls
+                    playsInline
+                  />
+                ) : (
+                  <img
+                    src={`/api/download?url=${encodeURIComponent(
+                      previewPin?.mediaType === 'gif' ? previewMedia.original : previewMedia.large || previewMedia.medium || previewMedia.original
+                    )}`}
+                    alt={images[previewIndex].title || 'Preview'}
+                    className="max-h-[calc(90vh-48px)] w-auto object-contain"
+                    onError={(e) => {
+                      const img = e.target as HTMLImageElement;
+                      const current = previewMedia;
+                      const proxied = (u: string) => `/api/download?url=${encodeURIComponent(u)}`;
+
+                      // Try alternate sizes first
+                      const sizeCandidates = [current.medium, current.original].filter(Boolean) as string[];
+                      for (const u of sizeCandidates) {
+                        if (!img.src.includes(encodeURIComponent(u))) {
+                          img.src = proxied(u);
+                          return;
+                        }
                       }
-                    }
-
-                    // As a final fallback, try swapping extension to .jpg across sizes
-                    const toJpg = (u: string) => u.replace(/\.(png|webp|jpeg)$/i, '.jpg');
-                    const jpgCandidates = [current.original, current.large, current.medium, current.thumbnail]
-                      .filter(Boolean)
-                      .map(u => toJpg(u as string));
-
-                    for (const u of jpgCandidates) {
-                      if (!img.src.includes(encodeURIComponent(u))) {
-                        img.src = proxied(u);
-                        return;
+
+                      // As a final fallback, try swapping extension to .jpg across sizes
+                      const toJpg = (u: string) => u.replace(/\.(png|webp|jpeg)$/i, '.jpg');
+                      const jpgCandidates = [current.original, current.large, current.medium, current.thumbnail]
+                        .filter(Boolean)
+                        .map(u => toJpg(u as string));
+
+                      for (const u of jpgCandidates) {
+                        if (!img.src.includes(encodeURIComponent(u))) {
+                          img.src = proxied(u);
+                          return;
+                        }
                       }
-                    }
-                  }}
-                />
+                    }}
+                  />
+                )}
 
                 <button
                   className="absolute right-2 top-1/2 -translate-y-1/2 p-2 rounded-full bg-white/80 hover:bg-white text-gray-900"
@@ -462,9 +953,41 @@ export default function Home() {
                 </button>
               </div>
 
-              {images[previewIndex].title && (
+              {previewPin?.children && previewPin.children.length > 1 && (
+                <div className="flex gap-2 overflow-x-auto p-2 border-t border-gray-200 bg-gray-50">
+                  {previewPin.children.map((child, childIdx) => (
+                    <button
+                      key={childIdx}
+                      onClick={() => setPreviewChild(childIdx)}
+                      className={`flex-shrink-0 w-14 h-14 rounded overflow-hidden border-2 ${childIdx === previewChild ? 'border-blue-600' : 'border-transparent'}`}
+                      aria-label={`Page ${childIdx + 1}`}
+                    >
+                      <img
+                        src={`/api/download?url=${encodeURIComponent(child.thumbnail)}`}
+                        alt={child.title || `Page ${childIdx + 1}`}
+                        className="w-full h-full object-cover"
+                        loading="lazy"
+                      />
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              {(images[previewIndex].title || images[previewIndex].pinner || images[previewIndex].domain) && (
                 <div className="p-3 border-t border-gray-200 text-sm text-gray-700">
                   {images[previewIndex].title}
+                  <div className="mt-1 flex flex-wrap gap-x-3 text-xs text-gray-600">
+                    {images[previewIndex].pinner && <span>by {images[previewIndex].pinner}</span>}
+                    {images[previewIndex].sizes?.original && (
+                      <span>{images[previewIndex].sizes.original.width}×{images[previewIndex].sizes.original.height}</span>
+                    )}
+                    {images[previewIndex].saveCount !== undefined && <span>{images[previewIndex].saveCount} saves</span>}
+                    {images[previewIndex].link && (
+                      <a href={images[previewIndex].link} target="_blank" rel="noopener noreferrer" className="text-blue-600 underline">
+                        {images[previewIndex].domain || 'source'}
+                      </a>
+                    )}
+                  </div>
                 </div>
               )}
             </div>
@@ -475,7 +998,16 @@ export default function Home() {
         {loading && (
           <div className="flex flex-col items-center justify-center py-12">
             <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
-            <p className="mt-4 text-gray-800 font-medium">Scraping Pinterest board...</p>
+            <p className="mt-4 text-gray-800 font-medium">
+              {streamStatus?.pinCount
+                ? `Scraping Pinterest board... ${images.length} of ${streamStatus.pinCount} pins`
+                : images.length > 0
+                  ? `Scraping Pinterest board... ${images.length} pins`
+                  : 'Scraping Pinterest board...'}
+            </p>
+            {streamStatus?.strategy && (
+              <p className="mt-1 text-sm text-gray-600">Strategy: {streamStatus.strategy}</p>
+            )}
           </div>
         )}
         
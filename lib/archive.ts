@@ -0,0 +1,278 @@
+/**
+ * Server-side pin archives
+ * Fetches the selected pins' files with bounded concurrency and streams them into a ZIP as each one
+ * arrives, so large boards never sit in memory (server or browser). Files that can't be fetched are
+ * skipped and listed in download-report.txt at the end of the archive.
+ */
+
+import { ZipWriter } from './zip';
+import { createTransport, resolveImageUrl } from './transport';
+import type { Transport } from './transport';
+import { downloadFilesFor, extensionFor } from './media';
+import type { DownloadFile, DownloadSize, VideoMode } from './media';
+import type { PinterestImage } from './scraper';
+
+export interface ArchiveRequest {
+  pins: PinterestImage[];
+  size: DownloadSize;
+  videoMode: VideoMode;
+  sections?: Record<string, string>; // pin id → section title, mirrored as subfolders
+}
+
+export interface ArchiveOptions {
+  concurrency?: number;
+  transport?: Transport; // its image base URL, and its fetch unless `fetch` is given
+  fetch?: typeof fetch;
+  signal?: AbortSignal;
+}
+
+export interface ArchiveFailure {
+  file: DownloadFile;
+  reason: string;
+}
+
+export const ARCHIVE_ROOT = 'pinterest-images';
+export const ARCHIVE_REPORT = 'download-report.txt';
+export const DEFAULT_ARCHIVE_CONCURRENCY = 6;
+export const MAX_ARCHIVE_CONCURRENCY = 12;
+// Upper bound on pins per archive; bigger selections should be split
+export const MAX_ARCHIVE_PINS = 5000;
+const MAX_ATTEMPTS = 3;
+
+const UA_DESKTOP =
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/123.0 Safari/537.36';
+const UA_MOBILE =
+  'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1';
+
+// An archive request body as posted; every field is checked before use
+interface RawArchiveRequest {
+  pins?: unknown;
+  size?: unknown;
+  videoMode?: unknown;
+  sections?: unknown;
+}
+
+/**
+ * Validate an archive request body ({ pins, size, videoMode, sections? }); returns an error message
+ * when it can't be used
+ */
+export function parseArchiveRequest(body: unknown): ArchiveRequest | { error: string } {
+  const raw: RawArchiveRequest = body && typeof body === 'object' ? body : {};
+  const pins: PinterestImage[] = Array.isArray(raw.pins)
+    ? raw.pins.filter((pin: PinterestImage) => pin && typeof pin.id === 'string')
+    : [];
+  if (pins.length === 0) return { error: 'No pins to download' };
+  if (pins.length > MAX_ARCHIVE_PINS) {
+    return { error: `Too many pins for one archive (${pins.length}); the limit is ${MAX_ARCHIVE_PINS}` };
+  }
+
+  return {
+    pins,
+    size: raw.size === 'medium' || raw.size === 'original' ? raw.size : 'large',
+    videoMode: raw.videoMode === 'poster' ? 'poster' : 'mp4',
+    sections: raw.sections && typeof raw.sections === 'object' ? raw.sections as Record<string, string> : undefined
+  };
+}
+
+export function clampConcurrency(concurrency?: number): number {
+  const value = Math.floor(Number(concurrency) || DEFAULT_ARCHIVE_CONCURRENCY);
+  return Math.min(Math.max(1, value), MAX_ARCHIVE_CONCURRENCY);
+}
+
+/**
+ * Every file of a request, in archive order
+ */
+export function archiveFiles(request: ArchiveRequest): DownloadFile[] {
+  return request.pins.flatMap((pin, index) =>
+    downloadFilesFor(pin, index, request.size, request.videoMode, request.sections?.[pin.id])
+  );
+}
+
+/**
+ * Fetch an image or video from the CDN with the headers it expects; a 403/429 is retried once
+ * with a mobile User-Agent
+ */
+export async function fetchMedia(
+  url: string,
+  options: { transport?: Transport, fetch?: typeof fetch, signal?: AbortSignal } = {}
+): Promise<Response> {
+  const transport = options.transport ?? createTransport();
+  const targetUrl = resolveImageUrl(transport, url);
+  const fetchImpl = options.fetch ?? transport.fetch;
+
+  const attemptFetch = (ua: string) => fetchImpl(targetUrl, {
+    headers: {
+      'User-Agent': ua,
+      'Referer': 'https://www.pinterest.com/',
+      'Accept': 'image/avif,image/webp,image/apng,image/*,*/*;q=0.8',
+      'Accept-Language': 'en-US,en;q=0.9',
+      'Cache-Control': 'no-cache',
+      'Pragma': 'no-cache',
+      'Connection': 'keep-alive'
+    },
+    signal: options.signal
+  });
+
+  // Try desktop-like headers first
+  const response = await attemptFetch(UA_DESKTOP);
+  if (response.ok || (response.status !== 403 && response.status !== 429)) return response;
+
+  await new Promise((r) => setTimeout(r, 300 + Math.floor(Math.random() * 500)));
+  return attemptFetch(UA_MOBILE);
+}
+
+/**
+ * Fetch one archive file, retrying with backoff; missing files (404/410) are not retried
+ */
+export async function fetchArchiveFile(
+  file: DownloadFile,
+  options: ArchiveOptions
+): Promise<{ data: Uint8Array, contentType: string }> {
+  if (!file.url || !/^https?:\/\//i.test(file.url)) throw new Error('No downloadable URL for this size');
+
+  let lastError: unknown;
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    try {
+      const response = await fetchMedia(file.url, options);
+      if (!response.ok) {
+        await response.body?.cancel().catch(() => {});
+        const error = new Error(`HTTP ${response.status} ${response.statusText}`.trim());
+        if (response.status === 404 || response.status === 410) {
+          lastError = error;
+          break;
+        }
+        throw error;
+      }
+
+      const contentType = response.headers.get('content-type') || '';
+      const data = new Uint8Array(await response.arrayBuffer());
+      // Verify we got an image (or a video for MP4 downloads)
+      const expectedType = file.asVideo ? /^(video\/|application\/octet-stream)/ : /^image\//;
+      if (data.length === 0 || !expectedType.test(contentType)) {
+        throw new Error(`Invalid media data received (${contentType || 'no content type'}, ${data.length} bytes)`);
+      }
+      return { data, contentType };
+    } catch (error) {
+      if (options.signal?.aborted) throw error;
+      lastError = error;
+      if (attempt < MAX_ATTEMPTS) await new Promise(resolve => setTimeout(resolve, attempt * 1000));
+    }
+  }
+  throw lastError;
+}
+
+/**
+ * Path of a fetched file inside the archive
+ */
+export function archiveEntryName(file: DownloadFile, contentType: string): string {
+  const ext = extensionFor(contentType, file.url, file.asVideo ? 'mp4' : 'jpg');
+  return [ARCHIVE_ROOT, file.folder, `${file.basename}.${ext}`].filter(Boolean).join('/');
+}
+
+export function archiveReport(
+  request: Pick<ArchiveRequest, 'size' | 'videoMode'> & { pinCount: number },
+  saved: number,
+  failures: ArchiveFailure[]
+): string {
+  const lines = [
+    'Pinterest download report',
+    `Generated: ${new Date().toISOString()}`,
+    `Size: ${request.size}, videos: ${request.videoMode === 'mp4' ? 'MP4' : 'poster image'}`,
+    `Pins: ${request.pinCount}`,
+    `Files: ${saved} saved, ${failures.length} failed`
+  ];
+  if (failures.length > 0) {
+    lines.push('', 'Failed files (pin id, file, reason, URL):');
+    for (const { file, reason } of failures) {
+      lines.push(`${file.pinId}\t${file.folder ? `${file.folder}/` : ''}${file.basename}\t${reason}\t${file.url ?? '-'}`);
+    }
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Write the archive for a request to a ZIP writer; resolves once the central directory is written
+ */
+export async function writePinArchive(
+  zip: ZipWriter,
+  request: ArchiveRequest,
+  options: ArchiveOptions = {}
+): Promise<{ saved: number, failures: ArchiveFailure[] }> {
+  const files = archiveFiles(request);
+  const concurrency = clampConcurrency(options.concurrency);
+  const failures: ArchiveFailure[] = [];
+  let saved = 0;
+  let next = 0;
+  // Entries go into the ZIP one at a time; workers keep fetching while one writes
+  let writing: Promise<unknown> = Promise.resolve();
+
+  const worker = async () => {
+    while (next < files.length) {
+      options.signal?.throwIfAborted();
+      const file = files[next++];
+
+      let result: { data: Uint8Array, contentType: string };
+      try {
+        result = await fetchArchiveFile(file, options);
+      } catch (error) {
+        if (options.signal?.aborted) throw error;
+        const reason = error instanceof Error ? error.message : String(error);
+        console.warn(`⚠️ Archive: skipping ${file.basename} (${reason})`);
+        failures.push({ file, reason });
+        continue;
+      }
+
+      const name = archiveEntryName(file, result.contentType);
+      const write = writing.then(() => zip.addFile(name, result.data));
+      writing = write.catch(() => {});
+      await write;
+      saved++;
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, files.length) }, worker));
+
+  await zip.addFile(ARCHIVE_REPORT, new TextEncoder().encode(archiveReport({ ...request, pinCount: request.pins.length }, saved, failures)));
+  await zip.finish();
+  return { saved, failures };
+}
+
+/**
+ * Stream the archive for a request; the stream applies backpressure, so files are only fetched
+ * about as fast as the client reads them
+ */
+export function streamPinArchive(request: ArchiveRequest, options: ArchiveOptions = {}): ReadableStream<Uint8Array> {
+  const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+  const writer = writable.getWriter();
+  // Stops in-flight fetches when the client goes away or the archive fails
+  const controller = new AbortController();
+  const signal = options.signal ? AbortSignal.any([options.signal, controller.signal]) : controller.signal;
+  // The writable side errors as soon as the reader cancels
+  let cancelled = false;
+  writer.closed.catch(() => {
+    cancelled = true;
+  });
+
+  const zip = new ZipWriter(async chunk => {
+    await writer.ready;
+    await writer.write(chunk);
+  });
+
+  console.log(`📦 Streaming ZIP of ${request.pins.length} pins (${request.size})`);
+  writePinArchive(zip, request, { ...options, signal })
+    .then(async ({ saved, failures }) => {
+      await writer.close();
+      console.log(`📦 ZIP finished: ${saved} files saved, ${failures.length} failed, ${zip.size} bytes`);
+    })
+    .catch(async error => {
+      controller.abort(error);
+      await writer.abort(error).catch(() => {});
+      if (cancelled || options.signal?.aborted) {
+        console.log(`📦 ZIP download cancelled by the client after ${zip.fileCount} files`);
+      } else {
+        console.error('ZIP stream aborted:', error instanceof Error ? error.message : error);
+      }
+    });
+
+  return readable;
+}
@@ -0,0 +1,211 @@
+/**
+ * Record/replay cassettes for Pinterest traffic
+ * In record mode every HTML page and /resource/* JSON response a scrape receives (through the
+ * transport or Playwright's network events), plus the scripts the browser runs, is appended to
+ * .data/cassettes/<name>.jsonl (a header line, then one entry per line). In replay mode the same
+ * requests are answered from the cassette, so a scrape re-runs offline and deterministically; each
+ * transport keeps its own replay cursor, so every scrape replays from the start. Select one with
+ * createTransport({ cassette }) or, for the routes, SCRAPER_CASSETTE=<name> and
+ * SCRAPER_CASSETTE_MODE=record|replay.
+ */
+
+import path from 'path';
+import { promises as fs } from 'fs';
+import { ensureDataDir } from './data-dir';
+
+export type CassetteMode = 'record' | 'replay';
+
+export interface CassetteEntry {
+  key: string; // path + normalized query, host-independent
+  url: string; // URL as requested
+  finalUrl?: string; // URL after redirects (Response.url), which pin.it short links are resolved from
+  method: string;
+  status: number;
+  contentType: string;
+  body: string;
+  source: 'fetch' | 'playwright';
+  recordedAt: string;
+}
+
+export interface CassetteFile {
+  name: string;
+  createdAt: string;
+  entries: CassetteEntry[];
+}
+
+// Replay position per request key: how many of its recorded responses have been served
+export type ReplayCursor = Map<string, number>;
+
+// Query parameters that change on every request (cache busters) and don't affect the response
+const VOLATILE_PARAMS = new Set(['_']);
+
+/**
+ * Host-independent request key: pathname plus sorted query without cache busters
+ */
+export function cassetteKey(method: string, url: string): string {
+  try {
+    const parsed = new URL(url, 'https://www.pinterest.com');
+    const params = Array.from(parsed.searchParams.entries())
+      .filter(([name]) => !VOLATILE_PARAMS.has(name))
+      .sort(([a], [b]) => a.localeCompare(b));
+    const query = new URLSearchParams(params).toString();
+    const pathname = parsed.pathname.endsWith('/') ? parsed.pathname : `${parsed.pathname}/`;
+    return `${method.toUpperCase()} ${pathname}${query ? `?${query}` : ''}`;
+  } catch {
+    return `${method.toUpperCase()} ${url}`;
+  }
+}
+
+/**
+ * Whether a response belongs on a cassette: HTML pages, resource JSON and scripts from Pinterest
+ * (or from the transport's stand-in origin), and the scripts on Pinterest's static CDN
+ */
+export function isRecordable(url: string, contentType: string, baseUrl?: string): boolean {
+  try {
+    const { host, hostname, pathname } = new URL(url);
+    const isScript = contentType.includes('javascript');
+    if (hostname === 's.pinimg.com') return isScript;
+    const isPinterest = hostname === 'pinterest.com' || hostname.endsWith('.pinterest.com');
+    if (!isPinterest && (!baseUrl || new URL(baseUrl).host !== host)) return false;
+    return pathname.startsWith('/resource/') || contentType.includes('text/html') || contentType.includes('json') || isScript;
+  } catch {
+    return false;
+  }
+}
+
+function isValidName(name: string): boolean {
+  return /^[\w.-]{1,100}$/.test(name) && !name.startsWith('.');
+}
+
+async function cassetteFile(name: string): Promise<string> {
+  return path.join(await ensureDataDir('cassettes'), `${name}.jsonl`);
+}
+
+/**
+ * An open cassette; entries for the same key replay in recorded order (the last one repeats)
+ */
+export class Cassette {
+  private file?: CassetteFile;
+  private loading?: Promise<CassetteFile>;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(public readonly name: string, public readonly mode: CassetteMode) {
+    if (!isValidName(name)) throw new Error(`Invalid cassette name: ${name}`);
+  }
+
+  private load(): Promise<CassetteFile> {
+    if (this.file) return Promise.resolve(this.file);
+    this.loading ??= (async () => {
+      const file = await cassetteFile(this.name);
+      if (this.mode === 'record') {
+        // Recording always starts a fresh cassette
+        const header = { name: this.name, createdAt: new Date().toISOString() };
+        this.file = { ...header, entries: [] };
+        this.writing = this.writing.then(() => fs.writeFile(file, `${JSON.stringify(header)}\n`));
+      } else {
+        try {
+          const [header, ...entries] = (await fs.readFile(file, 'utf8')).split('\n').filter(line => line.trim());
+          this.file = {
+            ...JSON.parse(header) as Omit<CassetteFile, 'entries'>,
+            entries: entries.map(line => JSON.parse(line) as CassetteEntry)
+          };
+        } catch {
+          throw new Error(`Cassette "${this.name}" not found`);
+        }
+      }
+      return this.file;
+    })();
+    return this.loading;
+  }
+
+  async record(entry: Omit<CassetteEntry, 'key' | 'recordedAt'>): Promise<void> {
+    if (this.mode !== 'record') return;
+    const cassette = await this.load();
+    const recorded: CassetteEntry = { ...entry, key: cassetteKey(entry.method, entry.url), recordedAt: new Date().toISOString() };
+    cassette.entries.push(recorded);
+    // Append one line per response; serialized so lines never interleave
+    const file = await cassetteFile(this.name);
+    this.writing = this.writing.then(() => fs.appendFile(file, `${JSON.stringify(recorded)}\n`));
+    await this.writing;
+  }
+
+  /**
+   * Next recorded response for a request, or undefined when the cassette never saw it
+   */
+  async lookup(method: string, url: string, cursor: ReplayCursor): Promise<CassetteEntry | undefined> {
+    const cassette = await this.load();
+    const key = cassetteKey(method, url);
+    const matches = cassette.entries.filter(entry => entry.key === key);
+    if (matches.length === 0) {
+      console.log(`📼 Cassette "${this.name}" has no response for ${key}`);
+      return undefined;
+    }
+    const index = cursor.get(key) ?? 0;
+    cursor.set(key, index + 1);
+    return matches[Math.min(index, matches.length - 1)];
+  }
+}
+
+// One open cassette per name and mode, shared across requests
+const globalForCassettes = globalThis as unknown as { __cassettes?: Map<string, Cassette> };
+const cassettes = globalForCassettes.__cassettes ?? (globalForCassettes.__cassettes = new Map<string, Cassette>());
+
+export function openCassette(name: string, mode: CassetteMode): Cassette {
+  const id = `${mode}:${name}`;
+  let cassette = cassettes.get(id);
+  if (!cassette) {
+    cassette = new Cassette(name, mode);
+    cassettes.set(id, cassette);
+  }
+  return cassette;
+}
+
+/**
+ * Cassette selected by SCRAPER_CASSETTE / SCRAPER_CASSETTE_MODE, if any
+ */
+export function cassetteFromEnv(): Cassette | undefined {
+  const name = process.env.SCRAPER_CASSETTE;
+  if (!name) return undefined;
+  const mode = process.env.SCRAPER_CASSETTE_MODE === 'record' ? 'record' : 'replay';
+  return openCassette(name, mode);
+}
+
+/**
+ * A response built from a body reports an empty url; give it the one it was served from
+ */
+function withUrl(response: Response, url: string): Response {
+  Object.defineProperty(response, 'url', { value: url });
+  return response;
+}
+
+/**
+ * Wrap a fetch implementation so it records to, or replays from (at `cursor`), a cassette
+ */
+export function cassetteFetch(cassette: Cassette, inner: typeof fetch, cursor: ReplayCursor, baseUrl?: string): typeof fetch {
+  return async (input, init) => {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.toString() : input.url;
+    const method = init?.method ?? 'GET';
+
+    if (cassette.mode === 'replay') {
+      init?.signal?.throwIfAborted();
+      const entry = await cassette.lookup(method, url, cursor);
+      if (!entry) {
+        return new Response(`Not on cassette "${cassette.name}"`, { status: 404, statusText: 'Not Recorded' });
+      }
+      const replayed = new Response(entry.body, { status: entry.status, headers: { 'content-type': entry.contentType } });
+      return withUrl(replayed, entry.finalUrl ?? entry.url);
+    }
+
+    const response = await inner(input, init);
+    const contentType = response.headers.get('content-type') || '';
+    // A short link is off Pinterest, but the page it redirects to is recordable
+    const finalUrl = response.url || url;
+    if (!isRecordable(finalUrl, contentType, baseUrl)) return response;
+
+    // Reading the body consumes it, so hand the caller a copy
+    const body = await response.text();
+    await cassette.record({ url, finalUrl, method, status: response.status, contentType, body, source: 'fetch' });
+    const copy = new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers });
+    return withUrl(copy, finalUrl);
+  };
+}
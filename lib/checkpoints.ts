@@ -0,0 +1,79 @@
+/**
+ * Persisted pagination checkpoints for resumable board scrapes
+ * One checkpoint per board (keyed by username/slug); clients refer to it by an opaque resume token
+ */
+
+import { randomUUID } from 'crypto';
+import path from 'path';
+import { promises as fs } from 'fs';
+import { ensureDataDir } from './data-dir';
+import { parseBoardUrl } from './scraper';
+import type { ScrapeCheckpoint } from './scraper';
+
+interface StoredCheckpoint {
+  token: string;
+  boardKey: string;
+  checkpoint: ScrapeCheckpoint;
+}
+
+/**
+ * Stable per-board key so a new checkpoint replaces the previous one for the same board
+ */
+export function boardKeyFor(boardUrl: string): string {
+  const parts = parseBoardUrl(boardUrl);
+  return parts ? `${parts.username}/${parts.slug}`.toLowerCase() : boardUrl;
+}
+
+function isValidToken(token: string): boolean {
+  return /^[0-9a-f-]{36}$/i.test(token);
+}
+
+async function checkpointFile(token: string): Promise<string> {
+  return path.join(await ensureDataDir('checkpoints'), `${token}.json`);
+}
+
+async function readStored(file: string): Promise<StoredCheckpoint | null> {
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf8')) as StoredCheckpoint;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Save a checkpoint and return its resume token (older checkpoints for the board are dropped)
+ */
+export async function saveCheckpoint(checkpoint: ScrapeCheckpoint): Promise<string> {
+  const boardKey = boardKeyFor(checkpoint.boardUrl);
+  await deleteCheckpointsForBoard(boardKey);
+
+  const token = randomUUID();
+  const stored: StoredCheckpoint = { token, boardKey, checkpoint };
+  await fs.writeFile(await checkpointFile(token), JSON.stringify(stored));
+  console.log(`💾 Saved checkpoint for ${boardKey}: ${checkpoint.images.length} pins, resume token ${token}`);
+  return token;
+}
+
+export async function loadCheckpoint(token: string): Promise<ScrapeCheckpoint | null> {
+  if (!isValidToken(token)) return null;
+  const stored = await readStored(await checkpointFile(token));
+  return stored?.checkpoint ?? null;
+}
+
+export async function deleteCheckpoint(token: string): Promise<void> {
+  if (!isValidToken(token)) return;
+  await fs.rm(await checkpointFile(token), { force: true });
+}
+
+async function deleteCheckpointsForBoard(boardKey: string): Promise<void> {
+  const dir = await ensureDataDir('checkpoints');
+  const files = await fs.readdir(dir);
+  for (const name of files) {
+    if (!name.endsWith('.json')) continue;
+    const file = path.join(dir, name);
+    const stored = await readStored(file);
+    if (stored?.boardKey === boardKey) {
+      await fs.rm(file, { force: true });
+    }
+  }
+}
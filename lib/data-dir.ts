@@ -0,0 +1,20 @@
+/**
+ * Local data directory for server-side state (checkpoints, library, etc.)
+ * Defaults to .data/ in the project root; override with SCRAPER_DATA_DIR
+ */
+
+import path from 'path';
+import { promises as fs } from 'fs';
+
+export function getDataDir(): string {
+  return process.env.SCRAPER_DATA_DIR || path.join(process.cwd(), '.data');
+}
+
+/**
+ * Resolve (and create) a folder inside the data directory
+ */
+export async function ensureDataDir(...segments: string[]): Promise<string> {
+  const dir = path.join(getDataDir(), ...segments);
+  await fs.mkdir(dir, { recursive: true });
+  return dir;
+}
@@ -0,0 +1,399 @@
+/**
+ * Extractor schema-drift detection
+ * Each extraction reports which JSON paths produced its pins and board info, which expected
+ * containers were missing and where pin-like objects turned up at paths the extractors don't know.
+ * Scrapers attach the result to their response as `diagnostics` and fold it into an aggregated
+ * report (.data/diagnostics/report.json, served by /api/diagnostics), so a Pinterest payload change
+ * shows up as data instead of as silently thinner scrapes.
+ */
+
+import path from 'path';
+import { promises as fs } from 'fs';
+import { ensureDataDir } from './data-dir';
+import type { BoardInfo, PinterestImage } from './scraper';
+
+// Which extractor stage produced the pins, from most to least structured
+export type PinSource =
+  | 'board-pins' // extractBoardPins: known feed containers, then a board-filtered recursive scan
+  | 'structure-scan' // recursive scan of the embedded JSON
+  | 'data-regex' // regex over the serialized JSON (extractAllPinsFromData)
+  | 'initial-state' // legacy __INITIAL_STATE__ script
+  | 'html-regex' // image URLs scraped from the markup
+  | 'resource' // internal API pages only
+  | 'none';
+
+// Stable finding codes; the aggregated report counts findings per code
+export type DiagnosticCode =
+  | 'no-embedded-json' // no __PWS_DATA__ or __INITIAL_STATE__; pins came from image URLs in the markup
+  | 'no-pin-container' // none of KNOWN_PIN_PATHS exists
+  | 'no-board-container' // none of KNOWN_BOARD_PATHS exists
+  | 'unknown-pin-paths' // pin-like objects outside the known containers (paths in unknownPinPaths)
+  | 'regex-fallback' // pins came from a regex fallback (detail: the pin source)
+  | 'no-board-info'
+  | 'board-info-guessed' // board info read from a pin_count anywhere in the payload
+  | 'pins-not-extracted' // pin-like objects (count) but no pins extracted
+  | 'no-results-array' // an internal API page without results (detail: the resource)
+  | 'imageless-pin-entries' // feed entries with an id but no images map (detail: the resource)
+  | 'nested-pins'; // pins taken from inside other pins: carousel slots or story pages (informational)
+
+export interface DiagnosticFinding {
+  code: DiagnosticCode;
+  count?: number; // pins, entries or objects concerned
+  detail?: string; // the resource or pin source concerned
+}
+
+export interface ExtractionDiagnostics {
+  pinSource: PinSource;
+  pinPaths: Record<string, number>; // generalized JSON path → pins extracted from it
+  boardInfoPath?: string; // where the board info came from ("pin_count-fallback" when guessed)
+  missing: string[]; // expected containers absent from the payload
+  unknownPinPaths: Record<string, number>; // pin-like objects at paths the extractors don't know
+  drift: boolean; // true when there are warnings
+  warnings: DiagnosticFinding[]; // signs that the payload no longer matches the extractors
+  notes: DiagnosticFinding[]; // informational; healthy payloads have them too
+}
+
+// The parts of a pin or board object read here
+interface RawNode {
+  id?: unknown;
+  board_id?: unknown;
+  images?: unknown;
+  type?: string;
+}
+
+interface RawResourcePayload {
+  resource_response?: { data?: unknown[] | { results?: unknown } };
+}
+
+// Containers the extractors look for; paths are generalized (map keys → *, array items → [])
+const KNOWN_PIN_PATHS = [
+  'props.initialReduxState.pins.*',
+  'props.initialReduxState.feeds.BoardFeed[]',
+  'props.initialReduxState.feeds.BoardFeed.results[]',
+  'props.initialReduxState.feeds.BoardFeed.pins[]',
+  'props.pageProps.initialPins[]',
+  'resourceResponses.BoardFeedResource.response.data[]',
+  'boardFeedData.data[]'
+];
+const KNOWN_BOARD_PATHS = [
+  'props.initialReduxState.boards.*',
+  'props.pageProps.boardData',
+  'resourceResponses.BoardResource.response',
+  'boardData'
+];
+// Recommendations and ads the extractors skip on purpose
+const SKIPPED_KEYS = new Set(['related', 'relatedPins', 'moreIdeas', 'stories', 'suggestions', 'ads']);
+const MAX_DEPTH = 12;
+
+/**
+ * Path segment for an object key: ids and other map keys collapse to *
+ */
+function segment(key: string): string {
+  return /^\d+$/.test(key) || /^[0-9a-f]{16,}$/i.test(key) ? '*' : key;
+}
+
+function isPinLike(obj: unknown): obj is RawNode {
+  if (!obj || typeof obj !== 'object' || Array.isArray(obj)) return false;
+  const node = obj as RawNode;
+  return !!node.id && !!node.images && typeof node.images === 'object';
+}
+
+/**
+ * Generalized path of every pin-like object; a pin's own children (carousel slots, story pages) are not visited
+ */
+function findPinLikeObjects(obj: unknown, prefix: string, found: { path: string, id: string }[], depth: number = 0): void {
+  if (!obj || typeof obj !== 'object' || depth > MAX_DEPTH) return;
+  if (isPinLike(obj)) {
+    found.push({ path: prefix, id: String(obj.id) });
+    return;
+  }
+  if (Array.isArray(obj)) {
+    for (const item of obj) findPinLikeObjects(item, `${prefix}[]`, found, depth + 1);
+    return;
+  }
+  for (const [key, value] of Object.entries(obj)) {
+    if (SKIPPED_KEYS.has(key)) continue;
+    findPinLikeObjects(value, prefix ? `${prefix}.${segment(key)}` : segment(key), found, depth + 1);
+  }
+}
+
+/**
+ * Generalized path of the object the board info was read from
+ */
+function findBoardPath(obj: unknown, boardId: string, prefix: string = '', depth: number = 0): string | undefined {
+  if (!obj || typeof obj !== 'object' || depth > MAX_DEPTH) return undefined;
+  const node = obj as RawNode;
+  if (!Array.isArray(obj) && String(node.id ?? node.board_id) === boardId && ('pin_count' in obj || 'board_pin_count' in obj)) {
+    return prefix;
+  }
+  for (const [key, value] of Object.entries(obj)) {
+    const childPrefix = Array.isArray(obj) ? `${prefix}[]` : prefix ? `${prefix}.${segment(key)}` : segment(key);
+    const found = findBoardPath(value, boardId, childPrefix, depth + 1);
+    if (found !== undefined) return found;
+  }
+  return undefined;
+}
+
+function containerOf(pattern: string): string {
+  return pattern.replace(/(\.\*|\[\])$/, '');
+}
+
+function finish(diagnostics: Omit<ExtractionDiagnostics, 'drift' | 'notes'> & { notes?: DiagnosticFinding[] }): ExtractionDiagnostics {
+  return { ...diagnostics, notes: diagnostics.notes ?? [], drift: diagnostics.warnings.length > 0 };
+}
+
+/**
+ * One line for the log, e.g. "imageless-pin-entries: BoardFeedResource (3)"
+ */
+function describeFinding(finding: DiagnosticFinding): string {
+  const detail = finding.detail ? `: ${finding.detail}` : '';
+  return `${finding.code}${detail}${finding.count !== undefined ? ` (${finding.count})` : ''}`;
+}
+
+/**
+ * Diagnose one extraction from a page's embedded JSON (undefined when the page had none)
+ */
+export function diagnoseExtraction(
+  data: unknown,
+  pinSource: PinSource,
+  images: PinterestImage[],
+  boardInfo?: BoardInfo
+): ExtractionDiagnostics {
+  const warnings: DiagnosticFinding[] = [];
+
+  if (data === undefined) {
+    if (images.length > 0) warnings.push({ code: 'no-embedded-json', count: images.length });
+    return finish({ pinSource, pinPaths: {}, missing: ['embedded-json'], unknownPinPaths: {}, warnings });
+  }
+
+  const extractedIds = new Set(images.map(image => image.id));
+  const found: { path: string, id: string }[] = [];
+  findPinLikeObjects(data, '', found);
+
+  const pinPaths: Record<string, number> = {};
+  const unknownPinPaths: Record<string, number> = {};
+  for (const { path: pinPath, id } of found) {
+    if (extractedIds.has(id)) pinPaths[pinPath] = (pinPaths[pinPath] ?? 0) + 1;
+    if (!KNOWN_PIN_PATHS.includes(pinPath)) unknownPinPaths[pinPath] = (unknownPinPaths[pinPath] ?? 0) + 1;
+  }
+
+  const missing: string[] = [];
+  const hasContainer = (patterns: string[]) => patterns.some(pattern => {
+    let current: unknown = data;
+    for (const key of containerOf(pattern).split('.')) {
+      current = current && typeof current === 'object' ? (current as Record<string, unknown>)[key] : undefined;
+    }
+    return current !== undefined;
+  });
+  if (!hasContainer(KNOWN_PIN_PATHS)) missing.push('pins');
+  if (!hasContainer(KNOWN_BOARD_PATHS)) missing.push('board');
+
+  let boardInfoPath: string | undefined;
+  if (boardInfo) {
+    boardInfoPath = boardInfo.name === 'moodboard' || /_\d{13}$/.test(boardInfo.id)
+      ? 'pin_count-fallback'
+      : findBoardPath(data, boardInfo.id) ?? 'unknown';
+  }
+
+  if (missing.includes('pins')) warnings.push({ code: 'no-pin-container' });
+  if (missing.includes('board')) warnings.push({ code: 'no-board-container' });
+  const unknownCount = Object.values(unknownPinPaths).reduce((sum, count) => sum + count, 0);
+  if (unknownCount > 0) warnings.push({ code: 'unknown-pin-paths', count: unknownCount });
+  if (pinSource === 'data-regex' || pinSource === 'html-regex') warnings.push({ code: 'regex-fallback', detail: pinSource });
+  if (!boardInfo) warnings.push({ code: 'no-board-info' });
+  else if (boardInfoPath === 'pin_count-fallback') warnings.push({ code: 'board-info-guessed' });
+  if (found.length > 0 && images.length === 0) warnings.push({ code: 'pins-not-extracted', count: found.length });
+  // Pins that were not top-level pin objects came from inside another pin; carousel boards always have them
+  const foundIds = new Set(found.map(entry => entry.id));
+  const nested = images.filter(image => !foundIds.has(image.id)).length;
+  const notes: DiagnosticFinding[] = nested > 0 && found.length > 0 ? [{ code: 'nested-pins', count: nested }] : [];
+
+  return finish({ pinSource, pinPaths, boardInfoPath, missing, unknownPinPaths, warnings, notes });
+}
+
+/**
+ * Diagnose one internal API page (BoardFeedResource and friends): where its pins were and what was skipped
+ */
+export function diagnoseResourcePage(resource: string, payload: unknown, pinCount: number): ExtractionDiagnostics {
+  const data = (payload as RawResourcePayload | null | undefined)?.resource_response?.data;
+  const results = data && !Array.isArray(data) ? data.results : undefined;
+  const entries = (Array.isArray(results) ? results : Array.isArray(data) ? data : undefined) as (RawNode | null)[] | undefined;
+  const feedPath = Array.isArray(results) ? 'resource_response.data.results[]' : 'resource_response.data[]';
+  const warnings: DiagnosticFinding[] = [];
+  const unknownPinPaths: Record<string, number> = {};
+
+  if (!entries) {
+    warnings.push({ code: 'no-results-array', detail: resource });
+    return finish({ pinSource: 'resource', pinPaths: {}, missing: [`${resource}:results`], unknownPinPaths, warnings });
+  }
+
+  // Entries with an id but no images map may be pins whose image field moved
+  const imageless = entries.filter(entry =>
+    entry?.id && !entry.images && (entry.type === 'pin' || entry.type === undefined)).length;
+  if (imageless > 0) {
+    unknownPinPaths[`${resource}:${feedPath} (no images)`] = imageless;
+    warnings.push({ code: 'imageless-pin-entries', count: imageless, detail: resource });
+  }
+
+  return finish({
+    pinSource: 'resource',
+    pinPaths: pinCount > 0 ? { [`${resource}:${feedPath}`]: pinCount } : {},
+    missing: [],
+    unknownPinPaths,
+    warnings
+  });
+}
+
+/**
+ * Combine diagnostics from several pages or strategies; the first (HTML) extraction sets the pin source
+ */
+export function mergeDiagnostics(list: (ExtractionDiagnostics | undefined)[]): ExtractionDiagnostics | undefined {
+  const present = list.filter((entry): entry is ExtractionDiagnostics => !!entry);
+  if (present.length === 0) return undefined;
+
+  const add = (target: Record<string, number>, source: Record<string, number>) => {
+    for (const [key, count] of Object.entries(source)) target[key] = (target[key] ?? 0) + count;
+  };
+  // Same code and detail on several pages: one finding with the counts summed
+  const combine = (findings: DiagnosticFinding[]) => {
+    const combined = new Map<string, DiagnosticFinding>();
+    for (const finding of findings) {
+      const key = `${finding.code}\u0000${finding.detail ?? ''}`;
+      const existing = combined.get(key);
+      if (!existing) combined.set(key, { ...finding });
+      else if (finding.count !== undefined) existing.count = (existing.count ?? 0) + finding.count;
+    }
+    return Array.from(combined.values());
+  };
+  const pinPaths: Record<string, number> = {};
+  const unknownPinPaths: Record<string, number> = {};
+  for (const entry of present) {
+    add(pinPaths, entry.pinPaths);
+    add(unknownPinPaths, entry.unknownPinPaths);
+  }
+
+  return finish({
+    pinSource: present.find(entry => entry.pinSource !== 'resource' && entry.pinSource !== 'none')?.pinSource ?? present[0].pinSource,
+    pinPaths,
+    boardInfoPath: present.find(entry => entry.boardInfoPath)?.boardInfoPath,
+    missing: Array.from(new Set(present.flatMap(entry => entry.missing))),
+    unknownPinPaths,
+    warnings: combine(present.flatMap(entry => entry.warnings)),
+    notes: combine(present.flatMap(entry => entry.notes))
+  });
+}
+
+export interface DriftEvent {
+  at: string;
+  boardUrl: string;
+  scraper: string;
+  pinSource: PinSource;
+  warnings: DiagnosticFinding[];
+}
+
+export interface DriftReport {
+  since: string;
+  scrapes: number;
+  driftScrapes: number;
+  lastHealthyAt?: string;
+  lastDriftAt?: string;
+  pinSources: Record<string, number>;
+  pinPaths: Record<string, number>;
+  boardInfoPaths: Record<string, number>;
+  unknownPinPaths: Record<string, number>;
+  missing: Record<string, number>;
+  warnings: Record<string, number>; // scrapes per warning code
+  notes: Record<string, number>; // scrapes per note code
+  recent: DriftEvent[]; // newest first
+}
+
+const MAX_RECENT_EVENTS = 50;
+
+function emptyReport(): DriftReport {
+  return {
+    since: new Date().toISOString(),
+    scrapes: 0,
+    driftScrapes: 0,
+    pinSources: {},
+    pinPaths: {},
+    boardInfoPaths: {},
+    unknownPinPaths: {},
+    missing: {},
+    warnings: {},
+    notes: {},
+    recent: []
+  };
+}
+
+// The aggregate lives in memory and is written through to disk after every scrape
+const globalForDiagnostics = globalThis as unknown as { __driftReport?: Promise<DriftReport>, __driftWrites?: Promise<void> };
+
+async function reportFile(): Promise<string> {
+  return path.join(await ensureDataDir('diagnostics'), 'report.json');
+}
+
+function loadReport(): Promise<DriftReport> {
+  globalForDiagnostics.__driftReport ??= (async () => {
+    try {
+      return { ...emptyReport(), ...JSON.parse(await fs.readFile(await reportFile(), 'utf8')) } as DriftReport;
+    } catch {
+      return emptyReport();
+    }
+  })();
+  return globalForDiagnostics.__driftReport;
+}
+
+function saveReport(report: DriftReport): Promise<void> {
+  // Serialize writes so the file always holds a complete report
+  globalForDiagnostics.__driftWrites = (globalForDiagnostics.__driftWrites ?? Promise.resolve())
+    .then(async () => fs.writeFile(await reportFile(), JSON.stringify(report, null, 2)))
+    .catch(error => console.error('Failed to save drift report:', error));
+  return globalForDiagnostics.__driftWrites;
+}
+
+/**
+ * Fold one scrape's diagnostics into the aggregated report
+ */
+export async function recordDiagnostics(scraper: string, boardUrl: string, diagnostics: ExtractionDiagnostics | undefined): Promise<void> {
+  if (!diagnostics) return;
+  try {
+    const report = await loadReport();
+    const now = new Date().toISOString();
+    const add = (target: Record<string, number>, key: string, count: number = 1) => {
+      target[key] = (target[key] ?? 0) + count;
+    };
+
+    report.scrapes++;
+    add(report.pinSources, diagnostics.pinSource);
+    for (const [key, count] of Object.entries(diagnostics.pinPaths)) add(report.pinPaths, key, count);
+    for (const [key, count] of Object.entries(diagnostics.unknownPinPaths)) add(report.unknownPinPaths, key, count);
+    if (diagnostics.boardInfoPath) add(report.boardInfoPaths, diagnostics.boardInfoPath);
+    for (const key of diagnostics.missing) add(report.missing, key);
+    for (const warning of diagnostics.warnings) add(report.warnings, warning.code);
+    for (const note of diagnostics.notes) add(report.notes, note.code);
+
+    if (diagnostics.drift) {
+      report.driftScrapes++;
+      report.lastDriftAt = now;
+      report.recent.unshift({ at: now, boardUrl, scraper, pinSource: diagnostics.pinSource, warnings: diagnostics.warnings });
+      report.recent.length = Math.min(report.recent.length, MAX_RECENT_EVENTS);
+      console.log(`🧭 Extractor drift on ${boardUrl} (${scraper}): ${diagnostics.warnings.map(describeFinding).join('; ')}`);
+    } else {
+      report.lastHealthyAt = now;
+    }
+    await saveReport(report);
+  } catch (error) {
+    console.error('Failed to record diagnostics:', error);
+  }
+}
+
+export async function getDriftReport(): Promise<DriftReport> {
+  return loadReport();
+}
+
+export async function resetDriftReport(): Promise<DriftReport> {
+  const report = emptyReport();
+  globalForDiagnostics.__driftReport = Promise.resolve(report);
+  await saveReport(report);
+  return report;
+}
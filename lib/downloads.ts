@@ -0,0 +1,316 @@
+/**
+ * Download queue
+ * A download job fetches the files of the selected pins with a concurrency limit and appends each one
+ * to a ZIP on disk (.data/downloads/<id>.zip) as it arrives. Every file keeps its own status, the queue
+ * can be paused and resumed, and retrying the failed files appends them to the same archive instead of
+ * building it again. Like scrape jobs (./jobs), the queue lives in process memory.
+ */
+
+import { randomUUID } from 'crypto';
+import path from 'path';
+import { promises as fs } from 'fs';
+import { ensureDataDir } from './data-dir';
+import { ZipWriter } from './zip';
+import {
+  ARCHIVE_REPORT,
+  archiveEntryName,
+  archiveFiles,
+  archiveReport,
+  clampConcurrency,
+  fetchArchiveFile
+} from './archive';
+import type { ArchiveOptions, ArchiveRequest } from './archive';
+import type { DownloadFile, DownloadSize, VideoMode } from './media';
+
+export type DownloadFileStatus = 'queued' | 'downloading' | 'done' | 'failed';
+export type DownloadJobStatus = 'running' | 'paused' | 'completed' | 'failed' | 'cancelled';
+
+export interface DownloadFileState extends DownloadFile {
+  status: DownloadFileStatus;
+  reason?: string; // why the last attempt failed
+  savedAs?: string; // path inside the archive
+  bytes?: number;
+  attempts: number; // queue runs, not HTTP retries
+}
+
+export interface DownloadJob {
+  id: string;
+  status: DownloadJobStatus;
+  size: DownloadSize;
+  videoMode: VideoMode;
+  pinCount: number;
+  concurrency: number;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt?: string; // archive complete (set again after a retry)
+  archiveBytes: number;
+  error?: string;
+  files: DownloadFileState[];
+}
+
+export type DownloadJobSummary = Omit<DownloadJob, 'files'> & {
+  fileCount: number;
+  counts: Record<DownloadFileStatus, number>;
+};
+
+// What clients poll: the summary plus each file's status
+export type DownloadFileProgress = Pick<DownloadFileState, 'pinId' | 'basename' | 'status' | 'reason' | 'savedAs' | 'attempts'>;
+export type DownloadProgress = DownloadJobSummary & { files: DownloadFileProgress[] };
+
+interface DownloadEntry {
+  job: DownloadJob;
+  archive: string; // path of the ZIP on disk
+  zip: ZipWriter;
+  controller: AbortController;
+  fetchOptions: Pick<ArchiveOptions, 'transport' | 'fetch'>;
+  active: number; // files being fetched right now
+  writing: Promise<unknown>; // ZIP writes (and truncation) run one at a time
+  finalizing?: Promise<void>;
+  storedFiles: number; // ZIP entries before the report, for reopening the archive
+}
+
+// Finished downloads (and their archives) are kept for a reconnecting client, like scrape jobs
+const FINISHED_DOWNLOAD_TTL_MS = 60 * 60 * 1000;
+
+const globalForDownloads = globalThis as unknown as { __downloadJobs?: Map<string, DownloadEntry> };
+const downloads = globalForDownloads.__downloadJobs ?? (globalForDownloads.__downloadJobs = new Map<string, DownloadEntry>());
+
+function touch(job: DownloadJob) {
+  job.updatedAt = new Date().toISOString();
+}
+
+function pruneDownloads() {
+  const cutoff = Date.now() - FINISHED_DOWNLOAD_TTL_MS;
+  for (const [id, entry] of downloads) {
+    const { finishedAt, status } = entry.job;
+    if (status !== 'running' && status !== 'paused' && finishedAt && Date.parse(finishedAt) < cutoff) {
+      downloads.delete(id);
+      void fs.rm(entry.archive, { force: true });
+    }
+  }
+}
+
+async function downloadFile(entry: DownloadEntry, file: DownloadFileState) {
+  const { job, controller } = entry;
+  try {
+    const { data, contentType } = await fetchArchiveFile(file, { ...entry.fetchOptions, signal: controller.signal });
+    const write = entry.writing.then(() => {
+      // A fetch can still land after cancelDownload removed the archive
+      if (job.status === 'cancelled') throw new Error('Cancelled');
+      return entry.zip.addFile(archiveEntryName(file, contentType), data);
+    });
+    entry.writing = write.catch(() => {});
+    file.savedAs = await write;
+    file.bytes = data.length;
+    file.status = 'done';
+    job.archiveBytes = entry.zip.size;
+  } catch (error) {
+    if (controller.signal.aborted) return;
+    file.status = 'failed';
+    file.reason = error instanceof Error ? error.message : String(error);
+    console.warn(`⚠️ Download ${job.id}: ${file.basename} failed (${file.reason})`);
+  } finally {
+    touch(job);
+  }
+}
+
+/**
+ * Start queued files up to the concurrency limit; finishes the archive once nothing is left
+ */
+function pump(entry: DownloadEntry) {
+  const { job } = entry;
+  if (job.status !== 'running' || entry.finalizing) return;
+
+  while (entry.active < job.concurrency) {
+    const file = job.files.find(candidate => candidate.status === 'queued');
+    if (!file) break;
+    file.status = 'downloading';
+    file.attempts++;
+    entry.active++;
+    void downloadFile(entry, file).finally(() => {
+      entry.active--;
+      pump(entry);
+    });
+  }
+
+  if (entry.active === 0 && !job.files.some(file => file.status === 'queued')) {
+    entry.finalizing = finalize(entry).finally(() => {
+      entry.finalizing = undefined;
+    });
+  }
+}
+
+/**
+ * Add the report and the central directory; the archive can be downloaded from here on
+ */
+async function finalize(entry: DownloadEntry) {
+  const { job } = entry;
+  const failed = job.files.filter(file => file.status === 'failed');
+  const saved = job.files.length - failed.length;
+  try {
+    await entry.writing;
+    if (job.status === 'cancelled') return;
+    entry.storedFiles = entry.zip.fileCount;
+    const report = archiveReport(job, saved, failed.map(file => ({ file, reason: file.reason ?? 'Unknown error' })));
+    await entry.zip.addFile(ARCHIVE_REPORT, new TextEncoder().encode(report));
+    await entry.zip.finish();
+    job.archiveBytes = entry.zip.size;
+    job.status = 'completed';
+  } catch (error) {
+    job.status = 'failed';
+    job.error = error instanceof Error ? error.message : 'Failed to write the archive';
+  }
+  job.finishedAt = new Date().toISOString();
+  touch(job);
+  console.log(`📦 Download ${job.id} ${job.status}: ${saved} files saved, ${failed.length} failed, ${job.archiveBytes} bytes`);
+}
+
+/**
+ * Queue the files of an archive request and start fetching them in the background
+ */
+export async function createDownload(
+  request: ArchiveRequest,
+  options: Omit<ArchiveOptions, 'signal'> = {}
+): Promise<DownloadJob> {
+  pruneDownloads();
+
+  const id = randomUUID();
+  const archive = path.join(await ensureDataDir('downloads'), `${id}.zip`);
+  await fs.writeFile(archive, '');
+
+  const now = new Date().toISOString();
+  const job: DownloadJob = {
+    id,
+    status: 'running',
+    size: request.size,
+    videoMode: request.videoMode,
+    pinCount: request.pins.length,
+    concurrency: clampConcurrency(options.concurrency),
+    createdAt: now,
+    updatedAt: now,
+    archiveBytes: 0,
+    files: archiveFiles(request).map(file => ({ ...file, status: 'queued', attempts: 0 }))
+  };
+  const entry: DownloadEntry = {
+    job,
+    archive,
+    // Once cancelled nothing is appended, so no write can recreate the removed archive
+    zip: new ZipWriter(async chunk => {
+      if (job.status !== 'cancelled') await fs.appendFile(archive, chunk);
+    }),
+    controller: new AbortController(),
+    fetchOptions: { transport: options.transport, fetch: options.fetch },
+    active: 0,
+    writing: Promise.resolve(),
+    storedFiles: 0
+  };
+  downloads.set(id, entry);
+
+  console.log(`📦 Download ${id}: ${job.files.length} files from ${job.pinCount} pins, ${job.concurrency} at a time`);
+  pump(entry);
+  return job;
+}
+
+export function getDownload(id: string): DownloadJob | undefined {
+  return downloads.get(id)?.job;
+}
+
+export function summarizeDownload(job: DownloadJob): DownloadJobSummary {
+  const { files, ...rest } = job;
+  const counts: Record<DownloadFileStatus, number> = { queued: 0, downloading: 0, done: 0, failed: 0 };
+  for (const file of files) counts[file.status]++;
+  return { ...rest, fileCount: files.length, counts };
+}
+
+export function downloadProgress(job: DownloadJob): DownloadProgress {
+  return {
+    ...summarizeDownload(job),
+    files: job.files.map(({ pinId, basename, status, reason, savedAs, attempts }) => ({ pinId, basename, status, reason, savedAs, attempts }))
+  };
+}
+
+export function listDownloads(): DownloadJobSummary[] {
+  pruneDownloads();
+  return Array.from(downloads.values())
+    .map(({ job }) => summarizeDownload(job))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Pause (files already being fetched still finish), resume or change the concurrency limit
+ */
+export function updateDownload(id: string, changes: { paused?: boolean, concurrency?: number }): DownloadJob | undefined {
+  const entry = downloads.get(id);
+  if (!entry) return undefined;
+  const { job } = entry;
+
+  if (changes.concurrency !== undefined) job.concurrency = clampConcurrency(changes.concurrency);
+  if (changes.paused === true && job.status === 'running' && !entry.finalizing) job.status = 'paused';
+  if (changes.paused === false && job.status === 'paused') job.status = 'running';
+  touch(job);
+  pump(entry);
+  return job;
+}
+
+/**
+ * Queue the failed files again; a finished archive is reopened and they are appended to it
+ */
+export async function retryFailedDownloads(id: string): Promise<DownloadJob | undefined> {
+  const entry = downloads.get(id);
+  if (!entry) return undefined;
+  const { job } = entry;
+  await entry.finalizing;
+
+  const failed = job.files.filter(file => file.status === 'failed');
+  if (failed.length === 0 || job.status === 'cancelled') return job;
+
+  for (const file of failed) {
+    file.status = 'queued';
+    file.reason = undefined;
+  }
+  if (job.status === 'completed' || job.status === 'failed') {
+    // Take the report and central directory off the end; the retried files go after the others
+    const reopen = entry.writing.then(async () => {
+      await fs.truncate(entry.archive, entry.zip.reopen(entry.storedFiles));
+    });
+    entry.writing = reopen.catch(() => {});
+    job.status = 'running';
+    job.finishedAt = undefined;
+    job.error = undefined;
+  }
+  console.log(`📦 Download ${job.id}: retrying ${failed.length} failed files`);
+  touch(job);
+  pump(entry);
+  return job;
+}
+
+/**
+ * Stop a download and delete its archive; returns false if the job is unknown
+ */
+export function cancelDownload(id: string): boolean {
+  const entry = downloads.get(id);
+  if (!entry) return false;
+  const { job } = entry;
+  if (job.status !== 'cancelled') {
+    entry.controller.abort();
+    job.status = 'cancelled';
+    job.finishedAt = new Date().toISOString();
+    for (const file of job.files) {
+      if (file.status === 'queued' || file.status === 'downloading') {
+        file.status = 'failed';
+        file.reason = 'Cancelled';
+      }
+    }
+    touch(job);
+    void entry.writing.then(() => fs.rm(entry.archive, { force: true }));
+  }
+  return true;
+}
+
+/**
+ * Path of a finished archive, or undefined while it is still being written
+ */
+export function getDownloadArchive(id: string): string | undefined {
+  const entry = downloads.get(id);
+  return entry?.job.status === 'completed' ? entry.archive : undefined;
+}
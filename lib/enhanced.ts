@@ -0,0 +1,118 @@
+/**
+ * Enhanced static scraping - several HTML requests with different user agents
+ * Pinterest loads different content based on user agent, so each sweep can surface extra pins
+ */
+
+import { extractImagesFromHtml } from './scraper';
+import type { PinterestImage, ScrapeOptions } from './scraper';
+import { transportFetch } from './transport';
+import { mergeDiagnostics, recordDiagnostics } from './diagnostics';
+import type { ExtractionDiagnostics } from './diagnostics';
+
+/**
+ * Fetch the board HTML with multiple header profiles and merge unique pins
+ */
+export async function scrapeBoardEnhanced(
+  boardUrl: string,
+  options: Pick<ScrapeOptions, 'signal' | 'transport'> = {}
+): Promise<{ images: PinterestImage[], strategies: number, diagnostics?: ExtractionDiagnostics }> {
+  const allImages: PinterestImage[] = [];
+  const seenIds = new Set<string>();
+  const sweepDiagnostics: ExtractionDiagnostics[] = [];
+
+  const scrapingStrategies: { name: string; headers: Record<string, string>; url: string }[] = [
+    {
+      name: 'Standard Desktop',
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,*/*;q=0.8',
+        'Accept-Language': 'en-US,en;q=0.9',
+        'Accept-Encoding': 'gzip, deflate, br',
+        'DNT': '1',
+        'Connection': 'keep-alive',
+        'Upgrade-Insecure-Requests': '1',
+      },
+      url: boardUrl
+    },
+    {
+      name: 'Mobile View',
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1',
+        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+        'Accept-Language': 'en-US,en;q=0.9',
+        'Accept-Encoding': 'gzip, deflate, br',
+      },
+      url: boardUrl
+    },
+    {
+      name: 'Alternative Desktop',
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,image/apng,*/*;q=0.8',
+        'Accept-Language': 'en-US,en;q=0.9',
+        'Cache-Control': 'no-cache',
+        'Pragma': 'no-cache',
+      },
+      url: boardUrl
+    },
+    {
+      name: 'Direct Board Access',
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36',
+        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+        'Referer': 'https://www.pinterest.com/',
+      },
+      url: boardUrl + (boardUrl.endsWith('/') ? '' : '/')
+    },
+  ];
+
+  for (const strategy of scrapingStrategies) {
+    try {
+      console.log(`Trying strategy: ${strategy.name}`);
+
+      const response = await transportFetch(options.transport, strategy.url, {
+        headers: strategy.headers,
+        signal: options.signal
+      });
+
+      if (!response.ok) {
+        console.log(`Strategy ${strategy.name} failed: ${response.status}`);
+        continue;
+      }
+
+      const html = await response.text();
+      const { images, diagnostics } = extractImagesFromHtml(html);
+      sweepDiagnostics.push(diagnostics);
+
+      // Add new unique images
+      let newCount = 0;
+      for (const image of images) {
+        if (!seenIds.has(image.id)) {
+          seenIds.add(image.id);
+          allImages.push(image);
+          newCount++;
+        }
+      }
+
+      console.log(`Strategy ${strategy.name}: Found ${images.length} pins, ${newCount} new unique pins`);
+
+      // Add delay between requests to be respectful
+      if (strategy !== scrapingStrategies[scrapingStrategies.length - 1]) {
+        await new Promise(resolve => setTimeout(resolve, 1000));
+      }
+
+    } catch (error) {
+      options.signal?.throwIfAborted();
+      console.log(`Strategy ${strategy.name} failed:`, error instanceof Error ? error.message : error);
+      continue;
+    }
+  }
+
+  // Sort images by ID for consistent ordering
+  allImages.sort((a, b) => a.id.localeCompare(b.id));
+
+  console.log(`Enhanced scraping complete: ${allImages.length} total unique pins`);
+  const diagnostics = mergeDiagnostics(sweepDiagnostics);
+  void recordDiagnostics('enhanced', boardUrl, diagnostics);
+  return { images: allImages, strategies: scrapingStrategies.length, diagnostics };
+}
@@ -0,0 +1,234 @@
+/**
+ * Offline fake of the Pinterest API v5 for ./pinterest-api
+ * Serves the same fixture boards as ./fake-pinterest: POST /v5/oauth/token (authorization code and
+ * refresh token grants, with refresh tokens rotated on every refresh the way Pinterest does),
+ * /v5/user_account, /v5/boards, /v5/boards/{id}/sections and /v5/boards/{id}[/sections/{id}]/pins
+ * with bookmark pagination, plus an /oauth/ authorize page that grants access straight away.
+ * `npm run dev:offline` mounts it at /fake-pinterest-api; tests can stub global fetch with
+ * fakePinterestApiFetch instead of running a server.
+ */
+
+import {
+  FAKE_BOARDS,
+  buildFakePin,
+  decodeFakeBookmark,
+  encodeFakeBookmark,
+  fakeSectionRange
+} from './fake-pinterest';
+import type { FakeBoard } from './fake-pinterest';
+
+interface FakeApiState {
+  accessTokens: Set<string>;
+  refreshTokens: Set<string>;
+  issued: number;
+  refreshes: number; // refresh_token grants answered
+}
+
+const ACCESS_TOKEN_TTL_S = 30 * 24 * 60 * 60;
+const REFRESH_TOKEN_TTL_S = 365 * 24 * 60 * 60;
+const FAKE_USERNAME = 'fixture';
+// v5 size keys mapped to the fake CDN's directories
+const V5_IMAGE_SIZES = [
+  { key: '150x150', width: 150, height: 150 },
+  { key: '400x300', width: 400, height: 300 },
+  { key: '600x', width: 600 },
+  { key: '1200x', width: 1200 }
+];
+
+const globalForFakeApi = globalThis as unknown as { __fakePinterestApi?: FakeApiState };
+
+function state(): FakeApiState {
+  return globalForFakeApi.__fakePinterestApi
+    ?? (globalForFakeApi.__fakePinterestApi = { accessTokens: new Set(), refreshTokens: new Set(), issued: 0, refreshes: 0 });
+}
+
+/**
+ * Forget every token issued so far
+ */
+export function resetFakePinterestApi(): void {
+  globalForFakeApi.__fakePinterestApi = undefined;
+}
+
+/**
+ * Reject the access tokens issued so far (as if they had expired early); refresh tokens stay valid
+ */
+export function revokeFakeAccessTokens(): void {
+  state().accessTokens.clear();
+}
+
+export function fakeTokenRefreshCount(): number {
+  return state().refreshes;
+}
+
+function apiError(status: number, message: string): Response {
+  return Response.json({ code: status, message }, { status });
+}
+
+function issueTokens(): Response {
+  const current = state();
+  const n = ++current.issued;
+  const accessToken = `pina_fake_access_${n}`;
+  const refreshToken = `pinr_fake_refresh_${n}`;
+  current.accessTokens.add(accessToken);
+  current.refreshTokens.add(refreshToken);
+  return Response.json({
+    access_token: accessToken,
+    refresh_token: refreshToken,
+    response_type: 'authorization_code',
+    token_type: 'bearer',
+    expires_in: ACCESS_TOKEN_TTL_S,
+    refresh_token_expires_in: REFRESH_TOKEN_TTL_S,
+    scope: 'boards:read,boards:read_secret,pins:read,pins:read_secret,user_accounts:read'
+  });
+}
+
+function handleToken(headers: Headers, body: string): Response {
+  if (!headers.get('authorization')?.startsWith('Basic ')) return apiError(401, 'Missing client credentials');
+  const form = new URLSearchParams(body);
+
+  switch (form.get('grant_type')) {
+    case 'authorization_code':
+      if (!form.get('code')?.startsWith('fake-code-')) return apiError(400, 'Invalid authorization code');
+      return issueTokens();
+    case 'refresh_token': {
+      const current = state();
+      const refreshToken = form.get('refresh_token') || '';
+      // Refresh tokens are single use: the old one stops working once it has been exchanged
+      if (!current.refreshTokens.delete(refreshToken)) return apiError(400, 'Invalid refresh token');
+      current.refreshes++;
+      return issueTokens();
+    }
+    default:
+      return apiError(400, 'Unsupported grant_type');
+  }
+}
+
+function boardJson(board: FakeBoard) {
+  return {
+    id: board.id,
+    name: board.name,
+    description: board.description,
+    owner: { username: board.owner },
+    pin_count: board.pinCount,
+    privacy: 'PUBLIC'
+  };
+}
+
+/**
+ * A fixture pin in v5 form; GIF pins keep the .gif extension on their largest size
+ */
+function v5Pin(board: FakeBoard, index: number) {
+  const pin = buildFakePin(board, index);
+  const isGif = pin.embed?.type === 'gif';
+  const thumbnail = pin.images['236x'].url;
+  const images: Record<string, { url: string, width: number, height: number }> = {};
+  for (const size of V5_IMAGE_SIZES) {
+    const url = thumbnail.replace('/236x/', `/${size.key}/`);
+    images[size.key] = {
+      url: isGif && size.key === '1200x' ? url.replace(/\.jpg$/, '.gif') : url,
+      width: size.width,
+      height: size.height ?? Math.round(size.width * pin.images['236x'].height / 236)
+    };
+  }
+
+  return {
+    id: pin.id,
+    created_at: new Date(pin.created_at).toISOString(),
+    link: pin.link,
+    title: pin.title,
+    description: pin.description,
+    alt_text: null,
+    dominant_color: pin.dominant_color,
+    board_id: board.id,
+    board_section_id: pin.board_section_id ?? null,
+    board_owner: { username: board.owner },
+    media: { media_type: 'image', images },
+    pin_metrics: { all_time: { save: pin.aggregated_pin_data.aggregated_stats.saves } }
+  };
+}
+
+/**
+ * One page of `items` in v5 form; the bookmark is null on the last page
+ */
+function pageOf<T>(total: number, item: (offset: number) => T, searchParams: URLSearchParams): Response {
+  const pageSize = Math.min(Math.max(Number(searchParams.get('page_size')) || 25, 1), 250);
+  const offset = decodeFakeBookmark(searchParams.get('bookmark') || undefined);
+  const items: T[] = [];
+  for (let n = offset; n < Math.min(offset + pageSize, total); n++) items.push(item(n));
+  const next = offset + items.length;
+  return Response.json({ items, bookmark: next < total ? encodeFakeBookmark(next) : null });
+}
+
+function handleApi(pathname: string, searchParams: URLSearchParams, headers: Headers): Response {
+  const token = headers.get('authorization')?.match(/^Bearer (.+)$/)?.[1];
+  if (!token || !state().accessTokens.has(token)) return apiError(401, 'Authentication failed.');
+
+  const segments = pathname.split('/').filter(Boolean);
+  if (segments.length === 1 && segments[0] === 'user_account') {
+    return Response.json({ id: '930000000000000001', username: FAKE_USERNAME, account_type: 'PINNER' });
+  }
+  if (segments[0] !== 'boards') return apiError(404, 'Not found');
+  if (segments.length === 1) {
+    const boards = FAKE_BOARDS.filter(board => board.owner === FAKE_USERNAME);
+    return pageOf(boards.length, n => boardJson(boards[n]), searchParams);
+  }
+
+  const board = FAKE_BOARDS.find(candidate => candidate.id === segments[1]);
+  if (!board) return apiError(404, 'Board not found.');
+
+  // /boards/{id}/pins lists every pin of the board, section pins included
+  if (segments.length === 3 && segments[2] === 'pins') {
+    return pageOf(board.pinCount, n => v5Pin(board, n), searchParams);
+  }
+  if (segments.length === 3 && segments[2] === 'sections') {
+    return pageOf(board.sections.length, n => ({ id: board.sections[n].id, name: board.sections[n].title }), searchParams);
+  }
+  if (segments.length === 5 && segments[2] === 'sections' && segments[4] === 'pins') {
+    const range = fakeSectionRange(board, segments[3]);
+    if (!range) return apiError(404, 'Section not found.');
+    return pageOf(range.end - range.start, n => v5Pin(board, range.start + n), searchParams);
+  }
+  return apiError(404, 'Not found');
+}
+
+/**
+ * The authorize page: grants access at once by redirecting back with a code
+ */
+function authorize(searchParams: URLSearchParams): Response {
+  const redirectUri = searchParams.get('redirect_uri');
+  if (!redirectUri) return new Response('redirect_uri is required', { status: 400 });
+  const target = new URL(redirectUri);
+  target.searchParams.set('code', `fake-code-${Date.now()}`);
+  target.searchParams.set('state', searchParams.get('state') || '');
+  return Response.redirect(target.toString(), 302);
+}
+
+/**
+ * Answer one request to the fake; `pathname` is relative to where it is mounted
+ */
+export function fakePinterestApiResponse(
+  method: string,
+  pathname: string,
+  searchParams: URLSearchParams,
+  headers: Headers,
+  body: string = ''
+): Response {
+  if (pathname.replace(/\/+$/, '') === '/oauth') return authorize(searchParams);
+  if (!pathname.startsWith('/v5/')) return apiError(404, 'Not found');
+
+  const path = pathname.slice('/v5'.length);
+  if (path === '/oauth/token') {
+    return method === 'POST' ? handleToken(headers, body) : apiError(405, 'Method not allowed');
+  }
+  return method === 'GET' ? handleApi(path, searchParams, headers) : apiError(405, 'Method not allowed');
+}
+
+/**
+ * fetch implementation backed by the fake: answers https://api.pinterest.com/v5/... and the
+ * https://www.pinterest.com/oauth/ authorize page
+ */
+export const fakePinterestApiFetch: typeof fetch = async (input, init) => {
+  const request = new Request(input, init);
+  const url = new URL(request.url);
+  return fakePinterestApiResponse(request.method, url.pathname, url.searchParams, request.headers, await request.text());
+};
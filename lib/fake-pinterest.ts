@@ -0,0 +1,321 @@
+/**
+ * Offline fake Pinterest for development and end-to-end runs
+ * Serves the fixture boards in fixtures/fake-pinterest/boards.json the way pinterest.com does:
+ * board and pin pages with __PWS_DATA__, BoardFeedResource / BoardSectionsResource /
+ * BoardSectionPinsResource / PinResource JSON with bookmark pagination, and generated images under
+ * /pinimg/ laid out like i.pinimg.com. Pins are generated from each board's pin count, so fixtures stay small.
+ * `npm run dev:offline` mounts it at /fake-pinterest and points the transport at it; library callers
+ * can also pass fakePinterestFetch as a transport's fetch without running a server.
+ */
+
+import { createHash } from 'crypto';
+import fixtures from '../fixtures/fake-pinterest/boards.json';
+
+export interface FakeBoardSection {
+  id: string;
+  slug: string;
+  title: string;
+  pinCount: number;
+}
+
+export interface FakeBoard {
+  id: string;
+  owner: string;
+  slug: string;
+  name: string;
+  description: string;
+  pinCount: number; // includes section pins, like Pinterest's pin_count
+  gifEvery?: number; // every Nth pin is an animated GIF
+  sections: FakeBoardSection[];
+}
+
+// The resource request options the fake reads (the `options` object of the `data` query parameter)
+interface ResourceOptions {
+  bookmarks?: string[];
+  page_size?: number;
+  board_url?: string;
+  filter_section_pins?: boolean;
+  section_id?: string;
+  id?: string;
+}
+
+// Prefix of the generated image URLs, standing in for https://i.pinimg.com
+export const FAKE_IMAGE_PREFIX = '/pinimg';
+
+export const FAKE_BOARDS: FakeBoard[] = fixtures.boards;
+const BOARD_PAGE_PINS = 25;
+const END_BOOKMARK = '-end-';
+const IMAGE_SIZES = [
+  { key: '170x', width: 170 },
+  { key: '236x', width: 236 },
+  { key: '474x', width: 474 },
+  { key: '564x', width: 564 },
+  { key: '736x', width: 736 },
+  { key: 'orig', width: 1200 }
+];
+
+function findBoard(owner: string, slug: string): FakeBoard | undefined {
+  return FAKE_BOARDS.find(board => board.owner === owner && board.slug === slug);
+}
+
+function boardPath(board: FakeBoard): string {
+  return `/${board.owner}/${board.slug}/`;
+}
+
+/**
+ * Pin ids are the board id plus a 4-digit index; board-level pins come first, then each section's
+ */
+function pinId(board: FakeBoard, index: number): string {
+  return `${board.id}${String(index).padStart(4, '0')}`;
+}
+
+export function fakeSectionRange(board: FakeBoard, sectionId: string): { start: number, end: number } | undefined {
+  let start = board.pinCount - board.sections.reduce((sum, section) => sum + section.pinCount, 0);
+  for (const section of board.sections) {
+    if (section.id === sectionId) return { start, end: start + section.pinCount };
+    start += section.pinCount;
+  }
+  return undefined;
+}
+
+function imageHash(id: string): string {
+  return createHash('md5').update(id).digest('hex');
+}
+
+export function buildFakePin(board: FakeBoard, index: number) {
+  const id = pinId(board, index);
+  const hash = imageHash(id);
+  const isGif = !!board.gifEvery && (index + 1) % board.gifEvery === 0;
+  const section = board.sections.find(candidate => {
+    const range = fakeSectionRange(board, candidate.id);
+    return range && index >= range.start && index < range.end;
+  });
+  const aspect = 1 + (parseInt(hash.slice(0, 2), 16) % 8) / 8; // height / width, 1 to ~1.9
+
+  const images: Record<string, { url: string, width: number, height: number }> = {};
+  for (const size of IMAGE_SIZES) {
+    const dir = size.key === 'orig' ? 'originals' : size.key;
+    const extension = isGif && size.key === 'orig' ? 'gif' : 'jpg';
+    images[size.key] = {
+      url: `https://i.pinimg.com/${dir}/${hash.slice(0, 2)}/${hash.slice(2, 4)}/${hash.slice(4, 6)}/${hash}.${extension}`,
+      width: size.width,
+      height: Math.round(size.width * aspect)
+    };
+  }
+
+  return {
+    id,
+    type: 'pin',
+    title: `${board.name} #${index + 1}`,
+    description: `Fixture pin ${index + 1} of ${board.name}`,
+    images,
+    dominant_color: `#${hash.slice(0, 6)}`,
+    created_at: new Date(Date.UTC(2024, 0, 1) + index * 3600_000).toUTCString(),
+    link: `https://example.com/${board.slug}/${index + 1}`,
+    domain: 'example.com',
+    repin_count: index % 17,
+    aggregated_pin_data: { aggregated_stats: { saves: index % 31 } },
+    pinner: { username: board.owner },
+    board: { id: board.id, name: board.name, url: boardPath(board), pin_count: board.pinCount, owner: { username: board.owner } },
+    ...(section ? { board_section_id: section.id } : {}),
+    ...(isGif ? { embed: { type: 'gif', src: images.orig.url } } : {})
+  };
+}
+
+function findPin(id: string): { board: FakeBoard, index: number } | undefined {
+  for (const board of FAKE_BOARDS) {
+    if (!id.startsWith(board.id) || id.length !== board.id.length + 4) continue;
+    const index = Number(id.slice(board.id.length));
+    if (index < board.pinCount) return { board, index };
+  }
+  return undefined;
+}
+
+function boardJson(board: FakeBoard) {
+  return {
+    id: board.id,
+    name: board.name,
+    description: board.description,
+    url: boardPath(board),
+    pin_count: board.pinCount,
+    section_count: board.sections.length,
+    owner: { username: board.owner }
+  };
+}
+
+export function encodeFakeBookmark(offset: number): string {
+  return Buffer.from(`fake:${offset}`).toString('base64');
+}
+
+export function decodeFakeBookmark(bookmark: string | undefined): number {
+  if (!bookmark) return 0;
+  const match = Buffer.from(bookmark, 'base64').toString().match(/^fake:(\d+)$/);
+  return match ? Number(match[1]) : 0;
+}
+
+/**
+ * One page of pin indices [start, end) in resource response form; the last page's bookmark is "-end-"
+ */
+function pageOf(board: FakeBoard, start: number, end: number, options: ResourceOptions): Response {
+  const bookmark = options.bookmarks?.[0];
+  const pageSize = Math.min(Math.max(Number(options.page_size) || 25, 1), 250);
+  const offset = bookmark === END_BOOKMARK ? end - start : decodeFakeBookmark(bookmark);
+  const pins = [];
+  for (let index = start + offset; index < Math.min(start + offset + pageSize, end); index++) {
+    pins.push(buildFakePin(board, index));
+  }
+  const nextOffset = offset + pins.length;
+  return resourceResponse(pins, nextOffset < end - start ? encodeFakeBookmark(nextOffset) : END_BOOKMARK);
+}
+
+function resourceResponse(data: unknown, bookmark?: string): Response {
+  return Response.json({
+    resource: { options: bookmark ? { bookmarks: [bookmark] } : {} },
+    resource_response: { status: 'success', code: 0, data, ...(bookmark ? { bookmark } : {}) }
+  });
+}
+
+function notFound(message: string, json: boolean): Response {
+  return json
+    ? Response.json({ resource_response: { status: 'failure', code: 404, message } }, { status: 404 })
+    : new Response(`<!DOCTYPE html><html><body><h1>${message}</h1></body></html>`, { status: 404, headers: { 'Content-Type': 'text/html; charset=utf-8' } });
+}
+
+function handleResource(resource: string, searchParams: URLSearchParams): Response {
+  let options: ResourceOptions = {};
+  try {
+    options = JSON.parse(searchParams.get('data') || '{}').options || {};
+  } catch {
+    return Response.json({ resource_response: { status: 'failure', code: 400, message: 'Invalid data' } }, { status: 400 });
+  }
+  const [, owner, slug] = String(options.board_url || searchParams.get('source_url') || '').split('/');
+  const board = findBoard(owner, slug);
+
+  switch (resource) {
+    case 'BoardFeedResource': {
+      if (!board) return notFound('Board not found', true);
+      // Section pins are only left in the feed when filter_section_pins is false
+      const end = options.filter_section_pins === false
+        ? board.pinCount
+        : board.pinCount - board.sections.reduce((sum, section) => sum + section.pinCount, 0);
+      return pageOf(board, 0, end, options);
+    }
+    case 'BoardSectionsResource':
+      if (!board) return notFound('Board not found', true);
+      return resourceResponse(board.sections.map(section => ({
+        id: section.id,
+        slug: section.slug,
+        title: section.title,
+        pin_count: section.pinCount
+      })), END_BOOKMARK);
+    case 'BoardSectionPinsResource':
+    case 'BoardSectionFeedResource': {
+      const sectionBoard = FAKE_BOARDS.find(candidate => candidate.sections.some(section => section.id === String(options.section_id)));
+      const range = sectionBoard && fakeSectionRange(sectionBoard, String(options.section_id));
+      if (!sectionBoard || !range) return notFound('Section not found', true);
+      return pageOf(sectionBoard, range.start, range.end, options);
+    }
+    case 'PinResource': {
+      const found = findPin(String(options.id));
+      if (!found) return notFound('Pin not found', true);
+      return resourceResponse(buildFakePin(found.board, found.index));
+    }
+    default:
+      return notFound(`Unknown resource ${resource}`, true);
+  }
+}
+
+function htmlPage(title: string, pwsData: unknown, body: string = ''): Response {
+  // Escape "<" so the JSON can't close the script tag early
+  const json = JSON.stringify(pwsData).replace(/</g, '\\u003c');
+  const html = `<!DOCTYPE html><html><head><title>${title}</title></head><body>${body}`
+    + `<script id="__PWS_DATA__" type="application/json">${json}</script></body></html>`;
+  return new Response(html, { headers: { 'Content-Type': 'text/html; charset=utf-8' } });
+}
+
+function boardPage(board: FakeBoard): Response {
+  const pins = [];
+  for (let index = 0; index < Math.min(BOARD_PAGE_PINS, board.pinCount); index++) {
+    pins.push(buildFakePin(board, index));
+  }
+  const grid = pins
+    .map(pin => `<a href="/pin/${pin.id}/"><img src="${pin.images['236x'].url}" srcset="${pin.images['474x'].url} 2x" alt="${pin.title}"></a>`)
+    .join('');
+  return htmlPage(`${board.name} | Pinterest`, {
+    props: {
+      initialReduxState: {
+        boards: { [board.id]: boardJson(board) },
+        pins: Object.fromEntries(pins.map(pin => [pin.id, pin]))
+      },
+      context: { app_initial_url: boardPath(board) }
+    }
+  }, grid);
+}
+
+function pinPage(board: FakeBoard, index: number): Response {
+  const pin = buildFakePin(board, index);
+  return htmlPage(`${pin.title} | Pinterest`, {
+    props: { initialReduxState: { pins: { [pin.id]: pin } } }
+  }, `<img src="${pin.images['736x'].url}" alt="${pin.title}">`);
+}
+
+function indexPage(): Response {
+  // The URLs to paste into the app; the transport sends them here
+  const links = FAKE_BOARDS
+    .map(board => `<li>${board.name} (${board.pinCount} pins): <code>https://www.pinterest.com${boardPath(board)}</code></li>`)
+    .join('');
+  return htmlPage('Fake Pinterest', {}, `<h1>Fake Pinterest</h1><ul>${links}</ul>`);
+}
+
+// Tiny real images (8x8 grey JPEG, 1x1 GIF) so downloads get the content types and extensions the CDN serves
+const PLACEHOLDER_JPEG = Buffer.from(
+  '/9j/2wBDABALDA4MChAODQ4SERATGCgaGBYWGDEjJR0oOjM9PDkzODdASFxOQERXRTc4UG1RV19iZ2hnPk1xeXBkeFxlZ2P/2wBDARESEhgVGC8aGi9jQjhC'
+  + 'Y2NjY2NjY2NjY2NjY2NjY2NjY2NjY2NjY2NjY2NjY2NjY2NjY2NjY2NjY2NjY2NjY2P/wAARCAAIAAgDASIAAhEBAxEB/8QAFQABAQAAAAAAAAAAAAAAAAAA'
+  + 'AAb/xAAUEAEAAAAAAAAAAAAAAAAAAAAA/8QAFAEBAAAAAAAAAAAAAAAAAAAAAP/EABQRAQAAAAAAAAAAAAAAAAAAAAD/2gAMAwEAAhEDEQA/AKYAH//Z',
+  'base64'
+);
+const PLACEHOLDER_GIF = Buffer.from('R0lGODlhAQABAIAAAExpcczMzCH5BAUAAAAALAAAAAABAAEAAAICTAEAOw==', 'base64');
+
+/**
+ * Placeholder image for a pin size, with the content type its extension implies
+ */
+function imageResponse(pathname: string): Response {
+  const match = pathname.match(/^\/(\d+x(?:\d+)?|originals)\/[0-9a-f]{2}\/[0-9a-f]{2}\/[0-9a-f]{2}\/[0-9a-f]{32}\.(jpg|gif)$/);
+  if (!match) return new Response('Not found', { status: 404 });
+  const gif = match[2] === 'gif';
+  return new Response(new Uint8Array(gif ? PLACEHOLDER_GIF : PLACEHOLDER_JPEG), {
+    headers: { 'Content-Type': gif ? 'image/gif' : 'image/jpeg', 'Cache-Control': 'public, max-age=86400' }
+  });
+}
+
+/**
+ * Answer one request to the fake; `pathname` is relative to where it is mounted
+ */
+export function fakePinterestResponse(pathname: string, searchParams: URLSearchParams): Response {
+  if (pathname.startsWith(`${FAKE_IMAGE_PREFIX}/`)) {
+    return imageResponse(pathname.slice(FAKE_IMAGE_PREFIX.length));
+  }
+
+  const resource = pathname.match(/^\/resource\/(\w+)\/get\/?$/);
+  if (resource) return handleResource(resource[1], searchParams);
+
+  const segments = pathname.split('/').filter(Boolean);
+  if (segments.length === 0) return indexPage();
+  if (segments[0] === 'pin' && segments[1]) {
+    const found = findPin(segments[1]);
+    return found ? pinPage(found.board, found.index) : notFound('Pin not found', false);
+  }
+  // Board, board subpage or section URL: the board page either way
+  const board = segments.length >= 2 ? findBoard(segments[0], segments[1]) : undefined;
+  return board ? boardPage(board) : notFound('Page not found', false);
+}
+
+/**
+ * fetch implementation backed by the fake, for createTransport({ fetch: fakePinterestFetch });
+ * i.pinimg.com URLs are answered too
+ */
+export const fakePinterestFetch: typeof fetch = async (input) => {
+  const url = new URL(typeof input === 'string' ? input : input instanceof URL ? input.toString() : input.url);
+  const pathname = url.hostname === 'i.pinimg.com' ? `${FAKE_IMAGE_PREFIX}${url.pathname}` : url.pathname;
+  return fakePinterestResponse(pathname, url.searchParams);
+};
@@ -0,0 +1,181 @@
+/**
+ * Background scrape jobs
+ * Jobs run detached from the HTTP request and live in process memory, so a client can
+ * disconnect and poll the same job id later for status, progress and results.
+ */
+
+import { randomUUID } from 'crypto';
+import { scrapePinterestBoard } from './scraper';
+import type { PinterestImage, BoardInfo, ScrapeProgress } from './scraper';
+import { scrapeBoardWithPlaywright } from './playwright';
+import { saveToLibrary } from './library';
+import { saveCheckpoint } from './checkpoints';
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+export type JobMethod = 'scrape' | 'playwright';
+
+export interface ScrapeJob {
+  id: string;
+  boardUrl: string;
+  method: JobMethod;
+  maxPages: number;
+  status: JobStatus;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt?: string;
+  pagesFetched: number;
+  images: PinterestImage[];
+  boardInfo?: BoardInfo;
+  errors: string[];
+  libraryScrapeId?: number;
+  // Set once the job completes: false when pagination stopped early, with a token for POST /api/scrape
+  complete?: boolean;
+  resumeToken?: string;
+}
+
+export type JobSummary = Omit<ScrapeJob, 'images'> & { pinCount: number };
+
+interface JobEntry {
+  job: ScrapeJob;
+  controller: AbortController;
+}
+
+// Finished jobs are kept around so a reconnecting client can still collect the result
+const FINISHED_JOB_TTL_MS = 60 * 60 * 1000;
+
+// Keep the registry on globalThis so dev-mode module reloads don't drop running jobs
+const globalForJobs = globalThis as unknown as { __scrapeJobs?: Map<string, JobEntry> };
+const jobs = globalForJobs.__scrapeJobs ?? (globalForJobs.__scrapeJobs = new Map<string, JobEntry>());
+
+function isFinished(status: JobStatus): boolean {
+  return status === 'completed' || status === 'failed' || status === 'cancelled';
+}
+
+function touch(job: ScrapeJob) {
+  job.updatedAt = new Date().toISOString();
+}
+
+/**
+ * Drop finished jobs older than the retention window
+ */
+function pruneJobs() {
+  const cutoff = Date.now() - FINISHED_JOB_TTL_MS;
+  for (const [id, { job }] of jobs) {
+    if (job.finishedAt && Date.parse(job.finishedAt) < cutoff) {
+      jobs.delete(id);
+    }
+  }
+}
+
+/**
+ * Apply a progress event from the scraper to the job state
+ */
+function applyProgress(job: ScrapeJob, progress: ScrapeProgress) {
+  const known = new Set(job.images.map(img => img.id));
+  for (const pin of progress.pins) {
+    if (!known.has(pin.id)) {
+      known.add(pin.id);
+      job.images.push(pin);
+    }
+  }
+  job.pagesFetched = progress.pagesFetched;
+  if (progress.boardInfo) job.boardInfo = progress.boardInfo;
+  touch(job);
+}
+
+async function runJob(entry: JobEntry) {
+  const { job, controller } = entry;
+  job.status = 'running';
+  touch(job);
+
+  const options = {
+    signal: controller.signal,
+    onProgress: (progress: ScrapeProgress) => applyProgress(job, progress)
+  };
+
+  try {
+    const result = job.method === 'playwright'
+      ? await scrapeBoardWithPlaywright(job.boardUrl, options)
+      : await scrapePinterestBoard(job.boardUrl, job.maxPages, options);
+
+    // The final result is authoritative (Playwright adds DOM/HTML-validated pins at the end)
+    job.images = result.images;
+    job.boardInfo = result.boardInfo ?? job.boardInfo;
+    // Only the paginated scraper stops early with a checkpoint
+    const checkpoint = 'checkpoint' in result ? result.checkpoint : undefined;
+    job.complete = !checkpoint;
+    if (checkpoint) {
+      job.resumeToken = await saveCheckpoint(checkpoint);
+      if (checkpoint.error) job.errors.push(checkpoint.error);
+    }
+    job.libraryScrapeId = await saveToLibrary(job.boardUrl, job.boardInfo, job.images, `job-${job.method}`, !job.complete);
+    job.status = 'completed';
+  } catch (error) {
+    if (controller.signal.aborted) {
+      job.status = 'cancelled';
+    } else {
+      job.status = 'failed';
+      job.errors.push(error instanceof Error ? error.message : 'Unknown error');
+    }
+  } finally {
+    job.finishedAt = new Date().toISOString();
+    touch(job);
+    console.log(`🧵 Job ${job.id} ${job.status}${job.complete === false ? ' (partial)' : ''}: ${job.images.length} pins, ${job.pagesFetched} pages`);
+  }
+}
+
+/**
+ * Create a job and start it in the background
+ */
+export function createJob(boardUrl: string, method: JobMethod = 'scrape', maxPages: number = 20): ScrapeJob {
+  pruneJobs();
+
+  const now = new Date().toISOString();
+  const job: ScrapeJob = {
+    id: randomUUID(),
+    boardUrl,
+    method,
+    maxPages,
+    status: 'queued',
+    createdAt: now,
+    updatedAt: now,
+    pagesFetched: 0,
+    images: [],
+    errors: []
+  };
+  const entry: JobEntry = { job, controller: new AbortController() };
+  jobs.set(job.id, entry);
+
+  // Intentionally not awaited: the job outlives the request that created it
+  void runJob(entry);
+
+  return job;
+}
+
+export function getJob(id: string): ScrapeJob | undefined {
+  return jobs.get(id)?.job;
+}
+
+export function summarizeJob(job: ScrapeJob): JobSummary {
+  const { images, ...rest } = job;
+  return { ...rest, pinCount: images.length };
+}
+
+export function listJobs(): JobSummary[] {
+  pruneJobs();
+  return Array.from(jobs.values())
+    .map(({ job }) => summarizeJob(job))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Request cancellation; returns false if the job is unknown
+ */
+export function cancelJob(id: string): boolean {
+  const entry = jobs.get(id);
+  if (!entry) return false;
+  if (!isFinished(entry.job.status)) {
+    entry.controller.abort();
+  }
+  return true;
+}
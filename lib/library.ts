@@ -0,0 +1,486 @@
+/**
+ * Local library of scraped boards and pins
+ * SQLite via sql.js (WebAssembly, no native build) persisted to a single file in the data dir,
+ * so it runs anywhere Node does. Every scrape is stored as a snapshot that can be re-opened later.
+ */
+
+import path from 'path';
+import { promises as fs } from 'fs';
+import initSqlJs from 'sql.js';
+import type { Database, SqlValue } from 'sql.js';
+import { ensureDataDir } from './data-dir';
+import { parseBoardUrl, parseSearchUrl } from './scraper';
+import type { PinterestImage, BoardInfo } from './scraper';
+
+export interface LibraryBoard {
+  id: string;
+  name: string;
+  url: string;
+  owner: string;
+  pinCount: number;
+  firstSeen: string;
+  lastSeen: string;
+  scrapeCount: number;
+}
+
+export interface LibraryScrape {
+  id: number;
+  boardId: string;
+  boardUrl: string;
+  source: string;
+  pinCount: number;
+  createdAt: string;
+  partial: boolean; // stopped before the end of the board, so pins it lacks weren't necessarily removed
+}
+
+export interface LibraryPin extends PinterestImage {
+  boardId: string;
+  firstSeen: string;
+  lastSeen: string;
+}
+
+export interface RetitledPin {
+  pin: PinterestImage;
+  previousTitle: string;
+  title: string;
+}
+
+export interface ScrapeDiff {
+  boardId: string;
+  from: LibraryScrape;
+  to: LibraryScrape;
+  added: PinterestImage[];
+  removed: PinterestImage[];
+  retitled: RetitledPin[];
+  unchangedCount: number;
+}
+
+export interface TimelineEntry extends LibraryScrape {
+  // Changes relative to the previous complete scrape of the same board (zero for the first one and
+  // for partial scrapes)
+  added: number;
+  removed: number;
+  retitled: number;
+}
+
+export class LibraryBoardMismatchError extends Error {
+  constructor(fromBoard: string, toBoard: string) {
+    super(`Scrapes belong to different boards (${fromBoard} and ${toBoard})`);
+    this.name = 'LibraryBoardMismatchError';
+  }
+}
+
+export class LibraryPartialScrapeError extends Error {
+  constructor(scrapeId: number) {
+    super(`Scrape ${scrapeId} is partial (pagination stopped early) and can't be diffed`);
+    this.name = 'LibraryPartialScrapeError';
+  }
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS boards (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    url TEXT NOT NULL,
+    owner TEXT NOT NULL,
+    pin_count INTEGER NOT NULL,
+    first_seen TEXT NOT NULL,
+    last_seen TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS pins (
+    board_id TEXT NOT NULL,
+    id TEXT NOT NULL,
+    title TEXT,
+    description TEXT,
+    data TEXT NOT NULL,
+    first_seen TEXT NOT NULL,
+    last_seen TEXT NOT NULL,
+    PRIMARY KEY (board_id, id)
+  );
+  CREATE TABLE IF NOT EXISTS scrapes (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    board_id TEXT NOT NULL,
+    board_url TEXT NOT NULL,
+    source TEXT NOT NULL,
+    pin_count INTEGER NOT NULL,
+    board_json TEXT,
+    created_at TEXT NOT NULL,
+    partial INTEGER NOT NULL DEFAULT 0
+  );
+  CREATE TABLE IF NOT EXISTS scrape_pins (
+    scrape_id INTEGER NOT NULL,
+    pin_id TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    title TEXT,
+    data TEXT NOT NULL,
+    PRIMARY KEY (scrape_id, pin_id)
+  );
+  CREATE INDEX IF NOT EXISTS idx_scrapes_board ON scrapes (board_id, created_at);
+`;
+
+// One database per process; kept on globalThis so dev-mode reloads don't reopen it
+const globalForLibrary = globalThis as unknown as { __pinLibrary?: Promise<Database>, __pinLibraryWrites?: Promise<void> };
+
+async function libraryFile(): Promise<string> {
+  return path.join(await ensureDataDir(), 'library.sqlite');
+}
+
+async function openDatabase(): Promise<Database> {
+  const SQL = await initSqlJs();
+  const file = await libraryFile();
+  const existing = await fs.readFile(file).catch(() => null);
+  const db = existing ? new SQL.Database(existing) : new SQL.Database();
+  db.run(SCHEMA);
+  migrate(db);
+  return db;
+}
+
+/**
+ * Bring a library written by an older version up to the current schema
+ */
+function migrate(db: Database): void {
+  const scrapeColumns = queryAll(db, 'PRAGMA table_info(scrapes)').map(row => String(row.name));
+  if (!scrapeColumns.includes('partial')) {
+    db.run('ALTER TABLE scrapes ADD COLUMN partial INTEGER NOT NULL DEFAULT 0');
+    // Before the column, /api/scrape marked scrapes that stopped early with a source of its own
+    db.run("UPDATE scrapes SET partial = 1, source = 'scrape' WHERE source = 'scrape-partial'");
+  }
+}
+
+function getDatabase(): Promise<Database> {
+  if (!globalForLibrary.__pinLibrary) {
+    globalForLibrary.__pinLibrary = openDatabase().catch((error) => {
+      globalForLibrary.__pinLibrary = undefined;
+      throw error;
+    });
+  }
+  return globalForLibrary.__pinLibrary;
+}
+
+/**
+ * Write the in-memory database back to disk (serialized, atomic rename)
+ */
+function persist(db: Database): Promise<void> {
+  const previous = globalForLibrary.__pinLibraryWrites ?? Promise.resolve();
+  const next = previous.then(async () => {
+    const file = await libraryFile();
+    const tmp = `${file}.tmp`;
+    await fs.writeFile(tmp, db.export());
+    await fs.rename(tmp, file);
+  });
+  globalForLibrary.__pinLibraryWrites = next.catch(() => {});
+  return next;
+}
+
+function queryAll(db: Database, sql: string, params: SqlValue[] = []): Record<string, SqlValue>[] {
+  const stmt = db.prepare(sql);
+  try {
+    stmt.bind(params);
+    const rows: Record<string, SqlValue>[] = [];
+    while (stmt.step()) rows.push(stmt.getAsObject());
+    return rows;
+  } finally {
+    stmt.free();
+  }
+}
+
+/**
+ * Library key for a board: the real Pinterest id when known, otherwise username:slug from the URL
+ * (extractors fall back to generated ids, which would create a new board on every scrape)
+ */
+export function libraryBoardId(boardUrl: string, boardInfo?: BoardInfo): string {
+  if (boardInfo?.id && /^\d+$/.test(boardInfo.id)) return boardInfo.id;
+  // Each search query is its own "board"
+  const search = parseSearchUrl(boardUrl);
+  if (search) return `search:${search.query.toLowerCase()}`;
+  const parts = parseBoardUrl(boardUrl);
+  if (!parts) return boardUrl;
+  // Sections are tracked separately so a section scrape doesn't read as pins removed from the board
+  return (parts.section ? `${parts.username}:${parts.slug}:${parts.section}` : `${parts.username}:${parts.slug}`).toLowerCase();
+}
+
+function toBoard(row: Record<string, SqlValue>): LibraryBoard {
+  return {
+    id: String(row.id),
+    name: String(row.name),
+    url: String(row.url),
+    owner: String(row.owner),
+    pinCount: Number(row.pin_count),
+    firstSeen: String(row.first_seen),
+    lastSeen: String(row.last_seen),
+    scrapeCount: Number(row.scrape_count ?? 0)
+  };
+}
+
+function toScrape(row: Record<string, SqlValue>): LibraryScrape {
+  return {
+    id: Number(row.id),
+    boardId: String(row.board_id),
+    boardUrl: String(row.board_url),
+    source: String(row.source),
+    pinCount: Number(row.pin_count),
+    createdAt: String(row.created_at),
+    partial: Number(row.partial) === 1
+  };
+}
+
+/**
+ * Record a scrape: upsert the board and its pins (first/last seen) and store the snapshot
+ * `partial` marks a scrape that stopped before the end of the board (page budget, HTTP error, a
+ * chain that didn't reach the board's pin count), so the pins it lacks aren't read as removed
+ */
+export async function recordScrape(
+  boardUrl: string,
+  boardInfo: BoardInfo | undefined,
+  images: PinterestImage[],
+  source: string,
+  partial: boolean
+): Promise<number> {
+  const db = await getDatabase();
+  const now = new Date().toISOString();
+  const boardId = libraryBoardId(boardUrl, boardInfo);
+  const parts = parseBoardUrl(boardUrl);
+
+  let scrapeId: number;
+  db.run('BEGIN');
+  try {
+    db.run(
+      `INSERT INTO boards (id, name, url, owner, pin_count, first_seen, last_seen)
+       VALUES (?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT(id) DO UPDATE SET name = excluded.name, url = excluded.url, owner = excluded.owner,
+         pin_count = excluded.pin_count, last_seen = excluded.last_seen`,
+      [
+        boardId,
+        boardInfo?.name || parts?.slug || 'Unknown Board',
+        boardUrl,
+        boardInfo?.owner || parts?.username || '',
+        boardInfo?.pinCount || images.length,
+        now,
+        now
+      ]
+    );
+
+    db.run(
+      'INSERT INTO scrapes (board_id, board_url, source, pin_count, board_json, created_at, partial) VALUES (?, ?, ?, ?, ?, ?, ?)',
+      [boardId, boardUrl, source, images.length, boardInfo ? JSON.stringify(boardInfo) : null, now, partial ? 1 : 0]
+    );
+    scrapeId = Number(db.exec('SELECT last_insert_rowid()')[0].values[0][0]);
+
+    images.forEach((image, position) => {
+      const data = JSON.stringify(image);
+      db.run(
+        `INSERT INTO pins (board_id, id, title, description, data, first_seen, last_seen)
+         VALUES (?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT(board_id, id) DO UPDATE SET title = excluded.title, description = excluded.description,
+           data = excluded.data, last_seen = excluded.last_seen`,
+        [boardId, image.id, image.title || '', image.description || '', data, now, now]
+      );
+      db.run(
+        'INSERT OR IGNORE INTO scrape_pins (scrape_id, pin_id, position, title, data) VALUES (?, ?, ?, ?, ?)',
+        [scrapeId, image.id, position, image.title || '', data]
+      );
+    });
+
+    db.run('COMMIT');
+  } catch (error) {
+    db.run('ROLLBACK');
+    throw error;
+  }
+
+  await persist(db);
+  console.log(`📚 Library: recorded ${partial ? 'partial ' : ''}scrape ${scrapeId} for board ${boardId} (${images.length} pins)`);
+  return scrapeId;
+}
+
+/**
+ * Best-effort recording for the scrape routes: library failures never fail a scrape
+ */
+export async function saveToLibrary(
+  boardUrl: string,
+  boardInfo: BoardInfo | undefined,
+  images: PinterestImage[],
+  source: string,
+  partial: boolean
+): Promise<number | undefined> {
+  if (images.length === 0) return undefined;
+  try {
+    return await recordScrape(boardUrl, boardInfo, images, source, partial);
+  } catch (error) {
+    console.error('Library: failed to record scrape:', error);
+    return undefined;
+  }
+}
+
+export async function listBoards(): Promise<LibraryBoard[]> {
+  const db = await getDatabase();
+  return queryAll(
+    db,
+    `SELECT b.*, (SELECT COUNT(*) FROM scrapes s WHERE s.board_id = b.id) AS scrape_count
+     FROM boards b ORDER BY b.last_seen DESC`
+  ).map(toBoard);
+}
+
+export async function getBoard(id: string): Promise<{ board: LibraryBoard, scrapes: LibraryScrape[] } | null> {
+  const db = await getDatabase();
+  const rows = queryAll(
+    db,
+    `SELECT b.*, (SELECT COUNT(*) FROM scrapes s WHERE s.board_id = b.id) AS scrape_count
+     FROM boards b WHERE b.id = ?`,
+    [id]
+  );
+  if (rows.length === 0) return null;
+  const scrapes = queryAll(db, 'SELECT * FROM scrapes WHERE board_id = ? ORDER BY created_at DESC, id DESC', [id]).map(toScrape);
+  return { board: toBoard(rows[0]), scrapes };
+}
+
+/**
+ * Query stored pins, optionally by board and a title/description search
+ */
+export async function queryPins(
+  filter: { boardId?: string, q?: string, limit?: number, offset?: number } = {}
+): Promise<{ pins: LibraryPin[], total: number }> {
+  const db = await getDatabase();
+  const where: string[] = [];
+  const params: SqlValue[] = [];
+
+  if (filter.boardId) {
+    where.push('board_id = ?');
+    params.push(filter.boardId);
+  }
+  if (filter.q) {
+    where.push('(title LIKE ? OR description LIKE ?)');
+    params.push(`%${filter.q}%`, `%${filter.q}%`);
+  }
+  const whereSql = where.length ? `WHERE ${where.join(' AND ')}` : '';
+  const limit = Math.min(Math.max(filter.limit ?? 100, 1), 1000);
+  const offset = Math.max(filter.offset ?? 0, 0);
+
+  const total = Number(queryAll(db, `SELECT COUNT(*) AS n FROM pins ${whereSql}`, params)[0]?.n ?? 0);
+  const pins = queryAll(
+    db,
+    `SELECT * FROM pins ${whereSql} ORDER BY last_seen DESC, id LIMIT ? OFFSET ?`,
+    [...params, limit, offset]
+  ).map(row => ({
+    ...(JSON.parse(String(row.data)) as PinterestImage),
+    boardId: String(row.board_id),
+    firstSeen: String(row.first_seen),
+    lastSeen: String(row.last_seen)
+  }));
+
+  return { pins, total };
+}
+
+/**
+ * Re-open a stored scrape exactly as it was captured
+ */
+export async function getScrape(
+  id: number
+): Promise<{ scrape: LibraryScrape, boardInfo?: BoardInfo, images: PinterestImage[] } | null> {
+  const db = await getDatabase();
+  const rows = queryAll(db, 'SELECT * FROM scrapes WHERE id = ?', [id]);
+  if (rows.length === 0) return null;
+
+  const images = queryAll(db, 'SELECT data FROM scrape_pins WHERE scrape_id = ? ORDER BY position', [id])
+    .map(row => JSON.parse(String(row.data)) as PinterestImage);
+  const boardJson = rows[0].board_json;
+
+  return {
+    scrape: toScrape(rows[0]),
+    boardInfo: boardJson ? JSON.parse(String(boardJson)) as BoardInfo : undefined,
+    images
+  };
+}
+
+type SnapshotPins = Map<string, { title: string, image: PinterestImage }>;
+
+function loadSnapshotPins(db: Database, scrapeId: number): SnapshotPins {
+  const pins: SnapshotPins = new Map();
+  for (const row of queryAll(db, 'SELECT pin_id, title, data FROM scrape_pins WHERE scrape_id = ? ORDER BY position', [scrapeId])) {
+    pins.set(String(row.pin_id), { title: String(row.title ?? ''), image: JSON.parse(String(row.data)) as PinterestImage });
+  }
+  return pins;
+}
+
+/**
+ * Pins added, removed and retitled going from one snapshot to another
+ */
+function compareSnapshots(from: SnapshotPins, to: SnapshotPins) {
+  const added: PinterestImage[] = [];
+  const removed: PinterestImage[] = [];
+  const retitled: RetitledPin[] = [];
+  let unchangedCount = 0;
+
+  for (const [id, current] of to) {
+    const previous = from.get(id);
+    if (!previous) {
+      added.push(current.image);
+    } else if (previous.title !== current.title) {
+      retitled.push({ pin: current.image, previousTitle: previous.title, title: current.title });
+    } else {
+      unchangedCount++;
+    }
+  }
+  for (const [id, previous] of from) {
+    if (!to.has(id)) removed.push(previous.image);
+  }
+
+  return { added, removed, retitled, unchangedCount };
+}
+
+/**
+ * Diff two stored complete scrapes of the same board; null when either scrape is unknown
+ */
+export async function diffScrapes(fromId: number, toId: number): Promise<ScrapeDiff | null> {
+  const db = await getDatabase();
+  const fromRows = queryAll(db, 'SELECT * FROM scrapes WHERE id = ?', [fromId]);
+  const toRows = queryAll(db, 'SELECT * FROM scrapes WHERE id = ?', [toId]);
+  if (fromRows.length === 0 || toRows.length === 0) return null;
+
+  const from = toScrape(fromRows[0]);
+  const to = toScrape(toRows[0]);
+  if (from.boardId !== to.boardId) {
+    throw new LibraryBoardMismatchError(from.boardId, to.boardId);
+  }
+  const partial = [from, to].find(scrape => scrape.partial);
+  if (partial) {
+    throw new LibraryPartialScrapeError(partial.id);
+  }
+
+  return {
+    boardId: from.boardId,
+    from,
+    to,
+    ...compareSnapshots(loadSnapshotPins(db, fromId), loadSnapshotPins(db, toId))
+  };
+}
+
+/**
+ * Every scrape of a board, oldest first, with change counts against the previous complete scrape;
+ * partial scrapes are listed but neither compared nor used as the baseline
+ */
+export async function getBoardTimeline(boardId: string): Promise<{ board: LibraryBoard, timeline: TimelineEntry[] } | null> {
+  const result = await getBoard(boardId);
+  if (!result) return null;
+
+  const db = await getDatabase();
+  const timeline: TimelineEntry[] = [];
+  let previous: SnapshotPins | undefined;
+
+  for (const scrape of [...result.scrapes].reverse()) {
+    if (scrape.partial) {
+      timeline.push({ ...scrape, added: 0, removed: 0, retitled: 0 });
+      continue;
+    }
+    const current = loadSnapshotPins(db, scrape.id);
+    const changes = previous ? compareSnapshots(previous, current) : undefined;
+    timeline.push({
+      ...scrape,
+      added: changes?.added.length ?? 0,
+      removed: changes?.removed.length ?? 0,
+      retitled: changes?.retitled.length ?? 0
+    });
+    previous = current;
+  }
+
+  return { board: result.board, timeline };
+}
@@ -0,0 +1,78 @@
+/**
+ * File naming helpers shared by the download paths
+ */
+
+import type { PinterestImage } from './scraper';
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/jpg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/avif': 'avif',
+  'image/svg+xml': 'svg',
+  'video/mp4': 'mp4',
+  'video/webm': 'webm'
+};
+
+/**
+ * File extension for a downloaded file: from its content type, else from the URL, else `fallback`
+ */
+export function extensionFor(contentType: string | null | undefined, url?: string, fallback: string = 'jpg'): string {
+  const type = (contentType || '').split(';')[0].trim().toLowerCase();
+  if (EXTENSIONS[type]) return EXTENSIONS[type];
+
+  const match = url?.split('?')[0].match(/\.([a-z0-9]{2,5})$/i);
+  return match ? match[1].toLowerCase().replace('jpeg', 'jpg') : fallback;
+}
+
+export type DownloadSize = 'medium' | 'large' | 'original';
+export type VideoMode = 'mp4' | 'poster';
+
+/**
+ * One file of a pin download; the extension is added once the content type is known
+ */
+export interface DownloadFile {
+  pinId: string;
+  url?: string;
+  asVideo: boolean;
+  basename: string;
+  folder?: string; // section subfolder
+}
+
+/**
+ * Folder name for a board section (characters not allowed in file names replaced)
+ */
+export function sectionFolderName(title: string): string {
+  return title.replace(/[\\/:*?"<>|]+/g, '_').trim() || 'section';
+}
+
+/**
+ * Files for one pin: multi-image pins get one file per page/slot (pinId_01, pinId_02, ...),
+ * single pins are numbered by their position in the download (001_pinterest_<id>)
+ */
+export function downloadFilesFor(
+  image: PinterestImage,
+  index: number,
+  size: DownloadSize,
+  videoMode: VideoMode,
+  sectionTitle?: string
+): DownloadFile[] {
+  const media = image.children && image.children.length > 1 ? image.children : [image];
+  const folder = sectionTitle ? sectionFolderName(sectionTitle) : undefined;
+  return media.map((item, childIdx) => {
+    // Video pins download their MP4 unless the poster image was chosen
+    const asVideo = videoMode === 'mp4' && !!item.video?.mp4;
+    return {
+      pinId: image.id,
+      // GIF pins only animate at their original size
+      url: asVideo ? item.video?.mp4 : image.mediaType === 'gif' ? item.original : item[size],
+      asVideo,
+      basename: media.length > 1
+        ? `${image.id}_${String(childIdx + 1).padStart(2, '0')}`
+        : `${String(index + 1).padStart(3, '0')}_pinterest_${image.id}`,
+      folder
+    };
+  });
+}
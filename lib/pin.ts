@@ -0,0 +1,155 @@
+/**
+ * Single pins and pin.it short links
+ * Short links are resolved by following redirects; a pin is read from PinResource, falling back
+ * to the pin page's embedded data, and mapped with the same extractor the board scraper uses.
+ */
+
+import { extractImageFromPin, classifyPinterestUrl } from './scraper';
+import type { PinterestImage, PinterestUrlKind, ScrapeOptions } from './scraper';
+import { transportFetch } from './transport';
+
+export interface PinBoardRef {
+  id: string;
+  name: string;
+  url: string; // absolute board URL
+  pinCount?: number;
+  owner?: string;
+}
+
+export interface PinDetails {
+  image: PinterestImage; // includes the pin's metadata (link, pinner, sizes, counts...)
+  pinUrl: string;
+  board?: PinBoardRef;
+}
+
+// The parts of Pinterest's pin JSON read here; extractImageFromPin reads the rest
+interface RawPin {
+  id?: string | number;
+  images?: unknown;
+  board?: { id?: string | number, name?: string, url?: string, pin_count?: number, owner?: { username?: string } };
+}
+
+/**
+ * Follow a pin.it short link to the pinterest.com URL it points at
+ */
+export async function resolveShortLink(shortUrl: string, options: Pick<ScrapeOptions, 'signal' | 'transport'> = {}): Promise<string> {
+  const url = shortUrl.startsWith('http') ? shortUrl : `https://${shortUrl}`;
+  const response = await transportFetch(options.transport, url, {
+    headers: { 'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8' },
+    redirect: 'follow',
+    signal: options.signal
+  });
+  // Only the final URL matters
+  await response.body?.cancel().catch(() => {});
+
+  const resolved = new URL(response.url);
+  if (!resolved.hostname.endsWith('pinterest.com')) {
+    throw new Error(`Short link did not resolve to Pinterest (${response.status} ${resolved.hostname})`);
+  }
+  // Drop tracking parameters added by the share sheet
+  resolved.search = '';
+  return resolved.toString();
+}
+
+/**
+ * Resolve short links and classify the result
+ */
+export async function resolvePinterestUrl(
+  value: string,
+  options: Pick<ScrapeOptions, 'signal' | 'transport'> = {}
+): Promise<{ resolvedUrl: string, target: PinterestUrlKind | null }> {
+  const initial = classifyPinterestUrl(value);
+  if (initial?.kind !== 'short') {
+    return { resolvedUrl: value, target: initial };
+  }
+  const resolvedUrl = await resolveShortLink(value, options);
+  console.log(`🔗 Resolved short link ${value} → ${resolvedUrl}`);
+  return { resolvedUrl, target: classifyPinterestUrl(resolvedUrl) };
+}
+
+/**
+ * Map a Pinterest pin object to the full-resolution ladder plus its board
+ */
+function toPinDetails(pin: RawPin | undefined, pinId: string): PinDetails | null {
+  if (!pin) return null;
+  const image = extractImageFromPin(pin);
+  if (!image) return null;
+
+  const board = pin.board?.id && typeof pin.board.url === 'string'
+    ? {
+      id: String(pin.board.id),
+      name: pin.board.name || '',
+      url: pin.board.url.startsWith('http') ? pin.board.url : `https://www.pinterest.com${pin.board.url}`,
+      pinCount: typeof pin.board.pin_count === 'number' ? pin.board.pin_count : undefined,
+      owner: pin.board.owner?.username
+    }
+    : undefined;
+
+  return {
+    image,
+    pinUrl: `https://www.pinterest.com/pin/${pinId}/`,
+    board
+  };
+}
+
+/**
+ * Find the pin object with the given id in embedded page data
+ */
+function findPinById(obj: unknown, pinId: string, depth: number = 0): RawPin | undefined {
+  if (!obj || typeof obj !== 'object' || depth > 15) return undefined;
+  const node = obj as RawPin;
+  if (String(node.id) === pinId && node.images) return node;
+  for (const value of Object.values(obj)) {
+    const found = findPinById(value, pinId, depth + 1);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+/**
+ * Fetch one pin with its resolution ladder, metadata and board
+ */
+export async function fetchPin(pinId: string, options: Pick<ScrapeOptions, 'signal' | 'transport'> = {}): Promise<PinDetails | null> {
+  try {
+    const params = new URLSearchParams({
+      source_url: `/pin/${pinId}/`,
+      data: JSON.stringify({ options: { id: pinId, field_set_key: 'detailed' }, context: {} })
+    });
+    const response = await transportFetch(options.transport, `https://www.pinterest.com/resource/PinResource/get/?${params.toString()}`, {
+      headers: {
+        'Accept': 'application/json, text/javascript, */*; q=0.01',
+        'X-Requested-With': 'XMLHttpRequest',
+        'X-Pinterest-AppState': 'active',
+        'Referer': `https://www.pinterest.com/pin/${pinId}/`
+      },
+      signal: options.signal
+    });
+    if (response.ok) {
+      const data = await response.json();
+      const details = toPinDetails(data.resource_response?.data, pinId);
+      if (details) return details;
+    }
+    console.log(`PinResource returned no pin (${response.status}), falling back to pin page`);
+  } catch (error) {
+    options.signal?.throwIfAborted();
+    console.log('PinResource failed, falling back to pin page:', error instanceof Error ? error.message : error);
+  }
+
+  const response = await transportFetch(options.transport, `https://www.pinterest.com/pin/${pinId}/`, {
+    headers: { 'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8' },
+    signal: options.signal
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch pin: ${response.status}`);
+  }
+
+  const html = await response.text();
+  const pwsDataMatch = html.match(/<script[^>]*id="__PWS_DATA__"[^>]*>([^<]+)<\/script>/);
+  if (!pwsDataMatch) return null;
+  try {
+    return toPinDetails(findPinById(JSON.parse(pwsDataMatch[1]), pinId), pinId);
+  } catch (e) {
+    console.error('Failed to parse pin __PWS_DATA__:', e);
+    return null;
+  }
+}
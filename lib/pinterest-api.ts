@@ -0,0 +1,525 @@
+/**
+ * Official Pinterest API v5 client with OAuth
+ * Authorization-code flow; the access/refresh tokens are stored encrypted (see ./secure-store) and
+ * refreshed shortly before they expire. A static PINTEREST_ACCESS_TOKEN still works without OAuth.
+ * PINTEREST_API_BASE_URL and PINTEREST_OAUTH_URL point the client at a local mock (see ./fake-pinterest-api).
+ */
+
+import { randomBytes } from 'crypto';
+import { readEncryptedJson, writeEncryptedJson, deleteEncrypted } from './secure-store';
+import { transformImageUrl, parseBoardUrl } from './scraper';
+import type { PinterestImage, PinChildImage, PinMediaType, BoardInfo, BoardSection, ScrapeOptions } from './scraper';
+
+export interface OAuthTokens {
+  accessToken: string;
+  refreshToken?: string;
+  expiresAt?: string; // access token expiry
+  refreshTokenExpiresAt?: string;
+  scope?: string;
+  obtainedAt: string;
+}
+
+export interface ApiBoard {
+  id: string;
+  name: string;
+  owner: string;
+  pinCount: number;
+  privacy?: string;
+}
+
+export interface ApiConnectionStatus {
+  configured: boolean; // app id/secret set, so OAuth can be started
+  connected: boolean; // a usable token exists (OAuth or PINTEREST_ACCESS_TOKEN)
+  source?: 'oauth' | 'env';
+  expiresAt?: string;
+  scope?: string;
+}
+
+// v5 response payloads (only the fields read here; Pinterest may omit any of them)
+interface V5Image {
+  url?: string;
+  width?: number;
+  height?: number;
+}
+
+type V5ImageMap = Record<string, V5Image | undefined>;
+
+export interface V5Pin {
+  id?: string;
+  title?: string;
+  alt_text?: string;
+  description?: string;
+  link?: string;
+  board_id?: string;
+  board_section_id?: string;
+  dominant_color?: string;
+  created_at?: string;
+  media?: {
+    media_type?: string;
+    images?: V5ImageMap;
+    cover_image_url?: string;
+    items?: { title?: string, images?: V5ImageMap }[];
+  };
+  pin_metrics?: { all_time?: { save?: number } };
+}
+
+interface V5Board {
+  id: string;
+  name?: string;
+  owner?: { username?: string };
+  pin_count?: number;
+  privacy?: string;
+}
+
+interface V5Section {
+  id: string;
+  name?: string;
+  pin_count?: number;
+}
+
+export interface V5UserAccount {
+  id?: string;
+  username?: string;
+  account_type?: string;
+}
+
+interface V5Page<T> {
+  items?: T[];
+  bookmark?: string | null;
+}
+
+interface V5TokenResponse {
+  access_token: string;
+  refresh_token?: string;
+  expires_in?: number;
+  refresh_token_expires_in?: number;
+  scope?: string;
+}
+
+export class PinterestApiError extends Error {
+  constructor(message: string, public status: number, public details?: string) {
+    super(message);
+    this.name = 'PinterestApiError';
+  }
+}
+
+const TOKEN_FILE = 'pinterest-oauth.enc';
+export const OAUTH_STATE_COOKIE = 'pinterest_oauth_state';
+const OAUTH_SCOPES = ['boards:read', 'boards:read_secret', 'pins:read', 'pins:read_secret', 'user_accounts:read'];
+// Refresh this long before the access token runs out
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+const globalForTokens = globalThis as unknown as {
+  __pinterestOAuth?: OAuthTokens | null;
+  __pinterestOAuthRefresh?: Promise<OAuthTokens>; // the refresh in flight, shared by every caller
+};
+
+export function apiBaseUrl(): string {
+  return (process.env.PINTEREST_API_BASE_URL || 'https://api.pinterest.com/v5').replace(/\/+$/, '');
+}
+
+function oauthConfig() {
+  return {
+    clientId: process.env.PINTEREST_APP_ID,
+    clientSecret: process.env.PINTEREST_APP_SECRET,
+    redirectUri: process.env.PINTEREST_REDIRECT_URI,
+    authorizeUrl: process.env.PINTEREST_OAUTH_URL || 'https://www.pinterest.com/oauth/'
+  };
+}
+
+export function isOAuthConfigured(): boolean {
+  const { clientId, clientSecret, redirectUri } = oauthConfig();
+  return Boolean(clientId && clientSecret && redirectUri);
+}
+
+/**
+ * Random state for the authorization request (checked again in the callback)
+ */
+export function createOAuthState(): string {
+  return randomBytes(16).toString('hex');
+}
+
+/**
+ * Where to send the user to grant access
+ */
+export function authorizationUrl(state: string): string {
+  const { clientId, redirectUri, authorizeUrl } = oauthConfig();
+  if (!clientId || !redirectUri) {
+    throw new Error('PINTEREST_APP_ID and PINTEREST_REDIRECT_URI must be set');
+  }
+  const params = new URLSearchParams({
+    client_id: clientId,
+    redirect_uri: redirectUri,
+    response_type: 'code',
+    scope: OAUTH_SCOPES.join(','),
+    state
+  });
+  return `${authorizeUrl}?${params.toString()}`;
+}
+
+async function loadTokens(): Promise<OAuthTokens | null> {
+  if (globalForTokens.__pinterestOAuth === undefined) {
+    globalForTokens.__pinterestOAuth = await readEncryptedJson<OAuthTokens>(TOKEN_FILE);
+  }
+  return globalForTokens.__pinterestOAuth;
+}
+
+async function saveTokens(tokens: OAuthTokens): Promise<void> {
+  await writeEncryptedJson(TOKEN_FILE, tokens);
+  globalForTokens.__pinterestOAuth = tokens;
+}
+
+export async function disconnectOAuth(): Promise<void> {
+  await deleteEncrypted(TOKEN_FILE);
+  globalForTokens.__pinterestOAuth = null;
+}
+
+/**
+ * POST to the token endpoint (code exchange or refresh)
+ */
+async function requestTokens(form: Record<string, string>, previous?: OAuthTokens): Promise<OAuthTokens> {
+  const { clientId, clientSecret } = oauthConfig();
+  if (!clientId || !clientSecret) {
+    throw new Error('PINTEREST_APP_ID and PINTEREST_APP_SECRET must be set');
+  }
+
+  const response = await fetch(`${apiBaseUrl()}/oauth/token`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Basic ${Buffer.from(`${clientId}:${clientSecret}`).toString('base64')}`,
+      'Content-Type': 'application/x-www-form-urlencoded',
+      'Accept': 'application/json'
+    },
+    body: new URLSearchParams(form).toString()
+  });
+  if (!response.ok) {
+    throw new PinterestApiError(`Token request failed: ${response.status}`, response.status, await response.text().catch(() => ''));
+  }
+
+  const data: V5TokenResponse = await response.json();
+  const now = Date.now();
+  return {
+    accessToken: data.access_token,
+    // Refresh responses may omit the refresh token, which then stays valid
+    refreshToken: data.refresh_token ?? previous?.refreshToken,
+    expiresAt: data.expires_in ? new Date(now + data.expires_in * 1000).toISOString() : undefined,
+    refreshTokenExpiresAt: data.refresh_token_expires_in
+      ? new Date(now + data.refresh_token_expires_in * 1000).toISOString()
+      : previous?.refreshTokenExpiresAt,
+    scope: data.scope ?? previous?.scope,
+    obtainedAt: new Date(now).toISOString()
+  };
+}
+
+/**
+ * Exchange the authorization code from the OAuth callback and store the tokens
+ */
+export async function exchangeAuthorizationCode(code: string): Promise<OAuthTokens> {
+  const tokens = await requestTokens({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: oauthConfig().redirectUri || ''
+  });
+  await saveTokens(tokens);
+  console.log('🔑 Pinterest API: connected via OAuth');
+  return tokens;
+}
+
+/**
+ * Refresh the stored tokens; concurrent callers wait for the same request, since Pinterest rotates
+ * the refresh token and a second refresh with the old one would fail
+ */
+function refreshTokens(tokens: OAuthTokens): Promise<OAuthTokens> {
+  if (!globalForTokens.__pinterestOAuthRefresh) {
+    globalForTokens.__pinterestOAuthRefresh = (async () => {
+      if (!tokens.refreshToken) throw new PinterestApiError('Access token expired and no refresh token is stored', 401);
+      const refreshed = await requestTokens({ grant_type: 'refresh_token', refresh_token: tokens.refreshToken }, tokens);
+      await saveTokens(refreshed);
+      console.log('🔑 Pinterest API: refreshed access token');
+      return refreshed;
+    })().finally(() => {
+      globalForTokens.__pinterestOAuthRefresh = undefined;
+    });
+  }
+  return globalForTokens.__pinterestOAuthRefresh;
+}
+
+/**
+ * Access token to retry with after `rejected` got a 401: the stored one if another request has
+ * already refreshed it, else a fresh one; undefined when there is nothing to refresh with
+ */
+async function tokenAfterUnauthorized(rejected: string): Promise<string | undefined> {
+  const tokens = await loadTokens();
+  if (!tokens) return undefined;
+  if (tokens.accessToken !== rejected && !globalForTokens.__pinterestOAuthRefresh) return tokens.accessToken;
+  if (!tokens.refreshToken) return undefined;
+  return (await refreshTokens(tokens)).accessToken;
+}
+
+/**
+ * A valid access token (refreshing the stored one when needed), or null when not connected
+ */
+export async function getAccessToken(): Promise<{ token: string, source: 'oauth' | 'env' } | null> {
+  let tokens = await loadTokens();
+  if (tokens) {
+    if (tokens.expiresAt && Date.parse(tokens.expiresAt) - Date.now() < REFRESH_MARGIN_MS) {
+      tokens = await refreshTokens(tokens);
+    }
+    return { token: tokens.accessToken, source: 'oauth' };
+  }
+  const envToken = process.env.PINTEREST_ACCESS_TOKEN;
+  if (envToken && envToken !== 'your_access_token_here') return { token: envToken, source: 'env' };
+  return null;
+}
+
+export async function getApiConnectionStatus(): Promise<ApiConnectionStatus> {
+  const tokens = await loadTokens();
+  const envToken = process.env.PINTEREST_ACCESS_TOKEN;
+  const source = tokens ? 'oauth' : envToken && envToken !== 'your_access_token_here' ? 'env' : undefined;
+  return {
+    configured: isOAuthConfigured(),
+    connected: Boolean(source),
+    source,
+    expiresAt: tokens?.expiresAt,
+    scope: tokens?.scope
+  };
+}
+
+/**
+ * GET a v5 endpoint; a 401 with a stored refresh token triggers one refresh and retry
+ */
+export async function apiGet<T>(path: string, params: Record<string, string> = {}, signal?: AbortSignal): Promise<T> {
+  const auth = await getAccessToken();
+  if (!auth) throw new PinterestApiError('Pinterest API is not connected', 401);
+
+  const query = new URLSearchParams(params).toString();
+  const url = `${apiBaseUrl()}${path}${query ? `?${query}` : ''}`;
+  const send = (token: string) => fetch(url, {
+    headers: { 'Authorization': `Bearer ${token}`, 'Accept': 'application/json' },
+    signal
+  });
+
+  let response = await send(auth.token);
+  if (response.status === 401 && auth.source === 'oauth') {
+    const token = await tokenAfterUnauthorized(auth.token);
+    if (token) {
+      await response.body?.cancel().catch(() => {});
+      response = await send(token);
+    }
+  }
+  if (!response.ok) {
+    throw new PinterestApiError(`Pinterest API ${path} failed: ${response.status}`, response.status, await response.text().catch(() => ''));
+  }
+  return response.json();
+}
+
+/**
+ * Follow v5 `bookmark` pagination, collecting `items` up to `limit`
+ */
+export async function apiList<T>(path: string, limit: number, signal?: AbortSignal, onPage?: (items: T[]) => void): Promise<T[]> {
+  const items: T[] = [];
+  let bookmark: string | undefined;
+  do {
+    const data = await apiGet<V5Page<T>>(path, { page_size: '100', ...(bookmark ? { bookmark } : {}) }, signal);
+    const page = Array.isArray(data?.items) ? data.items : [];
+    items.push(...page);
+    onPage?.(page);
+    bookmark = data?.bookmark || undefined;
+  } while (bookmark && items.length < limit);
+  return items.slice(0, limit);
+}
+
+/**
+ * v5 image map entry → URL; keys look like "150x150", "400x300", "600x", "1200x", "originals"
+ */
+function pickImage(images: V5ImageMap | undefined, keys: string[]): string | undefined {
+  for (const key of keys) {
+    const url = images?.[key]?.url;
+    if (url) return url;
+  }
+  return undefined;
+}
+
+function ladderFromV5(images: V5ImageMap | undefined): Omit<PinChildImage, 'title' | 'video'> | null {
+  const largest = pickImage(images, ['originals', '1200x', '600x', '400x300', '150x150']);
+  if (!largest) return null;
+  const large = pickImage(images, ['600x', '1200x', '400x300']) || largest;
+  const original = pickImage(images, ['originals'])
+    || (largest.includes('i.pinimg.com') ? transformImageUrl(largest, 'originals') : largest);
+  return {
+    thumbnail: pickImage(images, ['150x150', '400x300', '600x']) || largest,
+    medium: pickImage(images, ['400x300', '600x']) || largest,
+    large,
+    original
+  };
+}
+
+/**
+ * Map a v5 pin object to PinterestImage
+ */
+export function mapApiPin(pin: V5Pin): PinterestImage | null {
+  if (!pin?.id) return null;
+  const media = pin.media ?? {};
+  const items = Array.isArray(media.items) ? media.items : [];
+
+  // Carousels have no top-level images; the first slot stands in for the pin
+  const ladder = ladderFromV5(media.images)
+    ?? ladderFromV5(items[0]?.images)
+    ?? (media.cover_image_url ? { thumbnail: media.cover_image_url, medium: media.cover_image_url, large: media.cover_image_url, original: media.cover_image_url } : null);
+  if (!ladder) return null;
+
+  const children: PinChildImage[] = [];
+  for (const item of items) {
+    const childLadder = ladderFromV5(item.images);
+    if (childLadder) children.push({ ...childLadder, title: item.title || undefined });
+  }
+
+  // v5 only exposes the cover image for videos, so video pins carry no playable URLs
+  const mediaType: PinMediaType = media.media_type === 'video' ? 'video'
+    : media.media_type === 'multiple_images' || media.media_type === 'multiple_mixed' ? 'carousel'
+      : ladder.original.endsWith('.gif') ? 'gif' : 'image';
+
+  let domain: string | undefined;
+  try {
+    domain = pin.link ? new URL(pin.link).hostname.replace(/^www\./, '') : undefined;
+  } catch {
+    domain = undefined;
+  }
+
+  return {
+    id: String(pin.id),
+    url: ladder.original,
+    ...ladder,
+    title: pin.title || pin.alt_text || '',
+    description: pin.description || '',
+    boardId: pin.board_id ? String(pin.board_id) : undefined,
+    sectionId: pin.board_section_id ? String(pin.board_section_id) : undefined,
+    dominantColor: pin.dominant_color || undefined,
+    createdAt: pin.created_at || undefined,
+    link: pin.link || undefined,
+    domain,
+    saveCount: typeof pin.pin_metrics?.all_time?.save === 'number' ? pin.pin_metrics.all_time.save : undefined,
+    mediaType,
+    ...(children.length > 1 ? { children } : {})
+  };
+}
+
+function mapApiBoard(board: V5Board): ApiBoard {
+  return {
+    id: String(board.id),
+    name: board.name || '',
+    owner: board.owner?.username || '',
+    pinCount: Number(board.pin_count) || 0,
+    privacy: board.privacy
+  };
+}
+
+export async function listApiBoards(signal?: AbortSignal): Promise<ApiBoard[]> {
+  return (await apiList<V5Board>('/boards', 1000, signal)).map(mapApiBoard);
+}
+
+/**
+ * Find a board by the URL slug; v5 has no lookup by URL, so match the token owner's boards by name
+ */
+export async function findApiBoard(username: string, slug: string, signal?: AbortSignal): Promise<ApiBoard | undefined> {
+  const slugify = (value: string) => value.toLowerCase().trim().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  const wanted = slugify(decodeURIComponent(slug));
+  const boards = await listApiBoards(signal);
+  return boards.find(board => (!board.owner || board.owner.toLowerCase() === username.toLowerCase()) && slugify(board.name) === wanted);
+}
+
+export async function listApiBoardSections(boardId: string, signal?: AbortSignal): Promise<BoardSection[]> {
+  const sections = await apiList<V5Section>(`/boards/${encodeURIComponent(boardId)}/sections`, 1000, signal);
+  return sections.map(section => ({
+    id: String(section.id),
+    slug: String(section.name || section.id).toLowerCase().trim().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, ''),
+    title: section.name || 'Untitled section',
+    pinCount: Number(section.pin_count) || 0
+  }));
+}
+
+/**
+ * Every pin of a board (or one of its sections) via v5
+ */
+export async function listApiPins(
+  boardId: string,
+  options: Pick<ScrapeOptions, 'signal'> & { sectionId?: string, limit?: number, onPage?: (pins: PinterestImage[]) => void } = {}
+): Promise<PinterestImage[]> {
+  const path = options.sectionId
+    ? `/boards/${encodeURIComponent(boardId)}/sections/${encodeURIComponent(options.sectionId)}/pins`
+    : `/boards/${encodeURIComponent(boardId)}/pins`;
+  const toImages = (items: V5Pin[]) => items
+    .map(mapApiPin)
+    .filter((image): image is PinterestImage => !!image)
+    .map(image => (options.sectionId ? { ...image, sectionId: options.sectionId } : image));
+
+  const items = await apiList<V5Pin>(path, options.limit ?? 10000, options.signal, page => options.onPage?.(toImages(page)));
+  return toImages(items);
+}
+
+export function apiBoardInfo(board: ApiBoard, username: string, slug: string): BoardInfo {
+  return {
+    id: board.id,
+    name: board.name,
+    url: `/${board.owner || username}/${slug}/`,
+    pinCount: board.pinCount,
+    owner: board.owner || username
+  };
+}
+
+/**
+ * Scrape a board (or one section URL) through the v5 API; includeSections adds every section's pins
+ */
+export async function scrapeBoardWithApi(
+  boardUrl: string,
+  options: ScrapeOptions & { includeSections?: boolean } = {}
+): Promise<{ images: PinterestImage[], boardInfo: BoardInfo, sections?: BoardSection[] }> {
+  const parts = parseBoardUrl(boardUrl);
+  if (!parts) throw new Error('Not a board URL');
+
+  const board = await findApiBoard(parts.username, parts.slug, options.signal);
+  if (!board) {
+    throw new PinterestApiError(`Board "${parts.slug}" not found among the connected account's boards`, 404);
+  }
+  const boardInfo = apiBoardInfo(board, parts.username, parts.slug);
+
+  const images: PinterestImage[] = [];
+  const seenIds = new Set<string>();
+  let pagesFetched = 0;
+  const onPage = (pins: PinterestImage[]) => {
+    const added = pins.filter(pin => !seenIds.has(pin.id));
+    for (const pin of added) {
+      seenIds.add(pin.id);
+      images.push(pin);
+    }
+    pagesFetched++;
+    options.onProgress?.({ pagesFetched, pins: added, totalPins: images.length, boardInfo });
+  };
+
+  if (parts.section) {
+    const sections = await listApiBoardSections(board.id, options.signal);
+    const wanted = decodeURIComponent(parts.section).toLowerCase();
+    const section = sections.find(candidate => candidate.slug === wanted || candidate.title.toLowerCase() === wanted);
+    if (!section) throw new PinterestApiError(`Section "${parts.section}" not found on board`, 404);
+    await listApiPins(board.id, { sectionId: section.id, signal: options.signal, onPage });
+    return { images, boardInfo, sections: [section] };
+  }
+
+  await listApiPins(board.id, { signal: options.signal, onPage });
+
+  let sections: BoardSection[] | undefined;
+  if (options.includeSections) {
+    sections = await listApiBoardSections(board.id, options.signal);
+    for (const section of sections) {
+      const sectionPins = await listApiPins(board.id, { sectionId: section.id, signal: options.signal, onPage });
+      // Board-level listing already included these pins; record which section they belong to
+      for (const pin of sectionPins) {
+        const existing = images.find(image => image.id === pin.id);
+        if (existing && !existing.sectionId) existing.sectionId = section.id;
+      }
+    }
+  }
+
+  console.log(`🔑 Pinterest API: ${images.length} pins from board "${board.name}"`);
+  return { images, boardInfo, sections };
+}
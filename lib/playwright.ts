@@ -0,0 +1,946 @@
+/**
+ * Playwright-driven board scraping (browser automation + DOM harvest + in-page API)
+ * Falls back to a static HTML fetch when Playwright is not installed or fails to launch
+ */
+
+import { extractImagesFromHtml, extractImageFromPin, transformImageUrl, parseBoardUrl } from './scraper';
+import type { PinterestImage, BoardInfo, ScrapeOptions } from './scraper';
+import { getSessionCookies, sessionHeaders } from './session';
+import { createTransport, resolveImageUrl, resolveTransportUrl, transportFetch, PINTEREST_IMAGE_ORIGIN, PINTEREST_ORIGIN } from './transport';
+import { isRecordable } from './cassette';
+import { diagnoseResourcePage, mergeDiagnostics, recordDiagnostics } from './diagnostics';
+import type { ExtractionDiagnostics } from './diagnostics';
+
+export interface PlaywrightScrapeResult {
+  images: PinterestImage[];
+  boardInfo?: BoardInfo;
+  method: 'playwright-automation+dom-harvest' | 'static-fallback';
+  playwrightSuccess: boolean;
+  scrollCount: number;
+  harvestedUrlCount: number;
+  executionTimeMs: number;
+  diagnostics?: ExtractionDiagnostics;
+}
+
+/**
+ * Scrape a board with a headless browser, preferring network-captured pins
+ */
+export async function scrapeBoardWithPlaywright(
+  boardUrl: string,
+  options: ScrapeOptions = {}
+): Promise<PlaywrightScrapeResult> {
+  console.log(`🎭 Playwright scraping started for: ${boardUrl}`);
+  const startTime = Date.now();
+  const transport = options.transport ?? createTransport();
+  const cassette = transport.cassette;
+  
+  // Use Playwright automation with DOM harvesting
+  let finalHtml = '';
+  let playwrightSuccess = false;
+  let scrollCount = 0;
+  let harvestedUrls: string[] = [];
+  
+  // Network pin collector via BoardFeedResource interception
+  const networkPins = new Map<string, PinterestImage>();
+  // Drift diagnostics of every intercepted feed page
+  const networkDiagnostics: ExtractionDiagnostics[] = [];
+
+  // Report network-captured pins that have not been emitted yet
+  const reportedIds = new Set<string>();
+  const reportProgress = () => {
+    if (!options.onProgress) return;
+    const pins = Array.from(networkPins.values()).filter(p => !reportedIds.has(p.id));
+    for (const p of pins) reportedIds.add(p.id);
+    options.onProgress({ pagesFetched: scrollCount, pins, totalPins: networkPins.size });
+  };
+
+  // Convert Pinterest pin JSON to PinterestImage
+  // Same mapping (and metadata) as the static scraper
+  const buildImageFromPin = (pin: any): PinterestImage | null => {
+    if (!pin || !pin.id || !pin.images) return null;
+    return extractImageFromPin(pin);
+  };
+  
+  // Helper to normalize and filter URLs after harvesting
+  const shouldKeepUrl = (u: string) => {
+    if (!u) return false;
+    if (!u.includes('i.pinimg.com/')) return false;
+    // Skip obvious non-pin assets and media formats (video pins come from pin JSON with their poster)
+    if (
+      u.includes('/user/') ||
+      u.includes('/avatars/') ||
+      u.includes('/static/') ||
+      u.includes('/boards/') ||
+      u.includes('/closeup/') ||
+      // Animated GIFs are only kept at original size (smaller sizes are static stills)
+      (u.endsWith('.gif') && !u.includes('/originals/')) ||
+      u.endsWith('.mp4') ||
+      u.endsWith('.webm')
+    ) {
+      return false;
+    }
+    // Enforce allowed Pinterest pin dimensions
+    const dim = getDimensionFromUrl(u);
+    const allowed = new Set(['170x', '236x', '474x', '564x', '736x', 'originals']);
+    if (!dim || !allowed.has(dim)) return false;
+
+    // Enforce pin-like filename hash
+    const hash = getHashFromUrl(u);
+    if (!hash || !isValidPinHash(hash)) return false;
+
+    return true;
+  };
+
+  // Extract hash/id from a pin image URL (filename without extension)
+  const getHashFromUrl = (u: string): string | null => {
+    try {
+      const pathname = new URL(u).pathname;
+      const last = pathname.split('/').filter(Boolean).pop() || '';
+      const base = last.split('.')[0];
+      return base || null;
+    } catch {
+      const parts = u.split('/');
+      const last = parts[parts.length - 1] || '';
+      return (last.split('.')[0] || null);
+    }
+  };
+
+  // Extract the Pinterest dimension segment (e.g., 236x, 736x, originals)
+  const getDimensionFromUrl = (u: string): string | null => {
+    const m = u.match(/https:\/\/i\.pinimg\.com\/(\d+x|\w+)\//);
+    return m ? m[1] : null;
+  };
+
+  // Validate that a filename base looks like a real pin hash
+  const isValidPinHash = (hash: string): boolean =>
+    /^[0-9a-f]{16,}$/i.test(hash);
+
+  try {
+    console.log('🎭 Starting Playwright (core) browser automation...');
+    let chromium: any | undefined;
+
+    try {
+      // Prefer full playwright if installed (brings browsers + API)
+      // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+      // @ts-ignore - optional dependency; handled via runtime try/catch
+      const pw = await import('playwright').catch(() => null);
+      if (pw?.chromium) {
+        chromium = pw.chromium;
+      } else {
+        // Fallback to playwright-core (API only; requires separate browser install)
+        // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+        // @ts-ignore - optional dependency, resolved only at runtime if installed
+        const pwCore = await import(('playwright' + '-core') as string);
+        chromium = pwCore.chromium;
+      }
+    } catch (e) {
+      console.log('Neither playwright nor playwright-core available, skipping automation:', (e as Error)?.message || e);
+      throw e;
+    }
+
+    options.signal?.throwIfAborted();
+    const browser = await chromium.launch({ headless: true });
+    // Closing the browser makes any pending page call reject, which ends the run on cancel
+    options.signal?.addEventListener('abort', () => { browser.close().catch(() => {}); }, { once: true });
+    const context = await browser.newContext({
+      viewport: { width: 1280, height: 2000 },
+      userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/123.0 Safari/537.36',
+    });
+    // A transport with another base URL (e.g. the fake Pinterest) serves the browser's Pinterest and image
+    // requests too; the page keeps its pinterest.com origin so in-page API calls stay same-origin
+    if (transport.baseUrl !== PINTEREST_ORIGIN || transport.imageBaseUrl !== PINTEREST_IMAGE_ORIGIN) {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      await context.route(/^https:\/\/([\w-]+\.)?(pinterest\.com|pinimg\.com)\//, async (route: any) => {
+        const url = route.request().url();
+        const target = new URL(url).hostname === 'i.pinimg.com'
+          ? resolveImageUrl(transport, url)
+          : resolveTransportUrl(transport, url);
+        if (target === url) {
+          await route.continue();
+          return;
+        }
+        try {
+          await route.fulfill({ response: await route.fetch({ url: target }) });
+        } catch {
+          await route.abort().catch(() => {});
+        }
+      });
+    }
+    // Imported session cookies let the browser open private and secret boards
+    const sessionCookies = await getSessionCookies();
+    if (sessionCookies.length > 0) {
+      await context.addCookies(sessionCookies.map(cookie => ({
+        name: cookie.name,
+        value: cookie.value,
+        domain: cookie.domain,
+        path: cookie.path,
+        expires: cookie.expires ?? -1,
+        secure: cookie.secure,
+        httpOnly: cookie.httpOnly
+      })));
+    }
+    const page = await context.newPage();
+
+    // Cassettes: save the pages, resource JSON and scripts the browser receives, or serve them back
+    // offline (scripts included, so Pinterest's own code renders the page and requests the feeds)
+    const recordings: Promise<void>[] = [];
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const isCassetteRequest = (request: any) => ['document', 'xhr', 'fetch', 'script'].includes(request.resourceType());
+    if (cassette?.mode === 'record') {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      page.on('response', (res: any) => {
+        const contentType = res.headers()['content-type'] || '';
+        if (!isCassetteRequest(res.request()) || !isRecordable(res.url(), contentType, transport.baseUrl)) return;
+        recordings.push((async () => {
+          try {
+            const body = await res.text();
+            await cassette.record({ url: res.url(), method: res.request().method(), status: res.status(), contentType, body, source: 'playwright' });
+          } catch {
+            // redirects have no body to record
+          }
+        })());
+      });
+    } else if (cassette?.mode === 'replay') {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      await page.route('**/*', async (route: any) => {
+        const request = route.request();
+        const entry = isCassetteRequest(request)
+          ? await cassette.lookup(request.method(), request.url(), transport.replayCursor).catch(() => undefined)
+          : undefined;
+        if (entry) {
+          await route.fulfill({ status: entry.status, contentType: entry.contentType, body: entry.body });
+        } else {
+          await route.abort();
+        }
+      });
+    }
+
+    // Capture BoardFeed/Section/PinResource responses to extract pins directly during scrolls
+    page.on('response', async (res: any) => {
+      try {
+        const u = res.url();
+        const isBoardFeed = u.includes('/resource/BoardFeedResource/get');
+        const isSectionFeed = u.includes('/resource/BoardSectionFeedResource/get') || u.includes('/resource/BoardSectionPinsResource/get');
+        const isPinResource = u.includes('/resource/PinResource/get');
+        if (isBoardFeed || isSectionFeed || isPinResource) {
+          const data = await res.json();
+          if (isPinResource) {
+            const pin = data?.resource_response?.data;
+            if (pin) {
+              const img = buildImageFromPin(pin);
+              if (img && !networkPins.has(img.id)) {
+                networkPins.set(img.id, img);
+              }
+            }
+          } else {
+            const results = data?.resource_response?.data?.results || data?.resource_response?.data || [];
+            let pinCount = 0;
+            for (const pin of Array.isArray(results) ? results : []) {
+              const img = buildImageFromPin(pin);
+              if (img) pinCount++;
+              if (img && !networkPins.has(img.id)) {
+                networkPins.set(img.id, img);
+              }
+            }
+            networkDiagnostics.push(diagnoseResourcePage(u.match(/\/resource\/(\w+)\//)?.[1] ?? 'BoardFeedResource', data, pinCount));
+          }
+        }
+      } catch {
+        // ignore non-JSON or parse errors
+      }
+    });
+
+    // Step 1: Navigate to Pinterest board
+    await page.goto(boardUrl, { waitUntil: 'networkidle' });
+    console.log('✅ Navigated to Pinterest board');
+
+    // Try to determine expected pin count from __PWS_DATA__ to allow early stop
+    let expectedPinCount: number | undefined = await page.evaluate(() => {
+      try {
+        const el = document.querySelector('#__PWS_DATA__');
+        if (el && el.textContent) {
+          const dataText = el.textContent;
+          const m = dataText.match(/"pin_count"\s*:\s*(\d+)/);
+          if (m) return parseInt(m[1], 10);
+        }
+      } catch {}
+      return undefined;
+    });
+    if (expectedPinCount && Number.isFinite(expectedPinCount)) {
+      console.log(`📌 Expected pin count (from __PWS_DATA__): ${expectedPinCount}`);
+    } else {
+      expectedPinCount = undefined;
+    }
+
+    // Opportunistically dismiss overlays if present
+    try {
+      // Press Escape and remove common dialog overlays if any
+      await page.keyboard.press('Escape').catch(() => {});
+      await page.evaluate(() => {
+        const dialogs = document.querySelectorAll('[role="dialog"], [data-test-id*="Signup"], [data-test-id*="login"]');
+        dialogs.forEach(d => (d as HTMLElement).style.display = 'none');
+        const style = document.createElement('style');
+        style.textContent = `
+          *[style*="position: fixed"][style*="z-index"] { display: none !important; }
+        `;
+        document.head.appendChild(style);
+      }).catch(() => {});
+    } catch { /* no-op */ }
+
+    // Step 2: Smart infinite scroll — stop when no new pins or reached expected count
+    const maxScrolls = 120;
+    let lastHeight = 0;
+    let staleRounds = 0;
+    let prevAnchorCount = 0;
+
+    for (let i = 0; i < maxScrolls; i++) {
+      options.signal?.throwIfAborted();
+      const beforeNetwork = networkPins.size;
+      prevAnchorCount = await page.evaluate(() => document.querySelectorAll('a[href*="/pin/"]').length);
+
+      const currentHeight = await page.evaluate(() => {
+        window.scrollTo(0, document.body.scrollHeight);
+        return document.body.scrollHeight;
+      });
+
+      // Let Pinterest lazy-load between scrolls
+      await page.waitForLoadState('networkidle');
+      await page.waitForTimeout(700);
+
+      const afterNetwork = networkPins.size;
+      const afterAnchorCount = await page.evaluate(() => document.querySelectorAll('a[href*="/pin/"]').length);
+
+      // Early stop: reached expected pin count
+      if (expectedPinCount && afterNetwork >= expectedPinCount) {
+        console.log(`✅ Reached expected count ${expectedPinCount} after ${i + 1} scrolls`);
+        break;
+      }
+
+      // Detect staleness: no new pins and no new anchors on page
+      if (afterNetwork === beforeNetwork && afterAnchorCount === prevAnchorCount) {
+        staleRounds++;
+      } else {
+        staleRounds = 0;
+      }
+      if (staleRounds >= 3) {
+        console.log(`✅ No new pins detected in ${staleRounds} rounds, stopping at scroll ${i + 1}`);
+        break;
+      }
+
+      // Height stop check (end of page)
+      if (currentHeight === lastHeight) {
+        await page.waitForTimeout(1200);
+        const recheck = await page.evaluate(() => document.body.scrollHeight);
+        if (recheck === lastHeight) {
+          console.log(`✅ Reached end of content after ${i + 1} scrolls`);
+          break;
+        }
+      }
+
+      lastHeight = currentHeight;
+      scrollCount = i + 1;
+      console.log(`📜 Scroll ${scrollCount}: page height ${currentHeight}px, pins=${afterNetwork}, anchors=${afterAnchorCount}`);
+      reportProgress();
+    }
+
+    // Step 3: Use in-page BoardFeedResource pagination to collect pins (with cookies)
+    try {
+      const parts = parseBoardUrl(boardUrl);
+      if (parts?.username && parts?.slug) {
+        const apiPinsRaw = await page.evaluate(async (parts: { username: string; slug: string }) => {
+          const collected: any[] = [];
+          let bookmark: string | undefined = undefined;
+          for (let i = 0; i < 30; i++) {
+            const params: any = new URLSearchParams({
+              source_url: `/${parts.username}/${parts.slug}/`,
+              data: JSON.stringify({
+                options: {
+                  board_url: `/${parts.username}/${parts.slug}/`,
+                  field_set_key: 'react_grid_pin',
+                  filter_section_pins: false,
+                  sort: 'default',
+                  layout: 'default',
+                  page_size: 250,
+                  ...(bookmark ? { bookmarks: [bookmark] } : {})
+                },
+                context: {}
+              })
+            });
+            const url = `https://www.pinterest.com/resource/BoardFeedResource/get/?${params.toString()}`;
+            const resp = await fetch(url, {
+              headers: {
+                'X-Requested-With': 'XMLHttpRequest',
+                'X-Pinterest-AppState': 'active',
+                'Accept': 'application/json, text/javascript, */*; q=0.01',
+                'Referer': `https://www.pinterest.com/${parts.username}/${parts.slug}/`
+              }
+            });
+            if (!resp.ok) break;
+            const data = await resp.json();
+            const results = data?.resource_response?.data?.results || data?.resource_response?.data || [];
+            for (const pin of Array.isArray(results) ? results : []) {
+              collected.push(pin);
+            }
+            bookmark =
+              data?.resource?.options?.bookmarks?.[0] ||
+              data?.resource_response?.bookmark ||
+              data?.resource_response?.data?.bookmark ||
+              data?.bookmark;
+            if (!bookmark) break;
+            await new Promise(r => setTimeout(r, 400 + Math.floor(Math.random() * 300)));
+          }
+          return collected;
+        }, parts);
+
+        for (const pin of apiPinsRaw as any[]) {
+          const img = buildImageFromPin(pin);
+          if (img && !networkPins.has(img.id)) {
+            networkPins.set(img.id, img);
+          }
+        }
+        console.log(`🛰️ In-page API captured ${networkPins.size} pins so far`);
+        reportProgress();
+      }
+    } catch (e) {
+      console.log('In-page API pagination failed:', (e as Error)?.message || e);
+    }
+
+    // Step 3a-2: Alternate BoardFeed strategy using /pins/ source_url and larger page_size
+    try {
+      const partsAlt = parseBoardUrl(boardUrl);
+      if (partsAlt?.username && partsAlt?.slug) {
+        const apiPinsRawAlt = await page.evaluate(async (parts: { username: string; slug: string }) => {
+          const collected: any[] = [];
+          let bookmark: string | undefined = undefined;
+          for (let i = 0; i < 30; i++) {
+            const params: any = new URLSearchParams({
+              source_url: `/${parts.username}/${parts.slug}/pins/`,
+              data: JSON.stringify({
+                options: {
+                  board_url: `/${parts.username}/${parts.slug}/`,
+                  field_set_key: 'react_grid_pin',
+                  filter_section_pins: false,
+                  sort: 'default',
+                  layout: 'default',
+                  page_size: 250,
+                  ...(bookmark ? { bookmarks: [bookmark] } : {})
+                },
+                context: {}
+              })
+            });
+            const url = `https://www.pinterest.com/resource/BoardFeedResource/get/?${params.toString()}`;
+            const resp = await fetch(url, {
+              headers: {
+                'X-Requested-With': 'XMLHttpRequest',
+                'X-Pinterest-AppState': 'active',
+                'Accept': 'application/json, text/javascript, */*; q=0.01',
+                'Referer': `https://www.pinterest.com/${parts.username}/${parts.slug}/pins/`
+              }
+            });
+            if (!resp.ok) break;
+            const data = await resp.json();
+            const results = data?.resource_response?.data?.results || data?.resource_response?.data || [];
+            for (const pin of Array.isArray(results) ? results : []) {
+              collected.push(pin);
+            }
+            bookmark =
+              data?.resource?.options?.bookmarks?.[0] ||
+              data?.resource_response?.bookmark ||
+              data?.resource_response?.data?.bookmark ||
+              data?.bookmark;
+            if (!bookmark) break;
+            await new Promise(r => setTimeout(r, 400 + Math.floor(Math.random() * 300)));
+          }
+          return collected;
+        }, partsAlt);
+
+        for (const pin of apiPinsRawAlt as any[]) {
+          const img = buildImageFromPin(pin);
+          if (img && !networkPins.has(img.id)) {
+            networkPins.set(img.id, img);
+          }
+        }
+        console.log(`🛰️ Alt BoardFeed captured ${networkPins.size} pins so far (cumulative)`);
+        reportProgress();
+      }
+    } catch (e) {
+      console.log('Alt BoardFeed pagination failed:', (e as Error)?.message || e);
+    }
+// Step 3b: Fetch pins from board sections via internal APIs (in-page, with cookies)
+try {
+const parts = parseBoardUrl(boardUrl);
+if (parts?.username && parts?.slug) {
+  const sectionPinsRaw = await page.evaluate(async (parts: { username: string; slug: string }) => {
+    const headers = {
+      'X-Requested-With': 'XMLHttpRequest',
+      'X-Pinterest-AppState': 'active',
+      'Accept': 'application/json, text/javascript, */*; q=0.01',
+      'Referer': `https://www.pinterest.com/${parts.username}/${parts.slug}/`
+    } as Record<string, string>;
+
+    const collected: any[] = [];
+
+    try {
+      // Enumerate board sections
+      const boardId = (() => { try { const el = document.querySelector('#__PWS_DATA__'); if (el && el.textContent) { const s = el.textContent; const m = s.match(/"board_id"\s*:\s*"(\d+)"/) || s.match(/"board"\s*:\s*\{[^}]*"id"\s*:\s*"(\d+)"/); return m ? (m[1] || m[2]) : undefined; } } catch {} return undefined; })();
+      const secParams: any = new URLSearchParams({
+        source_url: `/${parts.username}/${parts.slug}/`,
+        data: JSON.stringify({
+          options: {
+            board_url: `/${parts.username}/${parts.slug}/`,
+            ...(boardId ? { board_id: boardId } : {})
+          },
+          context: {}
+        })
+      });
+      const secUrl = `https://www.pinterest.com/resource/BoardSectionsResource/get/?${secParams.toString()}`;
+      const secResp = await fetch(secUrl, { headers });
+      if (secResp.ok) {
+        const secData = await secResp.json();
+        const sections = secData?.resource_response?.data?.sections || secData?.resource_response?.data || [];
+        for (const section of Array.isArray(sections) ? sections : []) {
+          // Try multiple section endpoints to maximize coverage
+          const endpointNames = ['BoardSectionPinsResource', 'BoardSectionFeedResource'];
+          for (const ep of endpointNames) {
+            let bookmark: string | undefined = undefined;
+            for (let i = 0; i < 20; i++) {
+              const p: any = new URLSearchParams({
+                source_url: `/${parts.username}/${parts.slug}/`,
+                data: JSON.stringify({
+                  options: {
+                    board_url: `/${parts.username}/${parts.slug}/`,
+                    ...(boardId ? { board_id: boardId } : {}),
+                    section_id: section.id,
+                    field_set_key: 'react_grid_pin',
+                    sort: 'default',
+                    layout: 'default',
+                    page_size: 250,
+                    ...(bookmark ? { bookmarks: [bookmark] } : {})
+                  },
+                  context: {}
+                })
+              });
+              const url = `https://www.pinterest.com/resource/${ep}/get/?${p.toString()}`;
+              const r = await fetch(url, { headers });
+              if (!r.ok) break;
+              const d = await r.json();
+              const results = d?.resource_response?.data?.results || d?.resource_response?.data || [];
+              for (const pin of Array.isArray(results) ? results : []) {
+                collected.push(pin);
+              }
+              bookmark =
+                d?.resource?.options?.bookmarks?.[0] ||
+                d?.resource_response?.bookmark ||
+                d?.resource_response?.data?.bookmark ||
+                d?.bookmark;
+              if (!bookmark) break;
+              await new Promise(res => setTimeout(res, 300 + Math.floor(Math.random() * 300)));
+            }
+          }
+        }
+      }
+    } catch {
+      // ignore section enumeration errors
+    }
+
+    return collected;
+  }, parts);
+
+  for (const pin of sectionPinsRaw as any[]) {
+    const img = buildImageFromPin(pin);
+    if (img && !networkPins.has(img.id)) {
+      networkPins.set(img.id, img);
+    }
+  }
+  console.log(`🗂️ Sections API captured ${Array.isArray(sectionPinsRaw) ? sectionPinsRaw.length : 0} pins (cumulative ${networkPins.size})`);
+  reportProgress();
+}
+} catch (e) {
+console.log('Sections API scraping failed:', (e as Error)?.message || e);
+}
+
+// Step 3c: Fetch missing pins by DOM-detected pin ids via PinResource (in-page, with cookies)
+try {
+const parts2 = parseBoardUrl(boardUrl);
+if (parts2?.username && parts2?.slug) {
+  const knownNetworkIds = Array.from(networkPins.keys());
+  const domDetailPinsRaw = await page.evaluate(
+    async ({ knownIds, parts }: { knownIds: string[]; parts: { username: string; slug: string } }) => {
+      const headers = {
+        'X-Requested-With': 'XMLHttpRequest',
+        'X-Pinterest-AppState': 'active',
+        'Accept': 'application/json, text/javascript, */*; q=0.01',
+        'Referer': `https://www.pinterest.com/${parts.username}/${parts.slug}/`
+      } as Record<string, string>;
+
+      // Collect pin ids present in the DOM (anchors + data attributes)
+      const idSet = new Set<string>();
+
+      // Anchors like /pin/123456789012345/
+      const anchors = Array.from(document.querySelectorAll('a[href*="/pin/"]'));
+      for (const a of anchors) {
+        const href = (a as HTMLAnchorElement).getAttribute('href') || '';
+        const m = href.match(/\/pin\/(\d{8,})/);
+        if (m && m[1]) idSet.add(m[1]);
+      }
+
+      // Elements that carry pin ids in data attributes
+      const dataIdElems = Array.from(document.querySelectorAll('[data-test-pin-id],[data-test-id],[data-pin-id]'));
+      for (const el of dataIdElems) {
+        const ds: any = (el as HTMLElement).dataset || {};
+        const candidates = [ds.testPinId, ds.pinId, ds.testId].filter(Boolean);
+        for (const c of candidates) {
+          const m = String(c).match(/(\d{8,})/);
+          if (m && m[1]) idSet.add(m[1]);
+        }
+      }
+
+      // Determine which ids are missing from network-captured pins
+      const missing = Array.from(idSet).filter(id => !knownIds.includes(id));
+      const collected: any[] = [];
+
+      // Fetch missing pin details via PinResource (throttled)
+      for (const pinId of missing) {
+        try {
+          const params = new URLSearchParams({
+            source_url: `/${parts.username}/${parts.slug}/`,
+            data: JSON.stringify({
+              options: {
+                id: pinId
+              },
+              context: {}
+            })
+          });
+          const url = `https://www.pinterest.com/resource/PinResource/get/?${params.toString()}`;
+          const resp = await fetch(url, { headers });
+          if (!resp.ok) continue;
+          const data = await resp.json();
+          const pin = data?.resource_response?.data;
+          if (pin && pin.id) {
+            // Validate that the pin truly belongs to this board before accepting
+            try {
+              const expected = `/${parts.username}/${parts.slug}/`;
+              const pinBoardUrl: string =
+                (pin?.board?.url as string) ||
+                (pin?.board?.url_path as string) ||
+                '';
+              const sameBoard = typeof pinBoardUrl === 'string' && pinBoardUrl.startsWith(expected);
+              const sameOwner = pin?.board?.owner?.username === parts.username;
+              if (sameBoard || sameOwner) {
+                collected.push(pin);
+              }
+            } catch {
+              // skip pins with unexpected structure
+            }
+          }
+          // Small jittered delay to be polite
+          await new Promise(res => setTimeout(res, 250 + Math.floor(Math.random() * 250)));
+        } catch {
+          // ignore individual pin fetch errors
+        }
+        // Safety cap
+        if (collected.length > 300) break;
+      }
+
+      return collected;
+    },
+    { knownIds: knownNetworkIds, parts: parts2 }
+  );
+
+  for (const pin of domDetailPinsRaw as any[]) {
+    const img = buildImageFromPin(pin);
+    if (img && !networkPins.has(img.id)) {
+      networkPins.set(img.id, img);
+    }
+  }
+  console.log(
+    `🔎 PinResource detail filled ${Array.isArray(domDetailPinsRaw) ? domDetailPinsRaw.length : 0} pins (cumulative ${networkPins.size})`
+  );
+  reportProgress();
+}
+} catch (e) {
+console.log('PinResource detail fetch failed:', (e as Error)?.message || e);
+}
+    /**
+     * Step 3d: __PWS_DATA__ harvest + PinResource backfill (in-page, with cookies)
+     * Goal: capture any remaining pin IDs present in the bootstrapped JSON and fetch their details.
+     * This runs after sections + DOM anchor crawl so the only remaining are hard-to-reach items.
+     */
+    try {
+      const parts3 = parseBoardUrl(boardUrl);
+      if (parts3?.username && parts3?.slug) {
+        const knownNetworkIds3 = Array.from(networkPins.keys());
+        const pwsBackfillRaw = await page.evaluate(
+          async ({ knownIds, parts }: { knownIds: string[]; parts: { username: string; slug: string } }) => {
+            const headers = {
+              'X-Requested-With': 'XMLHttpRequest',
+              'X-Pinterest-AppState': 'active',
+              'Accept': 'application/json, text/javascript, */*; q=0.01',
+              'Referer': `https://www.pinterest.com/${parts.username}/${parts.slug}/`
+            } as Record<string, string>;
+    
+            const collected: any[] = [];
+            const ids = new Set<string>();
+    
+            try {
+              const el = document.querySelector('#__PWS_DATA__');
+              if (el && el.textContent) {
+                const data = JSON.parse(el.textContent);
+                const stack: any[] = [data];
+                while (stack.length) {
+                  const obj = stack.pop();
+                  if (!obj) continue;
+                  if (Array.isArray(obj)) {
+                    for (const it of obj) stack.push(it);
+                  } else if (typeof obj === 'object') {
+                    if (obj.id && obj.images) {
+                      const idStr = String(obj.id);
+                      ids.add(idStr);
+                    }
+                    for (const v of Object.values(obj)) {
+                      if (v && (typeof v === 'object')) stack.push(v);
+                    }
+                  }
+                }
+              }
+            } catch {
+              // ignore parse errors
+            }
+    
+            // Fetch details for pin IDs not yet known
+            const toFetch = Array.from(ids).filter(id => !knownIds.includes(id));
+            for (const pinId of toFetch) {
+              try {
+                const params = new URLSearchParams({
+                  source_url: `/${parts.username}/${parts.slug}/`,
+                  data: JSON.stringify({
+                    options: { id: pinId },
+                    context: {}
+                  })
+                });
+                const url = `https://www.pinterest.com/resource/PinResource/get/?${params.toString()}`;
+                const resp = await fetch(url, { headers });
+                if (!resp.ok) continue;
+                const data = await resp.json();
+                const pin = data?.resource_response?.data;
+                if (pin && pin.id) {
+                  // Ensure the pin belongs to this board before accepting
+                  try {
+                    const expected = `/${parts.username}/${parts.slug}/`;
+                    const pinBoardUrl: string =
+                      (pin?.board?.url as string) ||
+                      (pin?.board?.url_path as string) || '';
+                    const sameBoard = typeof pinBoardUrl === 'string' && pinBoardUrl.startsWith(expected);
+                    const sameOwner = pin?.board?.owner?.username === parts.username;
+                    if (sameBoard || sameOwner) {
+                      collected.push(pin);
+                    }
+                  } catch {
+                    // skip on structure issues
+                  }
+                }
+                await new Promise((res) => setTimeout(res, 200 + Math.floor(Math.random() * 200)));
+              } catch {
+                // ignore fetch errors per pin
+              }
+              if (collected.length > 400) break; // safety cap
+            }
+            return collected;
+          },
+          { knownIds: knownNetworkIds3, parts: parts3 }
+        );
+    
+        for (const pin of pwsBackfillRaw as any[]) {
+          const img = buildImageFromPin(pin);
+          if (img && !networkPins.has(img.id)) {
+            networkPins.set(img.id, img);
+          }
+        }
+        console.log(`📦 __PWS_DATA__/PinResource backfill added ${Array.isArray(pwsBackfillRaw) ? pwsBackfillRaw.length : 0} pins (cumulative ${networkPins.size})`);
+        reportProgress();
+      }
+    } catch (e) {
+      console.log('__PWS_DATA__ backfill failed:', (e as Error)?.message || e);
+    }
+    
+    // Step 4: Harvest all image URLs from DOM (src + srcset)
+    harvestedUrls = await page.evaluate(() => {
+      const urls = new Set<string>();
+      const add = (u: string | null | undefined) => { if (u) urls.add(u); };
+      const imgs = Array.from(document.querySelectorAll('img'));
+      for (const img of imgs) {
+        add(img.getAttribute('src'));
+        const srcset = img.getAttribute('srcset');
+        if (srcset) {
+          for (const part of srcset.split(',')) {
+            const u = part.trim().split(' ')[0];
+            add(u);
+          }
+        }
+      }
+      return Array.from(urls);
+    });
+
+    // Step 4: Capture final HTML too (as a fallback to regex)
+    finalHtml = await page.content();
+    await Promise.all(recordings);
+    await browser.close();
+
+    playwrightSuccess = !!finalHtml || harvestedUrls.length > 0;
+    console.log(`✅ Playwright automation complete: ${scrollCount} scrolls, DOM urls ${harvestedUrls.length}, html ${finalHtml.length} chars`);
+  } catch (error) {
+    // Cancellation is not a failure to fall back from
+    options.signal?.throwIfAborted();
+    console.log('🚨 Playwright automation failed, falling back to static scraping:', error);
+    playwrightSuccess = false;
+  }
+  
+  // Fallback to static scraping if Playwright fails
+  if (!playwrightSuccess) {
+    console.log('📋 Falling back to enhanced static scraping...');
+    const response = await transportFetch(transport, boardUrl, {
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,*/*;q=0.8',
+        'Accept-Language': 'en-US,en;q=0.9',
+        'Accept-Encoding': 'gzip, deflate, br',
+        'DNT': '1',
+        'Connection': 'keep-alive',
+        'Upgrade-Insecure-Requests': '1',
+        ...await sessionHeaders(boardUrl)
+      },
+      signal: options.signal
+    });
+    
+    if (response.ok) {
+      finalHtml = await response.text();
+    } else {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+  }
+  
+  // Build images preferring network-captured pins, then DOM-harvest, then (strict) HTML supplement
+  let imagesMap = new Map<string, PinterestImage>();
+  if (networkPins.size > 0) {
+    console.log(`🛰️ Network-captured pins: ${networkPins.size}`);
+    for (const img of networkPins.values()) imagesMap.set(img.id, img);
+  }
+  // Hashes and IDs derived from network-captured pins (BoardFeedResource) to validate DOM/HTML items belong to the board
+  const networkHashes = new Set<string>();
+  const networkPinIds = new Set<string>();
+  for (const pin of networkPins.values()) {
+    const h = getHashFromUrl(pin.thumbnail || pin.url);
+    if (h) networkHashes.add(h);
+    if (pin.id) networkPinIds.add(String(pin.id));
+  }
+
+  // Merge DOM-harvested URLs
+  if (harvestedUrls.length > 0) {
+    const seen = new Set<string>(imagesMap.keys());
+    const allowed = new Set(['236x', '474x', '564x', '736x', 'originals']);
+    for (const raw of harvestedUrls) {
+      if (!shouldKeepUrl(raw)) continue;
+
+      // Enforce allowed dimensions (exclude 170x to reduce suggested/search items)
+      const dim = getDimensionFromUrl(raw);
+      if (!dim || !allowed.has(dim)) continue;
+
+      // Normalize to 236x thumbnail (source may be any allowed dimension)
+      // GIF originals have JPEG stills at the smaller sizes
+      const isGif = raw.endsWith('.gif');
+      const still = isGif ? raw.replace(/\.gif$/, '.jpg') : raw;
+      const thumb = transformImageUrl(still, '236x');
+
+      const id = getHashFromUrl(thumb);
+      // Only accept DOM entries that correspond to a hash we also saw via BoardFeedResource
+      if (!id || !isValidPinHash(id) || seen.has(id) || !networkHashes.has(id)) continue;
+
+      seen.add(id);
+
+      imagesMap.set(id, {
+        id,
+        url: thumb,
+        thumbnail: thumb,
+        medium: transformImageUrl(still, '474x'),
+        large: transformImageUrl(still, '736x'),
+        original: transformImageUrl(raw, 'originals'),
+        title: '',
+        description: '',
+        ...(isGif ? { mediaType: 'gif' as const } : {})
+      });
+    }
+    console.log(`🧭 DOM-harvest contributed ${Math.max(0, imagesMap.size - (networkPins.size || 0))} pins (cumulative ${imagesMap.size})`);
+  }
+
+  // Supplement with HTML extractor (restricted to network-confirmed items) and capture board info
+  const { images: htmlPins, boardInfo: htmlBoardInfo, diagnostics: htmlDiagnostics } = extractImagesFromHtml(finalHtml);
+  if (htmlPins?.length && (networkHashes.size > 0 || networkPinIds.size > 0)) {
+    let added = 0;
+    for (const p of htmlPins) {
+      if (!p) continue;
+
+      // Derive an image hash from any available URL field
+      const candidateUrl =
+        p.thumbnail || p.url || p.medium || p.large || p.original || '';
+      const candidateHash = candidateUrl ? getHashFromUrl(candidateUrl) : null;
+
+      // Validate against either known network image hashes OR known network pin ids
+      const matchesNetworkHash = candidateHash ? networkHashes.has(candidateHash) : false;
+      const matchesNetworkId = p.id ? networkPinIds.has(String(p.id)) : false;
+
+      if (!matchesNetworkHash && !matchesNetworkId) continue;
+
+      // Use a stable map key; prefer id if present, else fall back to candidate hash
+      const key = p.id || candidateHash;
+      if (!key) continue;
+
+      if (!imagesMap.has(key)) {
+        // Normalize the object to carry consistent id (prefer numeric id; else hash)
+        const normalized: PinterestImage = {
+          ...p,
+          id: String(key),
+          thumbnail: p.thumbnail || (candidateUrl ? transformImageUrl(candidateUrl, '236x') : p.thumbnail),
+          medium: p.medium || (candidateUrl ? transformImageUrl(candidateUrl, '474x') : p.medium),
+          large: p.large || (candidateUrl ? transformImageUrl(candidateUrl, '736x') : p.large),
+          original: p.original || (candidateUrl ? transformImageUrl(candidateUrl, 'originals') : p.original)
+        };
+        imagesMap.set(key, normalized);
+        added++;
+      }
+    }
+    console.log(`🔁 After HTML supplement (network-validated): +${added}, total ${imagesMap.size} pins`);
+  } else {
+    console.log(
+      `🔁 HTML supplement skipped (networkHashes=${networkHashes.size}, networkPinIds=${networkPinIds.size})`
+    );
+  }
+  const boardInfoResolved = htmlBoardInfo;
+
+  let finalImages: PinterestImage[] = Array.from(imagesMap.values());
+
+  // Confirmation check only (no clamping)
+  const targetCount = (boardInfoResolved?.pinCount && Number.isFinite(boardInfoResolved.pinCount))
+    ? boardInfoResolved.pinCount
+    : undefined;
+  if (targetCount && finalImages.length !== targetCount) {
+    console.log(`Pin count mismatch (reported ${targetCount} vs scraped ${finalImages.length})`);
+  }
+
+  const executionTime = Date.now() - startTime;
+  const method = playwrightSuccess ? 'playwright-automation+dom-harvest' : 'static-fallback';
+  console.log(`🎯 Scraping complete: ${finalImages.length} pins in ${executionTime}ms using ${method}`);
+
+  const diagnostics = mergeDiagnostics([htmlDiagnostics, ...networkDiagnostics]);
+  void recordDiagnostics('playwright', boardUrl, diagnostics);
+
+  return {
+    images: finalImages,
+    boardInfo: boardInfoResolved,
+    method,
+    playwrightSuccess,
+    scrollCount,
+    harvestedUrlCount: harvestedUrls.length,
+    executionTimeMs: executionTime,
+    diagnostics
+  };
+}
@@ -0,0 +1,230 @@
+/**
+ * Profile scraping
+ * Enumerates a user's public boards (BoardsResource, falling back to the profile page's
+ * embedded data) and scrapes a selection of them in one batch with per-board results.
+ */
+
+import { fetchResourcePage } from './scraper';
+import type { PinterestImage, BoardInfo, ScrapeOptions } from './scraper';
+import { transportFetch } from './transport';
+import { runScrapeChain, resolveStrategies } from './strategies';
+import type { StrategyOptions, StrategyReport } from './strategies';
+import { saveToLibrary } from './library';
+
+export interface ProfileBoard {
+  id: string;
+  name: string;
+  url: string; // absolute board URL
+  pinCount: number;
+  coverUrl?: string;
+  sectionCount?: number;
+}
+
+export interface ProfileBoardResult {
+  boardUrl: string;
+  success: boolean;
+  count: number;
+  images: PinterestImage[];
+  boardInfo?: BoardInfo;
+  complete: boolean;
+  libraryScrapeId?: number;
+  strategies: StrategyReport[];
+  error?: string;
+}
+
+// The parts of a Pinterest board object (BoardsResource or embedded page data) read here
+interface RawBoard {
+  id?: string | number;
+  type?: string;
+  name?: string;
+  url?: unknown;
+  privacy?: unknown;
+  pin_count?: number;
+  section_count?: number;
+  owner?: { username?: string };
+  image_cover_hd_url?: string;
+  image_cover_url?: string;
+  cover_images?: Record<string, { url?: string } | undefined>;
+  images?: Record<string, { url?: string }[] | undefined>;
+}
+
+// Hard stop for BoardsResource pagination (25 boards per page)
+const MAX_BOARD_PAGES = 40;
+
+function toAbsoluteBoardUrl(url: string): string {
+  return url.startsWith('http') ? url : `https://www.pinterest.com${url.startsWith('/') ? '' : '/'}${url}`;
+}
+
+/**
+ * Map a Pinterest board object (API or embedded data) to a ProfileBoard
+ */
+function toProfileBoard(board: RawBoard): ProfileBoard | null {
+  if (!board?.id || !board?.url || typeof board.url !== 'string') return null;
+  return {
+    id: String(board.id),
+    name: board.name || board.url.split('/').filter(Boolean).pop() || 'Untitled board',
+    url: toAbsoluteBoardUrl(board.url),
+    pinCount: Number(board.pin_count) || 0,
+    coverUrl: board.image_cover_hd_url
+      || board.image_cover_url
+      || board.cover_images?.['222x']?.url
+      || board.images?.['170x']?.[0]?.url
+      || undefined,
+    sectionCount: typeof board.section_count === 'number' ? board.section_count : undefined
+  };
+}
+
+/**
+ * Collect board objects owned by `username` anywhere in the embedded page data
+ */
+function findProfileBoards(obj: unknown, username: string, boards: Map<string, ProfileBoard>, depth: number = 0): void {
+  if (!obj || typeof obj !== 'object' || depth > 15) return;
+
+  if (Array.isArray(obj)) {
+    for (const item of obj) findProfileBoards(item, username, boards, depth + 1);
+    return;
+  }
+
+  const node = obj as RawBoard;
+  const owner = node.owner?.username;
+  const isBoard = node.type === 'board' || (node.pin_count !== undefined && typeof node.url === 'string' && node.privacy !== undefined);
+  if (isBoard && typeof node.url === 'string' && node.url.toLowerCase().startsWith(`/${username.toLowerCase()}/`)
+    && (!owner || owner.toLowerCase() === username.toLowerCase())) {
+    const board = toProfileBoard(node);
+    if (board && !boards.has(board.id)) boards.set(board.id, board);
+  }
+
+  for (const value of Object.values(obj)) {
+    if (value && typeof value === 'object') findProfileBoards(value, username, boards, depth + 1);
+  }
+}
+
+/**
+ * Boards embedded in the profile page HTML (usually only the first screenful)
+ */
+export function extractProfileBoardsFromHtml(html: string, username: string): ProfileBoard[] {
+  const boards = new Map<string, ProfileBoard>();
+  const pwsDataMatch = html.match(/<script[^>]*id="__PWS_DATA__"[^>]*>([^<]+)<\/script>/);
+  if (pwsDataMatch) {
+    try {
+      findProfileBoards(JSON.parse(pwsDataMatch[1]), username, boards);
+    } catch (e) {
+      console.error('Failed to parse profile __PWS_DATA__:', e);
+    }
+  }
+  return Array.from(boards.values());
+}
+
+/**
+ * One page of a user's boards via Pinterest's internal BoardsResource
+ */
+async function fetchBoardsPage(
+  username: string,
+  bookmark?: string,
+  requestOptions: Pick<ScrapeOptions, 'signal' | 'transport'> = {}
+): Promise<{ boards: ProfileBoard[], nextBookmark?: string }> {
+  const { data, nextBookmark } = await fetchResourcePage(
+    'BoardsResource',
+    { username, field_set_key: 'profile_grid_item', privacy_filter: 'all', sort: 'last_pinned_to', page_size: 25 },
+    `/${username}/boards/`,
+    bookmark,
+    requestOptions
+  );
+
+  const results = Array.isArray(data.resource_response?.data) ? data.resource_response.data : [];
+  const boards = results
+    .map(toProfileBoard)
+    .filter((board: ProfileBoard | null): board is ProfileBoard => !!board);
+
+  return { boards, nextBookmark };
+}
+
+/**
+ * List a user's public boards: internal API first, embedded profile data as fallback
+ */
+export async function fetchProfileBoards(
+  username: string,
+  options: Pick<ScrapeOptions, 'signal' | 'transport'> = {}
+): Promise<ProfileBoard[]> {
+  const boards = new Map<string, ProfileBoard>();
+
+  try {
+    let bookmark: string | undefined;
+    for (let page = 0; page < MAX_BOARD_PAGES; page++) {
+      const { boards: pageBoards, nextBookmark } = await fetchBoardsPage(username, bookmark, options);
+      const before = boards.size;
+      for (const board of pageBoards) boards.set(board.id, board);
+      console.log(`👤 Boards page ${page + 1}: ${pageBoards.length} boards (total ${boards.size})`);
+      if (!nextBookmark || boards.size === before) break;
+      bookmark = nextBookmark;
+    }
+  } catch (error) {
+    options.signal?.throwIfAborted();
+    console.log('BoardsResource failed, falling back to profile HTML:', error instanceof Error ? error.message : error);
+  }
+
+  if (boards.size === 0) {
+    const response = await transportFetch(options.transport, `https://www.pinterest.com/${encodeURIComponent(username)}/`, {
+      headers: { 'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8' },
+      signal: options.signal
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to fetch profile: ${response.status}`);
+    }
+    for (const board of extractProfileBoardsFromHtml(await response.text(), username)) {
+      boards.set(board.id, board);
+    }
+  }
+
+  return Array.from(boards.values());
+}
+
+/**
+ * Scrape boards one after another; a failing board is reported and the batch continues
+ */
+export async function scrapeProfileBoards(
+  boardUrls: string[],
+  options: StrategyOptions & { strategies?: string[] } = {}
+): Promise<ProfileBoardResult[]> {
+  const { strategies, ...strategyOptions } = options;
+  // The paginated scraper is enough for most boards and far cheaper than a browser per board
+  const selected = resolveStrategies(strategies && strategies.length > 0 ? strategies : ['scrape']);
+  const results: ProfileBoardResult[] = [];
+
+  for (const [index, boardUrl] of boardUrls.entries()) {
+    strategyOptions.signal?.throwIfAborted();
+    console.log(`👤 Batch board ${index + 1}/${boardUrls.length}: ${boardUrl}`);
+
+    let result: ProfileBoardResult;
+    try {
+      const chain = await runScrapeChain(boardUrl, { ...strategyOptions, strategies: selected });
+      const libraryScrapeId = await saveToLibrary(boardUrl, chain.boardInfo, chain.images, 'profile', !chain.complete);
+      result = {
+        boardUrl,
+        success: chain.images.length > 0,
+        count: chain.images.length,
+        images: chain.images,
+        boardInfo: chain.boardInfo,
+        complete: chain.complete,
+        libraryScrapeId,
+        strategies: chain.strategies,
+        error: chain.images.length === 0 ? 'No images found on this board' : undefined
+      };
+    } catch (error) {
+      strategyOptions.signal?.throwIfAborted();
+      result = {
+        boardUrl,
+        success: false,
+        count: 0,
+        images: [],
+        complete: false,
+        strategies: [],
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+
+    results.push(result);
+  }
+
+  return results;
+}
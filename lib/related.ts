@@ -0,0 +1,167 @@
+/**
+ * "More ideas" harvesting
+ * Collects Pinterest's recommendations for a seed board, kept apart from the board's own pins.
+ * Depth 1 is the board's "More ideas" feed; each further level follows the related pins of the
+ * pins found one level up.
+ */
+
+import { scrapePinterestBoard, parseBoardUrl, extractImageFromPin, fetchResourcePage } from './scraper';
+import type { PinterestImage, BoardInfo, ScrapeOptions } from './scraper';
+
+export interface RelatedPin extends PinterestImage {
+  relatedDepth: number; // 1 = recommended for the board, 2+ = related to a pin one level up
+  relatedTo: string; // board id (depth 1) or the pin id it was recommended from
+}
+
+export interface RelatedHarvestOptions extends Pick<ScrapeOptions, 'signal' | 'transport'> {
+  depth?: number;
+  maxPins?: number; // stop once this many related pins are collected
+  seedsPerLevel?: number; // pins per level whose related feed is followed
+  maxPages?: number; // board pagination while collecting the seed pins
+}
+
+export interface RelatedHarvestResult {
+  boardInfo?: BoardInfo;
+  boardPinCount: number;
+  related: RelatedPin[];
+  byDepth: number[]; // pins found at depth 1, 2, ...
+}
+
+export const MAX_RELATED_DEPTH = 3;
+
+// Recommendation feeds keep paging for a long time; a few pages per seed is plenty
+const MAX_PAGES_PER_FEED = 5;
+
+/**
+ * One page of a recommendation resource (BoardContentRecommendationResource or RelatedPinFeedResource)
+ */
+async function fetchRecommendationPage(
+  resource: string,
+  resourceOptions: Record<string, unknown>,
+  sourceUrl: string,
+  bookmark?: string,
+  requestOptions: Pick<ScrapeOptions, 'signal' | 'transport'> = {}
+): Promise<{ pins: PinterestImage[], nextBookmark?: string, error?: string }> {
+  try {
+    const { data, nextBookmark } = await fetchResourcePage(resource, { ...resourceOptions, page_size: 25 }, sourceUrl, bookmark, requestOptions);
+    const results = data.resource_response?.data?.results || data.resource_response?.data || [];
+    const pins: PinterestImage[] = [];
+    for (const pin of Array.isArray(results) ? results : []) {
+      // Feeds mix in ads and story modules; only real pins have an image ladder
+      if (!pin?.id || !pin.images || pin.is_promoted) continue;
+      const image = extractImageFromPin(pin);
+      if (image) pins.push(image);
+    }
+
+    return { pins, nextBookmark };
+  } catch (error) {
+    requestOptions.signal?.throwIfAborted();
+    console.error(`Error fetching ${resource}:`, error);
+    return { pins: [], error: error instanceof Error ? error.message : 'Request failed' };
+  }
+}
+
+/**
+ * Page through one recommendation feed, adding unseen pins until the feed or the pin budget runs out
+ */
+async function collectFeed(
+  resource: string,
+  resourceOptions: Record<string, unknown>,
+  sourceUrl: string,
+  tag: { relatedDepth: number, relatedTo: string },
+  seenIds: Set<string>,
+  related: RelatedPin[],
+  maxPins: number,
+  requestOptions: Pick<ScrapeOptions, 'signal' | 'transport'>
+): Promise<RelatedPin[]> {
+  const added: RelatedPin[] = [];
+  let bookmark: string | undefined;
+  for (let page = 0; page < MAX_PAGES_PER_FEED && related.length < maxPins; page++) {
+    const { pins, nextBookmark, error } = await fetchRecommendationPage(resource, resourceOptions, sourceUrl, bookmark, requestOptions);
+    requestOptions.signal?.throwIfAborted();
+    if (error) break;
+
+    for (const pin of pins) {
+      if (seenIds.has(pin.id) || related.length >= maxPins) continue;
+      seenIds.add(pin.id);
+      const relatedPin: RelatedPin = { ...pin, ...tag };
+      related.push(relatedPin);
+      added.push(relatedPin);
+    }
+
+    if (pins.length === 0 || !nextBookmark) break;
+    bookmark = nextBookmark;
+  }
+  return added;
+}
+
+/**
+ * Harvest the "More ideas" around a board up to `depth` levels; board pins are never included
+ */
+export async function harvestRelatedPins(
+  boardUrl: string,
+  options: RelatedHarvestOptions = {}
+): Promise<RelatedHarvestResult> {
+  const parts = parseBoardUrl(boardUrl);
+  if (!parts) {
+    throw new Error('Not a board URL');
+  }
+  const depth = Math.min(Math.max(Math.floor(options.depth ?? 1), 1), MAX_RELATED_DEPTH);
+  const maxPins = options.maxPins ?? 200;
+  const seedsPerLevel = options.seedsPerLevel ?? 10;
+
+  // The board's own pins are only needed to keep them out of the results (and as fallback seeds)
+  const { images: boardPins, boardInfo } = await scrapePinterestBoard(boardUrl, options.maxPages ?? 20, options);
+  console.log(`🌱 Seed board has ${boardPins.length} pins; harvesting related pins to depth ${depth}`);
+
+  const seenIds = new Set(boardPins.map(pin => pin.id));
+  const related: RelatedPin[] = [];
+  const byDepth: number[] = [];
+  const sourceUrl = `/${parts.username}/${parts.slug}/`;
+
+  // Depth 1: the board's "More ideas" feed (needs Pinterest's numeric board id)
+  let level: PinterestImage[] = [];
+  if (boardInfo?.id && /^\d+$/.test(boardInfo.id)) {
+    level = await collectFeed(
+      'BoardContentRecommendationResource',
+      { id: boardInfo.id, type: 'board' },
+      sourceUrl,
+      { relatedDepth: 1, relatedTo: boardInfo.id },
+      seenIds, related, maxPins, options
+    );
+  }
+  if (level.length === 0) {
+    // No board recommendations: take depth 1 from the board pins' related feeds instead
+    for (const seed of boardPins.slice(0, seedsPerLevel)) {
+      if (related.length >= maxPins) break;
+      level.push(...await collectFeed(
+        'RelatedPinFeedResource',
+        { pin_id: seed.id, add_vase: true, field_set_key: 'unauth_react' },
+        `/pin/${seed.id}/`,
+        { relatedDepth: 1, relatedTo: seed.id },
+        seenIds, related, maxPins, options
+      ));
+    }
+  }
+  byDepth.push(level.length);
+  console.log(`🌱 Depth 1: ${level.length} pins`);
+
+  for (let current = 2; current <= depth && level.length > 0 && related.length < maxPins; current++) {
+    const next: RelatedPin[] = [];
+    for (const seed of level.slice(0, seedsPerLevel)) {
+      if (related.length >= maxPins) break;
+      next.push(...await collectFeed(
+        'RelatedPinFeedResource',
+        { pin_id: seed.id, add_vase: true, field_set_key: 'unauth_react' },
+        `/pin/${seed.id}/`,
+        { relatedDepth: current, relatedTo: seed.id },
+        seenIds, related, maxPins, options
+      ));
+    }
+    byDepth.push(next.length);
+    console.log(`🌱 Depth ${current}: ${next.length} pins`);
+    level = next;
+  }
+
+  return { boardInfo, boardPinCount: boardPins.length, related, byDepth };
+}
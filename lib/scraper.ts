@@ -1,8 +1,53 @@
 /**
  * Pinterest Board Scraper - No Authentication Required!
  * Extracts high-resolution images from public Pinterest boards
+ * (private and secret boards work when a session cookie jar has been imported, see ./session)
  */
 
+import { sessionHeaders } from './session';
+import { createTransport, transportFetch } from './transport';
+import type { Transport } from './transport';
+import { diagnoseExtraction, diagnoseResourcePage, mergeDiagnostics, recordDiagnostics } from './diagnostics';
+import type { ExtractionDiagnostics, PinSource } from './diagnostics';
+import { parseBoardUrl } from './urls';
+
+// URL helpers live in ./urls so client components can use them without the server-only modules here
+export {
+  isPinterestUrl,
+  parseBoardUrl,
+  parseProfileUrl,
+  parsePinUrl,
+  parseSearchUrl,
+  searchUrlFor,
+  classifyPinterestUrl
+} from './urls';
+export type { PinterestUrlKind } from './urls';
+
+export type PinMediaType = 'image' | 'gif' | 'video' | 'carousel' | 'story';
+
+export interface ImageDimensions {
+  width: number;
+  height: number;
+}
+
+export interface PinVideoVariant {
+  quality: string; // Pinterest's variant key, e.g. V_720P or V_HLSV4
+  url: string;
+  format: 'mp4' | 'hls' | 'other';
+  width?: number;
+  height?: number;
+}
+
+/**
+ * Video attached to a pin; the image fields of the pin hold its poster frame
+ */
+export interface PinVideo {
+  mp4?: string; // best progressive MP4
+  hls?: string; // HLS playlist (.m3u8)
+  durationMs?: number;
+  variants: PinVideoVariant[];
+}
+
 export interface PinterestImage {
   id: string;
   url: string;
@@ -13,6 +58,40 @@ export interface PinterestImage {
   title?: string;
   description?: string;
   boardId?: string;
+  sectionId?: string;
+  // Metadata below is only known when the pin came from Pinterest's JSON (not from raw image URLs)
+  sizes?: Partial<Record<'thumbnail' | 'medium' | 'large' | 'original', ImageDimensions>>;
+  dominantColor?: string;
+  createdAt?: string;
+  link?: string; // outbound link the pin was saved from
+  domain?: string;
+  pinner?: string;
+  repinCount?: number;
+  saveCount?: number;
+  mediaType?: PinMediaType;
+  video?: PinVideo;
+  children?: PinChildImage[]; // every page of an idea/story pin or slot of a carousel, in order
+  searchQuery?: string; // set on pins pulled from a search instead of a board
+}
+
+/**
+ * One page/slot of a multi-image pin
+ */
+export interface PinChildImage {
+  thumbnail: string;
+  medium: string;
+  large: string;
+  original: string;
+  title?: string;
+  sizes?: PinterestImage['sizes'];
+  video?: PinVideo;
+}
+
+export interface BoardSection {
+  id: string;
+  slug: string;
+  title: string;
+  pinCount: number;
 }
 
 export interface BoardInfo {
@@ -23,6 +102,39 @@ export interface BoardInfo {
   owner: string;
 }
 
+export interface ScrapeProgress {
+  pagesFetched: number;
+  pins: PinterestImage[]; // pins added since the previous progress event
+  totalPins: number;
+  boardInfo?: BoardInfo;
+}
+
+export interface ScrapeOptions {
+  signal?: AbortSignal;
+  transport?: Transport; // defaults to global fetch against www.pinterest.com (see ./transport)
+  onProgress?: (progress: ScrapeProgress) => void;
+}
+
+export interface ScrapeStopState {
+  pagePins: PinterestImage[]; // every pin on the page just fetched, including already-seen ones
+  images: PinterestImage[];
+  boardInfo?: BoardInfo;
+}
+
+/**
+ * Pagination state saved when a scrape stops before the board is exhausted
+ */
+export interface ScrapeCheckpoint {
+  boardUrl: string;
+  bookmark?: string; // bookmark of the next page to request (the one that failed, if any)
+  pagesFetched: number;
+  seenIds: string[];
+  images: PinterestImage[];
+  boardInfo?: BoardInfo;
+  error?: string;
+  updatedAt: string;
+}
+
 /**
  * Transform Pinterest image URL to different resolutions
  */
@@ -35,9 +147,12 @@ export function transformImageUrl(url: string, size: 'originals' | '736x' | '564
 /**
  * Extract board info and images from Pinterest board HTML
  */
-export function extractImagesFromHtml(html: string): { images: PinterestImage[], boardInfo?: BoardInfo } {
+export function extractImagesFromHtml(html: string): { images: PinterestImage[], boardInfo?: BoardInfo, diagnostics: ExtractionDiagnostics } {
   const images: PinterestImage[] = [];
   let boardInfo: BoardInfo | undefined;
+  // What the extraction ran on and which stage produced the pins, for drift diagnostics
+  let embeddedData: unknown;
+  let pinSource: PinSource = 'none';
   
   // Try to find the __PWS_DATA__ script tag which contains the main data
   const pwsDataMatch = html.match(/<script[^>]*id="__PWS_DATA__"[^>]*>([^<]+)<\/script>/);
@@ -47,6 +162,7 @@ export function extractImagesFromHtml(html: string): { images: PinterestImage[],
     try {
       // Pinterest JSON is directly in the script
       const data = JSON.parse(scriptContent);
+      embeddedData = data;
       
       console.log('Successfully parsed __PWS_DATA__');
       
@@ -58,17 +174,21 @@ export function extractImagesFromHtml(html: string): { images: PinterestImage[],
       let boardPins: PinterestImage[] = [];
       if (boardInfo?.id) {
         boardPins = extractBoardPins(data, boardInfo.id);
+        pinSource = 'board-pins';
         if (boardPins.length === 0) {
           // Try alternate structure-aware extraction
           boardPins = extractBoardPinsNew(data, boardInfo.id);
+          pinSource = 'structure-scan';
         }
       } else {
         // If we couldn't determine board id, fall back to structure-aware scan
         boardPins = extractBoardPinsNew(data);
+        pinSource = 'structure-scan';
       }
       // As a last resort only, use the comprehensive regex-based extraction
       if (boardPins.length === 0) {
         boardPins = extractAllPinsFromData(data);
+        pinSource = 'data-regex';
       }
       images.push(...boardPins);
       
@@ -97,7 +217,11 @@ export function extractImagesFromHtml(html: string): { images: PinterestImage[],
           const pins = extractBoardPins(data, boardInfo?.id);
           images.push(...pins);
           
-          if (images.length > 0) break;
+          if (images.length > 0) {
+            embeddedData = data;
+            pinSource = 'initial-state';
+            break;
+          }
         } catch (e) {
           console.error('Failed to parse Pinterest data:', e);
         }
@@ -229,15 +353,16 @@ export function extractImagesFromHtml(html: string): { images: PinterestImage[],
   }
   
   console.log(`Enhanced extraction: ${totalFound} total references → ${images.length} filtered pins (targeting 82)`);
+  if (images.length > 0) pinSource = 'html-regex';
   
   }
-  return { images, boardInfo };
+  return { images, boardInfo, diagnostics: diagnoseExtraction(embeddedData, pinSource, images, boardInfo) };
 }
 
 /**
  * Extract board information from Pinterest data
  */
-function extractBoardInfo(data: any): BoardInfo | undefined {
+export function extractBoardInfo(data: any): BoardInfo | undefined {
   try {
     // Look for board data in various possible locations
     const paths = [
@@ -303,7 +428,7 @@ function findBoardInData(obj: any, depth: number = 0): BoardInfo | undefined {
 /**
  * Extract pins that belong to a specific board
  */
-function extractBoardPins(data: any, boardId?: string): PinterestImage[] {
+export function extractBoardPins(data: any, boardId?: string): PinterestImage[] {
   const images: PinterestImage[] = [];
   const processedIds = new Set<string>();
   
@@ -348,39 +473,222 @@ function extractBoardPins(data: any, boardId?: string): PinterestImage[] {
   return images;
 }
 
+// The parts of Pinterest's pin JSON read by the media extractors below (every field may be missing)
+interface RawImageEntry {
+  url?: string;
+  width?: number;
+  height?: number;
+}
+
+type RawImageMap = Record<string, RawImageEntry | undefined>;
+
+interface RawVideoList {
+  video_list?: Record<string, { url?: string, width?: number, height?: number, duration?: number, thumbnail?: string } | undefined>;
+}
+
+interface RawStoryBlock {
+  image?: { images?: RawImageMap };
+  video?: RawVideoList;
+}
+
+export interface RawMediaPin {
+  images?: RawImageMap;
+  videos?: RawVideoList;
+  is_video?: boolean;
+  embed?: { type?: string };
+  carousel_data?: { carousel_slots?: { images?: RawImageMap, title?: string }[] };
+  story_pin_data?: { pages?: { blocks?: RawStoryBlock[] }[] };
+  story_pin_data_id?: string;
+}
+
 /**
- * Extract image data from a pin object
+ * Native size of one entry in a pin's `images` map, when Pinterest reports it
  */
-function extractImageFromPin(pin: any): PinterestImage | null {
-  if (!pin.images) return null;
+function imageDimensions(entry: RawImageEntry | undefined): ImageDimensions | undefined {
+  const width = Number(entry?.width);
+  const height = Number(entry?.height);
+  return width > 0 && height > 0 ? { width, height } : undefined;
+}
+
+/**
+ * Resolution ladder from a Pinterest `images` map; sizes missing from the map are derived from one that exists
+ */
+function imageLadder(images: RawImageMap | undefined): Omit<PinChildImage, 'title' | 'video'> | null {
+  if (!images || typeof images !== 'object') return null;
+  const thumbnailEntry = images['236x'];
+  const mediumEntry = images['474x'] || images['564x'];
+  const largeEntry = images['736x'] || images['564x'];
+  const originalEntry = images['orig'] || images['originals'];
+  const base = thumbnailEntry?.url || largeEntry?.url || mediumEntry?.url || originalEntry?.url;
+  if (!base) return null;
+
+  const sizes: PinterestImage['sizes'] = {};
+  const thumbnailSize = imageDimensions(thumbnailEntry);
+  const mediumSize = imageDimensions(mediumEntry);
+  const largeSize = imageDimensions(largeEntry);
+  const originalSize = imageDimensions(originalEntry);
+  if (thumbnailSize) sizes.thumbnail = thumbnailSize;
+  if (mediumSize) sizes.medium = mediumSize;
+  if (largeSize) sizes.large = largeSize;
+  if (originalSize) sizes.original = originalSize;
+
+  return {
+    thumbnail: thumbnailEntry?.url || transformImageUrl(base, '236x'),
+    medium: mediumEntry?.url || transformImageUrl(base, '474x'),
+    large: largeEntry?.url || transformImageUrl(base, '736x'),
+    original: originalEntry?.url || transformImageUrl(base, 'originals'),
+    sizes: Object.keys(sizes).length > 0 ? sizes : undefined
+  };
+}
+
+/**
+ * Every page of an idea/story pin or slot of a carousel pin, in display order
+ */
+export function extractChildImages(pin: RawMediaPin): PinChildImage[] {
+  const children: PinChildImage[] = [];
+
+  const slots = pin?.carousel_data?.carousel_slots;
+  if (Array.isArray(slots)) {
+    for (const slot of slots) {
+      const ladder = imageLadder(slot?.images);
+      if (ladder) children.push({ ...ladder, title: slot.title || undefined });
+    }
+    return children;
+  }
+
+  const pages = pin?.story_pin_data?.pages;
+  if (Array.isArray(pages)) {
+    for (const page of pages) {
+      const blocks = page?.blocks || [];
+      // A page is either an image block or a video block (whose poster is the variant thumbnail)
+      const imageBlock = blocks.find(block => block?.image?.images);
+      const videoBlock = blocks.find(block => block?.video?.video_list);
+      let ladder = imageLadder(imageBlock?.image?.images);
+      if (!ladder && videoBlock?.video?.video_list) {
+        const poster = Object.values(videoBlock.video.video_list).find(variant => variant?.thumbnail)?.thumbnail;
+        // Poster URLs aren't on the size ladder, so every size is the same file
+        ladder = poster ? { thumbnail: poster, medium: poster, large: poster, original: poster } : null;
+      }
+      if (!ladder) continue;
+      children.push({
+        ...ladder,
+        video: videoBlock ? extractVideoFromPin({ videos: videoBlock.video }) : undefined
+      });
+    }
+  }
+
+  return children;
+}
+
+/**
+ * Video variants of a video pin (regular video pins and video story/idea pins)
+ */
+export function extractVideoFromPin(pin: RawMediaPin): PinVideo | undefined {
+  const storyBlocks = (pin?.story_pin_data?.pages || []).flatMap(page => page?.blocks || []);
+  const videoList = pin?.videos?.video_list
+    || storyBlocks.find(block => block?.video?.video_list)?.video?.video_list;
+  if (!videoList || typeof videoList !== 'object') return undefined;
+
+  const variants: PinVideoVariant[] = [];
+  let durationMs: number | undefined;
+  for (const [quality, entry] of Object.entries(videoList)) {
+    if (!entry?.url || typeof entry.url !== 'string') continue;
+    const path = entry.url.split('?')[0].toLowerCase();
+    variants.push({
+      quality,
+      url: entry.url,
+      format: path.endsWith('.m3u8') ? 'hls' : path.endsWith('.mp4') ? 'mp4' : 'other',
+      width: Number(entry.width) || undefined,
+      height: Number(entry.height) || undefined
+    });
+    if (!durationMs && Number(entry.duration) > 0) durationMs = Number(entry.duration);
+  }
+  if (variants.length === 0) return undefined;
+
+  // Highest resolution progressive MP4 wins
+  const mp4 = variants
+    .filter(variant => variant.format === 'mp4')
+    .sort((a, b) => (b.width ?? 0) - (a.width ?? 0))[0];
+  const hls = variants.find(variant => variant.format === 'hls');
+
+  return { mp4: mp4?.url, hls: hls?.url, durationMs, variants };
+}
+
+/**
+ * What kind of media a pin holds, from the pin JSON
+ */
+function detectMediaType(pin: RawMediaPin): PinMediaType {
+  if (pin.story_pin_data || pin.story_pin_data_id) return 'story';
+  if (pin.carousel_data?.carousel_slots?.length) return 'carousel';
+  if (pin.videos?.video_list || pin.is_video) return 'video';
+  const original = pin.images?.orig?.url || pin.images?.originals?.url || '';
+  if (/\.gif(\?|$)/i.test(original) || pin.embed?.type === 'gif') return 'gif';
+  return 'image';
+}
+
+/**
+ * Extract image data and metadata from a pin object (used by every JSON-based extractor)
+ */
+export function extractImageFromPin(pin: any): PinterestImage | null {
+  if (!pin?.images) return null;
   
-  const pinImages = pin.images;
-  const thumbnail = pinImages['236x']?.url || '';
+  const thumbnail = pin.images['236x']?.url || '';
   
   if (!thumbnail) return null;
-  
+
+  const ladder = imageLadder(pin.images);
+  if (!ladder) return null;
+  const children = extractChildImages(pin);
+
+  const link = pin.link || pin.tracked_link || undefined;
+  let domain: string | undefined = pin.domain || undefined;
+  if (!domain && link) {
+    try {
+      domain = new URL(link).hostname.replace(/^www\./, '');
+    } catch {
+      // not an absolute URL
+    }
+  }
+
+  const repinCount = pin.repin_count;
+  const saveCount = pin.aggregated_pin_data?.aggregated_stats?.saves ?? pin.save_count;
+
   return {
-    id: pin.id,
+    id: String(pin.id),
     url: thumbnail,
-    thumbnail: thumbnail,
-    medium: pinImages['474x']?.url || pinImages['564x']?.url || transformImageUrl(thumbnail, '474x'),
-    large: pinImages['736x']?.url || pinImages['564x']?.url || transformImageUrl(thumbnail, '736x'),
-    original: pinImages['orig']?.url || pinImages['originals']?.url || transformImageUrl(thumbnail, 'originals'),
+    thumbnail: ladder.thumbnail,
+    medium: ladder.medium,
+    large: ladder.large,
+    original: ladder.original,
     title: pin.title || pin.grid_title || '',
-    description: pin.description || ''
+    description: pin.description || '',
+    boardId: pin.board?.id ? String(pin.board.id) : undefined,
+    sectionId: pin.section?.id ? String(pin.section.id) : pin.board_section_id ? String(pin.board_section_id) : undefined,
+    sizes: ladder.sizes,
+    dominantColor: pin.dominant_color || undefined,
+    createdAt: pin.created_at || undefined,
+    link,
+    domain,
+    pinner: pin.pinner?.username || pin.native_creator?.username || undefined,
+    repinCount: typeof repinCount === 'number' ? repinCount : undefined,
+    saveCount: typeof saveCount === 'number' ? saveCount : undefined,
+    mediaType: detectMediaType(pin),
+    video: extractVideoFromPin(pin),
+    children: children.length > 0 ? children : undefined
   };
 }
 
 /**
  * Recursively find pins in nested data structure
  */
-function findPinsRecursively(obj: any, images: PinterestImage[], processedIds: Set<string>, boardId?: string, depth: number = 0): void {
+export function findPinsRecursively(obj: any, images: PinterestImage[], processedIds: Set<string>, boardId?: string, depth: number = 0): void {
   if (!obj || typeof obj !== 'object' || depth > 10) return;
   
   // Check if this looks like a pin object
   if (obj.id && obj.images && !processedIds.has(obj.id)) {
     // Skip "related pins" or "more ideas" sections
-    const isRelated = obj.section_type === 'related' || obj.type === 'story' || obj.type === 'idea';
+    // Idea/story pins carry story_pin_data; bare story/idea modules are recommendations
+    const isRelated = obj.section_type === 'related' || ((obj.type === 'story' || obj.type === 'idea') && !obj.story_pin_data);
     if (isRelated) return;
     
     // Skip if it doesn't belong to our board
@@ -432,7 +740,7 @@ function getNestedProperty(obj: any, path: string): any {
 /**
  * Extract board info from Pinterest's current JSON structure
  */
-function extractBoardInfoNew(data: any): BoardInfo | undefined {
+export function extractBoardInfoNew(data: any): BoardInfo | undefined {
   try {
     // Prefer precise board info via recursive search if available
     const direct = findBoardInfoRecursive(data);
@@ -549,7 +857,7 @@ function generateBoardId(name: string): string {
 /**
  * Extract pins from Pinterest's current structure
  */
-function extractBoardPinsNew(data: any, boardId?: string): PinterestImage[] {
+export function extractBoardPinsNew(data: any, boardId?: string): PinterestImage[] {
   const images: PinterestImage[] = [];
   const processedIds = new Set<string>();
   
@@ -582,13 +890,13 @@ function extractBoardPinsNew(data: any, boardId?: string): PinterestImage[] {
 /**
  * Find pins in nested Pinterest data structure
  */
-function findPinsInStructure(obj: any, images: PinterestImage[], processedIds: Set<string>, boardId?: string, depth: number = 0): void {
+export function findPinsInStructure(obj: any, images: PinterestImage[], processedIds: Set<string>, boardId?: string, depth: number = 0): void {
   if (!obj || typeof obj !== 'object' || depth > 10) return;
   
   // Check if this looks like a pin
   if (obj.id && obj.images && !processedIds.has(obj.id)) {
     // Skip related/suggested content
-    if (obj.section_type === 'related' || obj.type === 'story') return;
+    if (obj.section_type === 'related' || (obj.type === 'story' && !obj.story_pin_data)) return;
 
     // If a boardId is provided, ensure the pin belongs to that board
     if (boardId && obj.board?.id && obj.board.id !== boardId) return;
@@ -691,42 +999,48 @@ function extractAllPinsFromData(data: any): PinterestImage[] {
 }
 
 /**
- * Extract board username and slug from URL
+ * Fetch one page of an internal /resource/<name>/get/ endpoint with the XHR and session headers
+ * Pinterest expects, then wait a moment to respect rate limits. Throws on an HTTP error; the
+ * '-end-' bookmark of the last page comes back as no next bookmark.
  */
-export function parseBoardUrl(boardUrl: string): { username: string; slug: string } | null {
-  try {
-    const url = new URL(boardUrl.startsWith('http') ? boardUrl : `https://${boardUrl}`);
-    if (!url.hostname.endsWith('pinterest.com')) return null;
-
-    // Normalize leading/trailing slashes and handle variants like /{user}/{board}/pins
-    const pathname = url.pathname.replace(/^\/+|\/+$/g, '');
-    const parts = pathname.split('/').filter(Boolean);
-
-    // Supported patterns:
-    // /{user}/{board}
-    // /{user}/{board}/pins
-    // /{user}/{board}/pins/...
-    if (parts.length >= 2) {
-      const username = parts[0];
-      const slug = parts[1];
-      return { username, slug };
-    }
-
-    return null;
-  } catch {
-    // Fallback regex-based parsing
-    const patterns = [
-      /pinterest\.com\/([^/]+)\/([^/]+)\/?/,
-      /m\.pinterest\.com\/([^/]+)\/([^/]+)\/?/
-    ];
-    for (const pattern of patterns) {
-      const match = boardUrl.match(pattern);
-      if (match) {
-        return { username: match[1], slug: match[2] };
-      }
-    }
-    return null;
+export async function fetchResourcePage(
+  resource: string,
+  resourceOptions: Record<string, unknown>,
+  sourceUrl: string,
+  bookmark?: string,
+  requestOptions: Pick<ScrapeOptions, 'signal' | 'transport'> = {}
+) {
+  const params = new URLSearchParams({
+    source_url: sourceUrl,
+    data: JSON.stringify({
+      options: { ...resourceOptions, ...(bookmark ? { bookmarks: [bookmark] } : {}) },
+      context: {}
+    })
+  });
+
+  const url = `https://www.pinterest.com/resource/${resource}/get/?${params.toString()}`;
+  const response = await transportFetch(requestOptions.transport, url, {
+    headers: {
+      'Accept': 'application/json, text/javascript, */*; q=0.01',
+      'X-Requested-With': 'XMLHttpRequest',
+      'X-Pinterest-AppState': 'active',
+      'Referer': `https://www.pinterest.com${sourceUrl}`,
+      ...await sessionHeaders(url)
+    },
+    signal: requestOptions.signal
+  });
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status} ${response.statusText}`.trim());
   }
+
+  const data = await response.json();
+  const next: string | undefined = data.resource?.options?.bookmarks?.[0] || data.resource_response?.bookmark || undefined;
+
+  // Small randomized delay to respect rate limits
+  await new Promise((resolve) => setTimeout(resolve, 300 + Math.floor(Math.random() * 500)));
+
+  return { data, nextBookmark: next && next !== '-end-' ? next : undefined };
 }
 
 /**
@@ -735,8 +1049,9 @@ export function parseBoardUrl(boardUrl: string): { username: string; slug: strin
 export async function fetchBoardPins(
   username: string,
   slug: string,
-  bookmark?: string
-): Promise<{ pins: PinterestImage[], nextBookmark?: string, boardInfo?: BoardInfo }> {
+  bookmark?: string,
+  requestOptions: Pick<ScrapeOptions, 'signal' | 'transport'> = {}
+): Promise<{ pins: PinterestImage[], nextBookmark?: string, boardInfo?: BoardInfo, error?: string, diagnostics?: ExtractionDiagnostics }> {
   const pins: PinterestImage[] = [];
   let boardInfo: BoardInfo | undefined;
   let nextBookmark: string | undefined;
@@ -763,19 +1078,20 @@ export async function fetchBoardPins(
     const params = new URLSearchParams(options);
     const url = `${apiUrl}?${params.toString()}`;
 
-    const response = await fetch(url, {
+    const response = await transportFetch(requestOptions.transport, url, {
       headers: {
         'Accept': 'application/json, text/javascript, */*; q=0.01',
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
         'X-Requested-With': 'XMLHttpRequest',
         'X-Pinterest-AppState': 'active',
-        'Referer': `https://www.pinterest.com/${username}/${slug}/`
-      }
+        'Referer': `https://www.pinterest.com/${username}/${slug}/`,
+        ...await sessionHeaders(url)
+      },
+      signal: requestOptions.signal
     });
 
     if (!response.ok) {
       console.log(`API request failed: ${response.status} ${response.statusText}`);
-      return { pins: [] };
+      return { pins: [], error: `HTTP ${response.status} ${response.statusText}`.trim() };
     }
 
     const data = await response.json();
@@ -795,7 +1111,8 @@ export async function fetchBoardPins(
     // Extract pins
     const apiPins = data.resource_response?.data?.results || data.resource_response?.data || [];
     for (const pin of apiPins) {
-      if (!pin || !pin.id || !pin.images) continue;
+      // Promoted pins are ads, not board content (same as the search and related feeds)
+      if (!pin || !pin.id || !pin.images || pin.is_promoted) continue;
       const image = extractImageFromPin(pin);
       if (image) {
         pins.push(image);
@@ -813,54 +1130,302 @@ export async function fetchBoardPins(
     // Small randomized delay to respect rate limits
     await new Promise((resolve) => setTimeout(resolve, 300 + Math.floor(Math.random() * 500)));
 
-    return { pins, nextBookmark, boardInfo };
+    return { pins, nextBookmark, boardInfo, diagnostics: diagnoseResourcePage('BoardFeedResource', data, pins.length) };
   } catch (error) {
     console.error('Error fetching from Pinterest API:', error);
-    return { pins: [] };
+    return { pins: [], error: error instanceof Error ? error.message : 'Request failed' };
+  }
+}
+
+/**
+ * List a board's sections via Pinterest's internal BoardSectionsResource
+ */
+export async function fetchBoardSections(
+  username: string,
+  slug: string,
+  requestOptions: Pick<ScrapeOptions, 'signal' | 'transport'> = {}
+): Promise<{ sections: BoardSection[], error?: string }> {
+  const sections: BoardSection[] = [];
+  let bookmark: string | undefined;
+
+  try {
+    // Boards rarely have more than a page or two of sections
+    for (let page = 0; page < 10; page++) {
+      const params = new URLSearchParams({
+        source_url: `/${username}/${slug}/`,
+        data: JSON.stringify({
+          options: {
+            board_url: `/${username}/${slug}/`,
+            page_size: 100,
+            ...(bookmark ? { bookmarks: [bookmark] } : {})
+          },
+          context: {}
+        })
+      });
+
+      const url = `https://www.pinterest.com/resource/BoardSectionsResource/get/?${params.toString()}`;
+      const response = await transportFetch(requestOptions.transport, url, {
+        headers: {
+          'Accept': 'application/json, text/javascript, */*; q=0.01',
+          'X-Requested-With': 'XMLHttpRequest',
+          'X-Pinterest-AppState': 'active',
+          'Referer': `https://www.pinterest.com/${username}/${slug}/`,
+          ...await sessionHeaders(url)
+        },
+        signal: requestOptions.signal
+      });
+
+      if (!response.ok) {
+        console.log(`Sections request failed: ${response.status} ${response.statusText}`);
+        return { sections, error: `HTTP ${response.status} ${response.statusText}`.trim() };
+      }
+
+      const data = await response.json();
+      const results = data.resource_response?.data?.sections || data.resource_response?.data || [];
+      for (const section of Array.isArray(results) ? results : []) {
+        if (!section?.id) continue;
+        sections.push({
+          id: String(section.id),
+          slug: section.slug || String(section.id),
+          title: section.title || section.slug || 'Untitled section',
+          pinCount: section.pin_count || 0
+        });
+      }
+
+      bookmark = data.resource?.options?.bookmarks?.[0] || data.resource_response?.bookmark;
+      if (!bookmark || bookmark === '-end-') break;
+    }
+
+    return { sections };
+  } catch (error) {
+    requestOptions.signal?.throwIfAborted();
+    console.error('Error fetching board sections:', error);
+    return { sections, error: error instanceof Error ? error.message : 'Request failed' };
   }
 }
 
+/**
+ * Fetch one page of a section's pins (BoardSectionPinsResource); pins are tagged with the section id
+ */
+export async function fetchSectionPins(
+  username: string,
+  slug: string,
+  sectionId: string,
+  bookmark?: string,
+  requestOptions: Pick<ScrapeOptions, 'signal' | 'transport'> = {}
+): Promise<{ pins: PinterestImage[], nextBookmark?: string, error?: string }> {
+  try {
+    const { data, nextBookmark } = await fetchResourcePage(
+      'BoardSectionPinsResource',
+      { section_id: sectionId, field_set_key: 'react_grid_pin', page_size: 50 },
+      `/${username}/${slug}/`,
+      bookmark,
+      requestOptions
+    );
+
+    const pins: PinterestImage[] = [];
+    const apiPins = data.resource_response?.data?.results || data.resource_response?.data || [];
+    for (const pin of Array.isArray(apiPins) ? apiPins : []) {
+      if (!pin || !pin.id || !pin.images || pin.is_promoted) continue;
+      const image = extractImageFromPin(pin);
+      if (image) {
+        pins.push({ ...image, sectionId });
+      }
+    }
+
+    return { pins, nextBookmark };
+  } catch (error) {
+    requestOptions.signal?.throwIfAborted();
+    console.error('Error fetching section pins:', error);
+    return { pins: [], error: error instanceof Error ? error.message : 'Request failed' };
+  }
+}
+
+/**
+ * Paginate every pin of one section into `images`, skipping ids already in `seenIds`
+ */
+async function collectSectionPins(
+  username: string,
+  slug: string,
+  section: BoardSection,
+  maxPages: number,
+  seenIds: Set<string>,
+  images: PinterestImage[],
+  onPage: (addedPins: PinterestImage[]) => void,
+  requestOptions: Pick<ScrapeOptions, 'signal' | 'transport'> = {}
+): Promise<string | undefined> {
+  let bookmark: string | undefined;
+  for (let page = 0; page < maxPages; page++) {
+    const { pins, nextBookmark, error } = await fetchSectionPins(username, slug, section.id, bookmark, requestOptions);
+    requestOptions.signal?.throwIfAborted();
+    if (error) return error;
+
+    const addedPins: PinterestImage[] = [];
+    for (const pin of pins) {
+      if (seenIds.has(pin.id)) {
+        // Pin came through the board feed first; record which section it belongs to
+        const existing = images.find(img => img.id === pin.id);
+        if (existing && !existing.sectionId) existing.sectionId = section.id;
+        continue;
+      }
+      seenIds.add(pin.id);
+      images.push(pin);
+      addedPins.push(pin);
+    }
+    onPage(addedPins);
+    console.log(`Section "${section.title}" page ${page + 1}: Added ${addedPins.length} new pins (total: ${images.length})`);
+
+    if (pins.length === 0 || !nextBookmark) break;
+    bookmark = nextBookmark;
+  }
+  return undefined;
+}
+
+/**
+ * Find a section by the slug used in its URL (falls back to matching the title)
+ */
+function findSection(sections: BoardSection[], sectionSlug: string): BoardSection | undefined {
+  const wanted = decodeURIComponent(sectionSlug).toLowerCase();
+  const slugify = (value: string) => value.toLowerCase().trim().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return sections.find(section => section.slug.toLowerCase() === wanted)
+    || sections.find(section => slugify(section.title) === slugify(wanted));
+}
+
+/**
+ * Scrape the pins of a single section URL (/{user}/{board}/{section}/)
+ */
+export async function scrapeBoardSection(
+  boardUrl: string,
+  maxPages: number = 10,
+  options: ScrapeOptions = {}
+): Promise<{ images: PinterestImage[], sections: BoardSection[] }> {
+  const parts = parseBoardUrl(boardUrl);
+  if (!parts?.section) {
+    throw new Error('Not a board section URL');
+  }
+
+  const { sections, error } = await fetchBoardSections(parts.username, parts.slug, options);
+  const section = findSection(sections, parts.section);
+  if (!section) {
+    throw new Error(error ? `Failed to list board sections: ${error}` : `Section "${parts.section}" not found on board`);
+  }
+
+  console.log(`Scraping section "${section.title}" (${section.pinCount} pins)`);
+  const images: PinterestImage[] = [];
+  let pagesFetched = 0;
+  const sectionError = await collectSectionPins(parts.username, parts.slug, section, maxPages, new Set(), images, (addedPins) => {
+    pagesFetched++;
+    options.onProgress?.({ pagesFetched, pins: addedPins, totalPins: images.length });
+  }, options);
+
+  if (sectionError && images.length === 0) {
+    throw new Error(`Failed to fetch section pins: ${sectionError}`);
+  }
+
+  return { images, sections: [section] };
+}
+
+/**
+ * Group pins by section; pins saved directly to the board come first with section null
+ */
+export function groupPinsBySection(
+  images: PinterestImage[],
+  sections: BoardSection[]
+): { section: BoardSection | null, pinIds: string[] }[] {
+  const groups = new Map<string | null, string[]>([[null, []]]);
+  for (const section of sections) groups.set(section.id, []);
+  for (const image of images) {
+    const key = image.sectionId && groups.has(image.sectionId) ? image.sectionId : null;
+    groups.get(key)!.push(image.id);
+  }
+  return Array.from(groups.entries())
+    .map(([id, pinIds]) => ({ section: sections.find(section => section.id === id) ?? null, pinIds }))
+    .filter(group => group.section || group.pinIds.length > 0);
+}
+
 /**
  * Scrape all pins from a Pinterest board with pagination
+ * Returns a checkpoint when pagination stops early (API error or maxPages) so it can be resumed
+ * Section URLs scrape just that section; includeSections adds section pins (tagged with sectionId),
+ * which the board feed leaves out
  */
 export async function scrapePinterestBoard(
   boardUrl: string,
-  maxPages: number = 10
-): Promise<{ images: PinterestImage[], boardInfo?: BoardInfo }> {
+  maxPages: number = 10,
+  options: ScrapeOptions & {
+    resumeFrom?: ScrapeCheckpoint,
+    // Return true to stop paginating early (treated as finished, so no checkpoint is produced)
+    stopWhen?: (state: ScrapeStopState) => boolean,
+    includeSections?: boolean
+  } = {}
+): Promise<{ images: PinterestImage[], boardInfo?: BoardInfo, checkpoint?: ScrapeCheckpoint, sections?: BoardSection[], diagnostics?: ExtractionDiagnostics }> {
+  // One transport for the whole scrape, so a replayed cassette is read from the start exactly once
+  options = { ...options, transport: options.transport ?? createTransport() };
+  const resumeFrom = options.resumeFrom;
+
+  if (!resumeFrom && parseBoardUrl(boardUrl)?.section) {
+    return scrapeBoardSection(boardUrl, maxPages, options);
+  }
+
   let allImages: PinterestImage[] = [];
   let boardInfo: BoardInfo | undefined;
   const seenIds = new Set<string>();
 
-  // First, try HTML scraping for initial pins
-  console.log('Fetching initial board page...');
-  const response = await fetch(boardUrl, {
-    headers: {
-      'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-      'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+  // Diagnostics of the board page and every feed page, merged and recorded once the scrape ends
+  const pageDiagnostics: ExtractionDiagnostics[] = [];
+  const finishDiagnostics = () => {
+    const diagnostics = mergeDiagnostics(pageDiagnostics);
+    void recordDiagnostics('scrape', boardUrl, diagnostics);
+    return diagnostics;
+  };
+
+  if (resumeFrom) {
+    // Resume: restore collected pins and skip the initial HTML page
+    console.log(`Resuming board scrape after ${resumeFrom.pagesFetched} pages (${resumeFrom.images.length} pins)`);
+    allImages = resumeFrom.images.slice();
+    for (const id of resumeFrom.seenIds) seenIds.add(id);
+    boardInfo = resumeFrom.boardInfo;
+    options.onProgress?.({ pagesFetched: resumeFrom.pagesFetched, pins: allImages.slice(), totalPins: allImages.length, boardInfo });
+  } else {
+    // First, try HTML scraping for initial pins
+    console.log('Fetching initial board page...');
+    const response = await transportFetch(options.transport, boardUrl, {
+      headers: {
+        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+        ...await sessionHeaders(boardUrl)
+      },
+      signal: options.signal
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch board: ${response.status}`);
     }
-  });
 
-  if (!response.ok) {
-    throw new Error(`Failed to fetch board: ${response.status}`);
-  }
+    const html = await response.text();
+    const { images: initialImages, boardInfo: htmlBoardInfo, diagnostics: htmlDiagnostics } = extractImagesFromHtml(html);
+    pageDiagnostics.push(htmlDiagnostics);
 
-  const html = await response.text();
-  const { images: initialImages, boardInfo: htmlBoardInfo } = extractImagesFromHtml(html);
+    // De-duplicate initial pins
+    for (const img of initialImages) {
+      if (!seenIds.has(img.id)) {
+        seenIds.add(img.id);
+        allImages.push(img);
+      }
+    }
+    boardInfo = htmlBoardInfo;
+    options.onProgress?.({ pagesFetched: 0, pins: allImages.slice(), totalPins: allImages.length, boardInfo });
 
-  // De-duplicate initial pins
-  for (const img of initialImages) {
-    if (!seenIds.has(img.id)) {
-      seenIds.add(img.id);
-      allImages.push(img);
+    if (options.stopWhen?.({ pagePins: initialImages, images: allImages, boardInfo })) {
+      console.log('Stop condition met on initial board page');
+      return { images: allImages, boardInfo, diagnostics: finishDiagnostics() };
     }
   }
-  boardInfo = htmlBoardInfo;
 
   // Parse board URL for API calls
   const boardParts = parseBoardUrl(boardUrl);
   if (!boardParts) {
     console.log('Could not parse board URL for pagination');
-    return { images: allImages, boardInfo };
+    return { images: allImages, boardInfo, diagnostics: finishDiagnostics() };
   }
 
   const expectedTotalPins = boardInfo?.pinCount && Number.isFinite(boardInfo.pinCount)
@@ -869,36 +1434,58 @@ export async function scrapePinterestBoard(
 
   console.log(`Attempting to fetch more pins via Pinterest API. Current: ${allImages.length}, Expected (if known): ${boardInfo?.pinCount ?? 'unknown'}`);
 
-  let bookmark: string | undefined;
+  let bookmark: string | undefined = resumeFrom?.bookmark;
   let pagesLoaded = 0;
+  let finished = false; // true once the board ran out of pages (vs. error or maxPages)
+  let lastError: string | undefined;
 
   // Fetch additional pages until no bookmark/no new pins or maxPages reached
   while (pagesLoaded < maxPages) {
-    const { pins: newPins, nextBookmark, boardInfo: apiBoardInfo } = await fetchBoardPins(
+    const { pins: newPins, nextBookmark, boardInfo: apiBoardInfo, error, diagnostics: feedDiagnostics } = await fetchBoardPins(
       boardParts.username,
       boardParts.slug,
-      bookmark
+      bookmark,
+      { signal: options.signal, transport: options.transport }
     );
+    options.signal?.throwIfAborted();
+
+    // Keep the bookmark of the failed page so a resume retries it
+    if (error) {
+      lastError = error;
+      console.log(`Pagination stopped at page ${pagesLoaded + 1}: ${error}`);
+      break;
+    }
+
+    if (feedDiagnostics) pageDiagnostics.push(feedDiagnostics);
 
     if (!boardInfo && apiBoardInfo) {
       boardInfo = apiBoardInfo;
     }
 
     // Add only new pins
-    let addedThisPage = 0;
+    const addedPins: PinterestImage[] = [];
     for (const pin of newPins) {
       if (!seenIds.has(pin.id)) {
         seenIds.add(pin.id);
         allImages.push(pin);
-        addedThisPage++;
+        addedPins.push(pin);
       }
     }
+    const addedThisPage = addedPins.length;
 
     pagesLoaded++;
+    options.onProgress?.({ pagesFetched: pagesLoaded, pins: addedPins, totalPins: allImages.length, boardInfo });
     console.log(`Page ${pagesLoaded}: Added ${addedThisPage} new pins (total: ${allImages.length})`);
 
+    if (options.stopWhen?.({ pagePins: newPins, images: allImages, boardInfo })) {
+      console.log(`Stop condition met after page ${pagesLoaded}`);
+      finished = true;
+      break;
+    }
+
     // Stop if no new pins or no next bookmark
     if (addedThisPage === 0 || !nextBookmark) {
+      finished = true;
       break;
     }
 
@@ -906,11 +1493,13 @@ export async function scrapePinterestBoard(
 
     // Stop once we reach the known total pin count
     if (boardInfo?.pinCount && allImages.length >= boardInfo.pinCount) {
+      finished = true;
       break;
     }
 
     // Safety stop
     if (allImages.length >= expectedTotalPins) {
+      finished = true;
       break;
     }
 
@@ -918,6 +1507,24 @@ export async function scrapePinterestBoard(
     await new Promise((resolve) => setTimeout(resolve, 300 + Math.floor(Math.random() * 500)));
   }
 
+  // Section pins are filtered out of the board feed, so fetch them section by section
+  let sections: BoardSection[] | undefined;
+  if (options.includeSections) {
+    const result = await fetchBoardSections(boardParts.username, boardParts.slug, options);
+    sections = result.sections;
+    console.log(`Board has ${sections.length} sections`);
+    let sectionPages = 0;
+    for (const section of sections) {
+      const sectionError = await collectSectionPins(boardParts.username, boardParts.slug, section, maxPages, seenIds, allImages, (addedPins) => {
+        sectionPages++;
+        options.onProgress?.({ pagesFetched: pagesLoaded + sectionPages, pins: addedPins, totalPins: allImages.length, boardInfo });
+      }, options);
+      if (sectionError) {
+        console.log(`Section "${section.title}" stopped early: ${sectionError}`);
+      }
+    }
+  }
+
   // Update board info with actual results if still missing
   if (!boardInfo && allImages.length > 0) {
     boardInfo = {
@@ -937,5 +1544,21 @@ export async function scrapePinterestBoard(
   }
 
   console.log(`Total pins scraped: ${allImages.length}`);
-  return { images: allImages, boardInfo };
+
+  const diagnostics = finishDiagnostics();
+  if (finished) {
+    return { images: allImages, boardInfo, sections, diagnostics };
+  }
+
+  const checkpoint: ScrapeCheckpoint = {
+    boardUrl,
+    bookmark,
+    pagesFetched: (resumeFrom?.pagesFetched ?? 0) + pagesLoaded,
+    seenIds: Array.from(seenIds),
+    images: allImages,
+    boardInfo,
+    error: lastError,
+    updatedAt: new Date().toISOString()
+  };
+  return { images: allImages, boardInfo, checkpoint, sections, diagnostics };
 }
\ No newline at end of file
@@ -0,0 +1,118 @@
+/**
+ * Pin search
+ * Pages through Pinterest's internal BaseSearchResource with bookmarks, like the board feed,
+ * up to a pin cap. Results are tagged with the query and described by a pseudo board so they can
+ * be saved to the library and downloaded like a board.
+ */
+
+import { extractImageFromPin, fetchResourcePage, searchUrlFor } from './scraper';
+import type { PinterestImage, BoardInfo, ScrapeOptions } from './scraper';
+
+export interface SearchResult {
+  query: string;
+  searchUrl: string;
+  images: PinterestImage[];
+  boardInfo: BoardInfo;
+  pagesFetched: number;
+  complete: boolean; // false when pagination failed before the cap or the end of the results
+  error?: string;
+}
+
+/**
+ * Fetch one page of pin search results
+ */
+export async function fetchSearchPins(
+  query: string,
+  bookmark?: string,
+  requestOptions: Pick<ScrapeOptions, 'signal' | 'transport'> = {}
+): Promise<{ pins: PinterestImage[], nextBookmark?: string, error?: string }> {
+  try {
+    const { data, nextBookmark } = await fetchResourcePage(
+      'BaseSearchResource',
+      { query, scope: 'pins', field_set_key: 'react_grid_pin', page_size: 25 },
+      `/search/pins/?q=${encodeURIComponent(query)}`,
+      bookmark,
+      requestOptions
+    );
+    const results = data.resource_response?.data?.results || data.resource_response?.data || [];
+    const pins: PinterestImage[] = [];
+    for (const pin of Array.isArray(results) ? results : []) {
+      // Search mixes in ads and query suggestion modules
+      if (!pin?.id || !pin.images || pin.is_promoted) continue;
+      const image = extractImageFromPin(pin);
+      if (image) pins.push({ ...image, searchQuery: query });
+    }
+
+    return { pins, nextBookmark };
+  } catch (error) {
+    requestOptions.signal?.throwIfAborted();
+    console.error('Error fetching search results:', error);
+    return { pins: [], error: error instanceof Error ? error.message : 'Request failed' };
+  }
+}
+
+/**
+ * Collect search results until the pin cap, the end of the results or maxPages
+ */
+export async function scrapeSearch(
+  query: string,
+  options: ScrapeOptions & { maxPins?: number, maxPages?: number } = {}
+): Promise<SearchResult> {
+  const maxPins = options.maxPins ?? 200;
+  const maxPages = options.maxPages ?? 40;
+  const searchUrl = searchUrlFor(query);
+  const images: PinterestImage[] = [];
+  const seenIds = new Set<string>();
+  let bookmark: string | undefined;
+  let pagesFetched = 0;
+  let finished = false;
+  let lastError: string | undefined;
+
+  const describe = (): BoardInfo => ({
+    id: `search:${query.toLowerCase()}`,
+    name: `Search: ${query}`,
+    url: searchUrl,
+    pinCount: images.length,
+    owner: ''
+  });
+
+  while (pagesFetched < maxPages) {
+    const { pins, nextBookmark, error } = await fetchSearchPins(query, bookmark, options);
+    options.signal?.throwIfAborted();
+    if (error) {
+      lastError = error;
+      console.log(`Search pagination stopped at page ${pagesFetched + 1}: ${error}`);
+      break;
+    }
+
+    const addedPins: PinterestImage[] = [];
+    for (const pin of pins) {
+      if (images.length >= maxPins) break;
+      if (seenIds.has(pin.id)) continue;
+      seenIds.add(pin.id);
+      images.push(pin);
+      addedPins.push(pin);
+    }
+
+    pagesFetched++;
+    options.onProgress?.({ pagesFetched, pins: addedPins, totalPins: images.length, boardInfo: describe() });
+    console.log(`🔎 Search "${query}" page ${pagesFetched}: Added ${addedPins.length} new pins (total: ${images.length})`);
+
+    if (images.length >= maxPins || addedPins.length === 0 || !nextBookmark) {
+      finished = true;
+      break;
+    }
+    bookmark = nextBookmark;
+  }
+
+  return {
+    query,
+    searchUrl,
+    images,
+    boardInfo: describe(),
+    pagesFetched,
+    // Reaching maxPages below the cap still counts as done: the caller chose the budget
+    complete: finished || !lastError,
+    error: lastError
+  };
+}
@@ -0,0 +1,69 @@
+/**
+ * Encrypted files in the data directory for credentials (session cookies, OAuth tokens)
+ * AES-256-GCM with a key derived from SESSION_SECRET; nothing is ever written in plaintext.
+ */
+
+import path from 'path';
+import { promises as fs } from 'fs';
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+import { ensureDataDir } from './data-dir';
+
+export class SessionSecretMissingError extends Error {
+  constructor() {
+    super('SESSION_SECRET is not set; it is required to store credentials encrypted');
+    this.name = 'SessionSecretMissingError';
+  }
+}
+
+function encryptionKey(): Buffer {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret) throw new SessionSecretMissingError();
+  return scryptSync(secret, 'pinterest-scraper-session', 32);
+}
+
+async function storeFile(name: string): Promise<string> {
+  return path.join(await ensureDataDir(), name);
+}
+
+/**
+ * Layout: 12-byte IV | 16-byte auth tag | ciphertext
+ */
+function encrypt(plaintext: string): Buffer {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', encryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]);
+}
+
+function decrypt(data: Buffer): string {
+  const decipher = createDecipheriv('aes-256-gcm', encryptionKey(), data.subarray(0, 12));
+  decipher.setAuthTag(data.subarray(12, 28));
+  return Buffer.concat([decipher.update(data.subarray(28)), decipher.final()]).toString('utf8');
+}
+
+export async function writeEncryptedJson(name: string, value: unknown): Promise<void> {
+  await fs.writeFile(await storeFile(name), encrypt(JSON.stringify(value)), { mode: 0o600 });
+}
+
+/**
+ * Read an encrypted file; null when it doesn't exist or can't be decrypted (e.g. SESSION_SECRET changed)
+ */
+export async function readEncryptedJson<T>(name: string): Promise<T | null> {
+  let data: Buffer;
+  try {
+    data = await fs.readFile(await storeFile(name));
+  } catch {
+    return null;
+  }
+
+  try {
+    return JSON.parse(decrypt(data)) as T;
+  } catch (error) {
+    console.error(`Secure store: failed to decrypt ${name}:`, error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+export async function deleteEncrypted(name: string): Promise<void> {
+  await fs.rm(await storeFile(name), { force: true });
+}
@@ -0,0 +1,195 @@
+/**
+ * Imported Pinterest session (cookie jar) for private and secret boards
+ * Accepts a Netscape cookies.txt or a JSON export (browser extensions, Playwright storage state).
+ * The jar is stored encrypted at rest (AES-256-GCM, key from SESSION_SECRET) and attached to
+ * every request the scrapers send to pinterest.com.
+ */
+
+import { readEncryptedJson, writeEncryptedJson, deleteEncrypted } from './secure-store';
+
+export interface SessionCookie {
+  name: string;
+  value: string;
+  domain: string;
+  path: string;
+  expires?: number; // unix seconds; undefined for session cookies
+  secure: boolean;
+  httpOnly: boolean;
+}
+
+export interface SessionStatus {
+  active: boolean;
+  cookieCount: number;
+  loggedIn: boolean; // has Pinterest's auth cookie
+  importedAt?: string;
+  expiresAt?: string; // earliest expiry among the auth cookies
+}
+
+interface StoredSession {
+  importedAt: string;
+  cookies: SessionCookie[];
+}
+
+const AUTH_COOKIE = '_pinterest_sess';
+const SESSION_FILE = 'session.enc';
+
+// Decrypted jar cached on globalThis (undefined = not loaded yet, null = none stored)
+const globalForSession = globalThis as unknown as { __pinterestSession?: StoredSession | null };
+
+function isPinterestDomain(domain: string): boolean {
+  const host = domain.replace(/^\./, '').toLowerCase();
+  return host === 'pinterest.com' || host.endsWith('.pinterest.com');
+}
+
+/**
+ * Parse a Netscape cookies.txt (as written by curl and "Get cookies.txt" extensions)
+ */
+function parseNetscapeCookies(text: string): SessionCookie[] {
+  const cookies: SessionCookie[] = [];
+  for (const rawLine of text.split(/\r?\n/)) {
+    // curl marks HttpOnly cookies with a #HttpOnly_ prefix on the domain
+    const httpOnly = rawLine.startsWith('#HttpOnly_');
+    const line = httpOnly ? rawLine.slice('#HttpOnly_'.length) : rawLine;
+    if (!line.trim() || line.startsWith('#')) continue;
+
+    const fields = line.split('\t');
+    if (fields.length < 7) continue;
+    const [domain, , cookiePath, secure, expires, name, ...value] = fields;
+    const expiry = Number(expires);
+    cookies.push({
+      name,
+      value: value.join('\t'),
+      domain,
+      path: cookiePath || '/',
+      expires: expiry > 0 ? expiry : undefined,
+      secure: secure.toUpperCase() === 'TRUE',
+      httpOnly
+    });
+  }
+  return cookies;
+}
+
+/**
+ * Parse a JSON export: an array of cookies or an object with a `cookies` array
+ */
+function parseJsonCookies(text: string): SessionCookie[] {
+  const parsed = JSON.parse(text);
+  const list = Array.isArray(parsed) ? parsed : parsed?.cookies;
+  if (!Array.isArray(list)) throw new Error('JSON cookie export must be an array or have a "cookies" array');
+
+  const cookies: SessionCookie[] = [];
+  for (const cookie of list) {
+    if (!cookie?.name || typeof cookie.value !== 'string' || !cookie.domain) continue;
+    // Extensions use expirationDate, Playwright uses expires (-1 for session cookies)
+    const expiry = Number(cookie.expirationDate ?? cookie.expires);
+    cookies.push({
+      name: String(cookie.name),
+      value: cookie.value,
+      domain: String(cookie.domain),
+      path: cookie.path || '/',
+      expires: expiry > 0 ? Math.floor(expiry) : undefined,
+      secure: Boolean(cookie.secure),
+      httpOnly: Boolean(cookie.httpOnly)
+    });
+  }
+  return cookies;
+}
+
+/**
+ * Parse a cookie jar in either format, keeping only Pinterest cookies
+ */
+export function parseCookieJar(text: string): SessionCookie[] {
+  const trimmed = text.trim();
+  const cookies = trimmed.startsWith('[') || trimmed.startsWith('{')
+    ? parseJsonCookies(trimmed)
+    : parseNetscapeCookies(trimmed);
+  return cookies.filter(cookie => isPinterestDomain(cookie.domain));
+}
+
+async function loadSession(): Promise<StoredSession | null> {
+  if (globalForSession.__pinterestSession === undefined) {
+    globalForSession.__pinterestSession = await readEncryptedJson<StoredSession>(SESSION_FILE);
+  }
+  return globalForSession.__pinterestSession;
+}
+
+function liveCookies(session: StoredSession | null): SessionCookie[] {
+  const now = Date.now() / 1000;
+  return (session?.cookies ?? []).filter(cookie => !cookie.expires || cookie.expires > now);
+}
+
+/**
+ * Replace the stored session with a new cookie jar
+ */
+export async function importSession(jarText: string): Promise<SessionStatus> {
+  const cookies = parseCookieJar(jarText);
+  if (cookies.length === 0) {
+    throw new Error('No pinterest.com cookies found in the cookie jar');
+  }
+
+  const session: StoredSession = { importedAt: new Date().toISOString(), cookies };
+  await writeEncryptedJson(SESSION_FILE, session);
+  globalForSession.__pinterestSession = session;
+  console.log(`🔐 Session: imported ${cookies.length} Pinterest cookies`);
+  return getSessionStatus();
+}
+
+export async function clearSession(): Promise<void> {
+  await deleteEncrypted(SESSION_FILE);
+  globalForSession.__pinterestSession = null;
+}
+
+/**
+ * What is stored, without exposing cookie values
+ */
+export async function getSessionStatus(): Promise<SessionStatus> {
+  const session = await loadSession();
+  const cookies = liveCookies(session);
+  const authExpiry = cookies
+    .filter(cookie => cookie.name === AUTH_COOKIE && cookie.expires)
+    .map(cookie => cookie.expires!)
+    .sort((a, b) => a - b)[0];
+  return {
+    active: cookies.length > 0,
+    cookieCount: cookies.length,
+    loggedIn: cookies.some(cookie => cookie.name === AUTH_COOKIE),
+    importedAt: session?.importedAt,
+    expiresAt: authExpiry ? new Date(authExpiry * 1000).toISOString() : undefined
+  };
+}
+
+/**
+ * Unexpired session cookies (for Playwright's context.addCookies)
+ */
+export async function getSessionCookies(): Promise<SessionCookie[]> {
+  return liveCookies(await loadSession());
+}
+
+/**
+ * Cookie (and CSRF) headers to add to a pinterest.com request; empty without a session
+ */
+export async function sessionHeaders(url: string): Promise<Record<string, string>> {
+  const cookies = await getSessionCookies();
+  if (cookies.length === 0) return {};
+
+  let host: string;
+  let pathname: string;
+  try {
+    ({ hostname: host, pathname } = new URL(url));
+  } catch {
+    return {};
+  }
+  const matching = cookies.filter(cookie => {
+    const domain = cookie.domain.replace(/^\./, '').toLowerCase();
+    return (host === domain || host.endsWith(`.${domain}`)) && pathname.startsWith(cookie.path);
+  });
+  if (matching.length === 0) return {};
+
+  const headers: Record<string, string> = {
+    Cookie: matching.map(cookie => `${cookie.name}=${cookie.value}`).join('; ')
+  };
+  // Pinterest's resource endpoints expect the CSRF cookie echoed back for logged-in requests
+  const csrf = matching.find(cookie => cookie.name === 'csrftoken');
+  if (csrf) headers['X-CSRFToken'] = csrf.value;
+  return headers;
+}
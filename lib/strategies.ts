@@ -0,0 +1,247 @@
+/**
+ * Scrape strategies and the server-side fallback chain
+ * Runs each strategy in order, merging pins by id until the board looks complete
+ */
+
+import { scrapePinterestBoard, parseBoardUrl } from './scraper';
+import type { PinterestImage, BoardInfo, BoardSection, ScrapeOptions } from './scraper';
+import { scrapeBoardWithPlaywright } from './playwright';
+import { scrapeBoardEnhanced } from './enhanced';
+import { scrapeBoardWithApi } from './pinterest-api';
+import { mergeDiagnostics } from './diagnostics';
+import type { ExtractionDiagnostics } from './diagnostics';
+
+export interface StrategyOptions extends ScrapeOptions {
+  maxPages?: number;
+  includeSections?: boolean;
+}
+
+export interface StrategyResult {
+  images: PinterestImage[];
+  boardInfo?: BoardInfo;
+  sections?: BoardSection[];
+  diagnostics?: ExtractionDiagnostics; // extractor drift diagnostics, for strategies that parse Pinterest payloads
+}
+
+export interface ScrapeStrategy {
+  name: string;
+  sectionAware?: boolean; // can scrape a single section URL without pulling in the rest of the board
+  run(boardUrl: string, options: StrategyOptions): Promise<StrategyResult>;
+}
+
+export interface StrategyReport {
+  name: string;
+  success: boolean;
+  pinCount: number;
+  added: number;
+  durationMs: number;
+  error?: string;
+  diagnostics?: ExtractionDiagnostics;
+}
+
+export type ChainEvent =
+  | { type: 'strategy'; name: string }
+  | { type: 'board'; boardInfo: BoardInfo }
+  | { type: 'pins'; pins: PinterestImage[]; totalPins: number }
+  | { type: 'progress'; strategy: string; pagesFetched: number; totalPins: number; pinCount?: number };
+
+export interface ChainResult {
+  images: PinterestImage[];
+  boardInfo?: BoardInfo;
+  strategies: StrategyReport[];
+  complete: boolean;
+  sections?: BoardSection[];
+  diagnostics?: ExtractionDiagnostics; // merged over the strategies that ran
+}
+
+/**
+ * Browser automation (falls back to static HTML internally when Playwright is missing)
+ */
+export const playwrightStrategy: ScrapeStrategy = {
+  name: 'playwright',
+  async run(boardUrl, options) {
+    const { images, boardInfo, diagnostics } = await scrapeBoardWithPlaywright(boardUrl, options);
+    return { images, boardInfo, diagnostics };
+  }
+};
+
+/**
+ * Initial HTML parse + BoardFeedResource bookmark pagination (plus section feeds when requested)
+ */
+export const paginatedStrategy: ScrapeStrategy = {
+  name: 'scrape',
+  sectionAware: true,
+  async run(boardUrl, options) {
+    return scrapePinterestBoard(boardUrl, options.maxPages ?? 20, options);
+  }
+};
+
+/**
+ * Multi user-agent HTML sweep, no pagination
+ */
+export const enhancedStrategy: ScrapeStrategy = {
+  name: 'enhanced',
+  async run(boardUrl, options) {
+    const { images, diagnostics } = await scrapeBoardEnhanced(boardUrl, options);
+    return { images, diagnostics };
+  }
+};
+
+/**
+ * Official v5 REST API (needs an OAuth connection or PINTEREST_ACCESS_TOKEN; own boards only)
+ */
+export const apiStrategy: ScrapeStrategy = {
+  name: 'api',
+  sectionAware: true,
+  async run(boardUrl, options) {
+    return scrapeBoardWithApi(boardUrl, options);
+  }
+};
+
+export const DEFAULT_STRATEGIES: ScrapeStrategy[] = [playwrightStrategy, paginatedStrategy, enhancedStrategy];
+
+// Opt-in strategies that only run when requested by name
+const OPTIONAL_STRATEGIES: ScrapeStrategy[] = [apiStrategy];
+
+/**
+ * Look up strategies by name, preserving the requested order
+ */
+export function resolveStrategies(names?: string[]): ScrapeStrategy[] {
+  if (!names || names.length === 0) return DEFAULT_STRATEGIES;
+  return names
+    .map(name => [...DEFAULT_STRATEGIES, ...OPTIONAL_STRATEGIES].find(s => s.name === name))
+    .filter((s): s is ScrapeStrategy => !!s);
+}
+
+/**
+ * Merge a pin into the result map, filling fields the earlier strategy left empty
+ */
+function mergeImage(existing: PinterestImage, incoming: PinterestImage): PinterestImage {
+  const merged: PinterestImage = { ...existing };
+  for (const [key, value] of Object.entries(incoming) as [keyof PinterestImage, unknown][]) {
+    if (value !== undefined && value !== '' && (merged[key] === undefined || merged[key] === '')) {
+      (merged as unknown as Record<string, unknown>)[key] = value;
+    }
+  }
+  return merged;
+}
+
+/**
+ * Whether the merged pins cover the board's reported pin count
+ */
+function isComplete(count: number, boardInfo?: BoardInfo): boolean {
+  if (count === 0) return false;
+  if (!boardInfo?.pinCount || !Number.isFinite(boardInfo.pinCount)) return true;
+  return count >= boardInfo.pinCount;
+}
+
+/**
+ * Run strategies in order until the board is complete (or all of them if exhaustive)
+ * onEvent receives each new (deduplicated) batch of pins as strategies make progress
+ */
+export async function runScrapeChain(
+  boardUrl: string,
+  options: StrategyOptions & {
+    strategies?: ScrapeStrategy[],
+    exhaustive?: boolean,
+    onEvent?: (event: ChainEvent) => void
+  } = {}
+): Promise<ChainResult> {
+  const { strategies: requested = DEFAULT_STRATEGIES, exhaustive, onEvent, ...strategyOptions } = options;
+  // Browser and HTML sweeps would return the whole board for a section URL
+  const strategies = parseBoardUrl(boardUrl)?.section
+    ? requested.filter(strategy => strategy.sectionAware)
+    : requested;
+  const merged = new Map<string, PinterestImage>();
+  const reports: StrategyReport[] = [];
+  let boardInfo: BoardInfo | undefined;
+  let sections: BoardSection[] | undefined;
+
+  const setBoardInfo = (info?: BoardInfo) => {
+    if (boardInfo || !info) return;
+    boardInfo = info;
+    onEvent?.({ type: 'board', boardInfo: info });
+  };
+
+  // Merge a batch into the result map; returns the pins that were new
+  const addImages = (images: PinterestImage[]): PinterestImage[] => {
+    const added: PinterestImage[] = [];
+    for (const image of images) {
+      const existing = merged.get(image.id);
+      if (existing) {
+        merged.set(image.id, mergeImage(existing, image));
+      } else {
+        merged.set(image.id, image);
+        added.push(image);
+      }
+    }
+    if (added.length > 0) {
+      onEvent?.({ type: 'pins', pins: added, totalPins: merged.size });
+    }
+    return added;
+  };
+
+  for (const strategy of strategies) {
+    strategyOptions.signal?.throwIfAborted();
+    const startTime = Date.now();
+    let added = 0;
+    onEvent?.({ type: 'strategy', name: strategy.name });
+
+    try {
+      console.log(`🔗 Running strategy: ${strategy.name}`);
+      const result = await strategy.run(boardUrl, {
+        ...strategyOptions,
+        onProgress: (progress) => {
+          setBoardInfo(progress.boardInfo);
+          added += addImages(progress.pins).length;
+          onEvent?.({
+            type: 'progress',
+            strategy: strategy.name,
+            pagesFetched: progress.pagesFetched,
+            totalPins: merged.size,
+            pinCount: boardInfo?.pinCount
+          });
+        }
+      });
+
+      setBoardInfo(result.boardInfo);
+      added += addImages(result.images).length;
+      sections = sections ?? result.sections;
+
+      reports.push({
+        name: strategy.name,
+        success: true,
+        pinCount: result.images.length,
+        added,
+        durationMs: Date.now() - startTime,
+        diagnostics: result.diagnostics
+      });
+      console.log(`🔗 Strategy ${strategy.name}: ${result.images.length} pins, ${added} new (total ${merged.size})`);
+    } catch (error) {
+      strategyOptions.signal?.throwIfAborted();
+      console.log(`🔗 Strategy ${strategy.name} failed:`, error instanceof Error ? error.message : error);
+      reports.push({
+        name: strategy.name,
+        success: false,
+        pinCount: 0,
+        added,
+        durationMs: Date.now() - startTime,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+
+    // With sections requested, keep going until a strategy that knows about sections has run
+    if (!exhaustive && isComplete(merged.size, boardInfo) && (!strategyOptions.includeSections || sections)) {
+      break;
+    }
+  }
+
+  return {
+    images: Array.from(merged.values()),
+    boardInfo,
+    strategies: reports,
+    complete: isComplete(merged.size, boardInfo),
+    sections,
+    diagnostics: mergeDiagnostics(reports.map(report => report.diagnostics))
+  };
+}
@@ -0,0 +1,53 @@
+/**
+ * Streaming responses for long-running scrapes
+ * NDJSON (one JSON event per line) for fetch() readers, SSE for EventSource
+ */
+
+export type StreamFormat = 'ndjson' | 'sse';
+
+/**
+ * Run a producer and stream every event it emits; errors become a final { type: 'error' } event
+ */
+export function createEventStream<T extends { type: string }>(
+  format: StreamFormat,
+  producer: (emit: (event: T) => void) => Promise<void>
+): Response {
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let closed = false;
+      const write = (event: { type: string }) => {
+        if (closed) return;
+        const line = format === 'sse'
+          ? `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`
+          : `${JSON.stringify(event)}\n`;
+        try {
+          controller.enqueue(encoder.encode(line));
+        } catch {
+          // Client went away; keep the producer quiet from here on
+          closed = true;
+        }
+      };
+
+      try {
+        await producer(write);
+      } catch (error) {
+        write({ type: 'error', error: error instanceof Error ? error.message : 'Unknown error' } as { type: string });
+      } finally {
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      }
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': format === 'sse' ? 'text/event-stream; charset=utf-8' : 'application/x-ndjson; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'X-Accel-Buffering': 'no'
+    }
+  });
+}
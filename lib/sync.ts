@@ -0,0 +1,94 @@
+/**
+ * Incremental board sync
+ * Compares a board against a previous snapshot, paginating only until known pins are reached.
+ * Removals can only be detected with a full scan, so pagination continues past known pins
+ * whenever the board's pin count says something disappeared.
+ */
+
+import { scrapePinterestBoard } from './scraper';
+import type { PinterestImage, BoardInfo, ScrapeOptions } from './scraper';
+
+export interface BoardSnapshot {
+  boardId: string;
+  pinIds: string[];
+  takenAt?: string;
+}
+
+export interface SyncResult {
+  boardInfo?: BoardInfo;
+  added: PinterestImage[];
+  removed: string[];
+  unchangedCount: number;
+  fullScan: boolean; // true when every page was read, so `removed` is authoritative
+  removalsChecked: boolean;
+  snapshot: BoardSnapshot;
+}
+
+export class SyncBoardMismatchError extends Error {
+  constructor(expected: string, actual: string) {
+    super(`Snapshot is for board ${expected} but the URL resolves to board ${actual}`);
+    this.name = 'SyncBoardMismatchError';
+  }
+}
+
+/**
+ * Fetch only what changed on a board since `snapshot`
+ */
+export async function syncPinterestBoard(
+  boardUrl: string,
+  snapshot: BoardSnapshot,
+  maxPages: number = 50,
+  options: ScrapeOptions = {}
+): Promise<SyncResult> {
+  const known = new Set(snapshot.pinIds.map(String));
+  let stoppedEarly = false;
+
+  const { images, boardInfo, checkpoint } = await scrapePinterestBoard(boardUrl, maxPages, {
+    ...options,
+    stopWhen: ({ pagePins, images, boardInfo }) => {
+      if (!pagePins.some(pin => known.has(pin.id))) return false;
+
+      const newCount = images.filter(img => !known.has(img.id)).length;
+      const pinCount = boardInfo?.pinCount;
+
+      // Without a pin count we can't tell whether anything was removed: stop at the first known pin
+      // With one, stop only if known + new accounts for the whole board (i.e. nothing disappeared)
+      stoppedEarly = !pinCount || !Number.isFinite(pinCount) || known.size + newCount === pinCount;
+      return stoppedEarly;
+    }
+  });
+
+  // Real Pinterest board ids are numeric; generated fallback ids can't be compared
+  if (boardInfo?.id && snapshot.boardId && /^\d+$/.test(boardInfo.id) && boardInfo.id !== snapshot.boardId) {
+    throw new SyncBoardMismatchError(snapshot.boardId, boardInfo.id);
+  }
+
+  const added = images.filter(img => !known.has(img.id));
+  const fullScan = !stoppedEarly && !checkpoint;
+  const seen = new Set(images.map(img => img.id));
+
+  // Removals: authoritative after a full scan; an early stop implies none (counts reconciled)
+  const removed = fullScan ? Array.from(known).filter(id => !seen.has(id)) : [];
+  const removalsChecked = fullScan || (stoppedEarly && !!boardInfo?.pinCount);
+  const removedSet = new Set(removed);
+
+  const currentIds = fullScan
+    ? images.map(img => img.id)
+    : [...added.map(img => img.id), ...Array.from(known).filter(id => !removedSet.has(id))];
+
+  console.log(`🔄 Sync ${boardUrl}: +${added.length} -${removed.length} (${fullScan ? 'full scan' : 'stopped at known pins'})`);
+
+  return {
+    boardInfo,
+    added,
+    removed,
+    unchangedCount: known.size - removed.length,
+    fullScan,
+    removalsChecked,
+    snapshot: {
+      boardId: boardInfo?.id || snapshot.boardId,
+      pinIds: currentIds,
+      takenAt: new Date().toISOString()
+    }
+  };
+}
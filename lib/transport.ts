@@ -0,0 +1,111 @@
+/**
+ * HTTP transport for the scraper library
+ * Every request to Pinterest goes through a Transport: the fetch implementation, the origin that
+ * stands in for https://www.pinterest.com, default headers, a per-request timeout and an optional
+ * signal that aborts everything sent through it. Pass one in ScrapeOptions.transport to run against
+ * a local fake Pinterest or through custom networking (e.g. a fetch bound to a proxy agent).
+ * Routes use the default transport, configured by PINTEREST_BASE_URL, PINTEREST_IMAGE_BASE_URL,
+ * SCRAPER_HTTP_TIMEOUT_MS and SCRAPER_CASSETTE / SCRAPER_CASSETTE_MODE (see ./cassette).
+ */
+
+import { cassetteFetch, cassetteFromEnv } from './cassette';
+import type { Cassette, ReplayCursor } from './cassette';
+
+export interface Transport {
+  fetch: typeof fetch;
+  baseUrl: string; // replaces https://www.pinterest.com in request URLs
+  imageBaseUrl: string; // replaces https://i.pinimg.com in image URLs
+  headers: Record<string, string>; // sent with every request; per-request headers win
+  timeoutMs?: number;
+  signal?: AbortSignal;
+  cassette?: Cassette; // records or replays every request sent through the transport
+  replayCursor: ReplayCursor; // where this transport is in the cassette it replays
+}
+
+export type TransportRequestInit = Omit<RequestInit, 'headers'> & { headers?: Record<string, string> };
+
+export const PINTEREST_ORIGIN = 'https://www.pinterest.com';
+export const PINTEREST_IMAGE_ORIGIN = 'https://i.pinimg.com';
+
+const DEFAULT_HEADERS: Record<string, string> = {
+  'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
+  'Accept-Language': 'en-US,en;q=0.9'
+};
+
+/**
+ * Build a transport; anything not given falls back to the environment, then to plain global fetch
+ */
+export function createTransport(options: Partial<Omit<Transport, 'replayCursor'>> = {}): Transport {
+  // Look global fetch up per call so it can still be swapped after the transport is created
+  const baseFetch: typeof fetch = options.fetch ?? ((input, init) => fetch(input, init));
+  const baseUrl = (options.baseUrl ?? process.env.PINTEREST_BASE_URL ?? PINTEREST_ORIGIN).replace(/\/+$/, '');
+  const cassette = options.cassette ?? cassetteFromEnv();
+  // A fresh cursor per transport, so each scrape replays the cassette from the start
+  const replayCursor = new Map<string, number>();
+  return {
+    fetch: cassette ? cassetteFetch(cassette, baseFetch, replayCursor, baseUrl) : baseFetch,
+    baseUrl,
+    imageBaseUrl: (options.imageBaseUrl ?? process.env.PINTEREST_IMAGE_BASE_URL ?? PINTEREST_IMAGE_ORIGIN).replace(/\/+$/, ''),
+    headers: { ...DEFAULT_HEADERS, ...options.headers },
+    timeoutMs: options.timeoutMs ?? (Number(process.env.SCRAPER_HTTP_TIMEOUT_MS) || undefined),
+    signal: options.signal,
+    cassette,
+    replayCursor
+  };
+}
+
+function isPinterestHost(hostname: string): boolean {
+  return hostname === 'pinterest.com' || hostname.endsWith('.pinterest.com');
+}
+
+/**
+ * Resolve a path ("/resource/...") or a pinterest.com URL against the transport's base URL
+ * (other hosts, such as the image CDN, are left alone)
+ */
+export function resolveTransportUrl(transport: Transport, url: string): string {
+  if (url.startsWith('/')) return `${transport.baseUrl}${url}`;
+  if (transport.baseUrl === PINTEREST_ORIGIN) return url;
+  try {
+    const parsed = new URL(url);
+    if (!isPinterestHost(parsed.hostname)) return url;
+    return `${transport.baseUrl}${parsed.pathname}${parsed.search}`;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Resolve an image CDN URL against the transport's image base URL (other URLs are left alone)
+ */
+export function resolveImageUrl(transport: Transport, url: string): string {
+  if (transport.imageBaseUrl === PINTEREST_IMAGE_ORIGIN) return url;
+  try {
+    const parsed = new URL(url);
+    if (parsed.hostname !== 'i.pinimg.com') return url;
+    return `${transport.imageBaseUrl}${parsed.pathname}${parsed.search}`;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Send a request through a transport (the default one when none is given)
+ */
+export function transportFetch(
+  transport: Transport | undefined,
+  url: string,
+  init: TransportRequestInit = {}
+): Promise<Response> {
+  const active = transport ?? createTransport();
+  const signals = [
+    active.signal,
+    init.signal ?? undefined,
+    active.timeoutMs ? AbortSignal.timeout(active.timeoutMs) : undefined
+  ].filter((signal): signal is AbortSignal => !!signal);
+
+  return active.fetch(resolveTransportUrl(active, url), {
+    ...init,
+    headers: { ...active.headers, ...init.headers },
+    signal: signals.length > 1 ? AbortSignal.any(signals) : signals[0]
+  });
+}
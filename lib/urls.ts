@@ -0,0 +1,142 @@
+/**
+ * Pinterest URL parsing and classification
+ * No server-only imports, so client components can use these directly
+ */
+
+/**
+ * Basic request validation shared by the scrape routes
+ */
+export function isPinterestUrl(value: unknown): value is string {
+  return typeof value === 'string' && value.includes('pinterest.com');
+}
+
+// Board sub-pages that are not sections
+const BOARD_SUBPAGES = new Set(['pins', 'more_ideas', 'organize', 'organise', '_tools', 'ideas']);
+
+/**
+ * Extract board username, slug and (for section URLs) section slug from URL
+ */
+export function parseBoardUrl(boardUrl: string): { username: string; slug: string; section?: string } | null {
+  try {
+    const url = new URL(boardUrl.startsWith('http') ? boardUrl : `https://${boardUrl}`);
+    if (!url.hostname.endsWith('pinterest.com')) return null;
+
+    // Normalize leading/trailing slashes and handle variants like /{user}/{board}/pins
+    const pathname = url.pathname.replace(/^\/+|\/+$/g, '');
+    const parts = pathname.split('/').filter(Boolean);
+
+    // Supported patterns:
+    // /{user}/{board}
+    // /{user}/{board}/pins
+    // /{user}/{board}/pins/...
+    // /{user}/{board}/{section}
+    if (parts.length >= 2) {
+      const username = parts[0];
+      const slug = parts[1];
+      const section = parts[2] && !BOARD_SUBPAGES.has(parts[2].toLowerCase()) ? parts[2] : undefined;
+      return section ? { username, slug, section } : { username, slug };
+    }
+
+    return null;
+  } catch {
+    // Fallback regex-based parsing
+    const patterns = [
+      /pinterest\.com\/([^/]+)\/([^/]+)\/?/,
+      /m\.pinterest\.com\/([^/]+)\/([^/]+)\/?/
+    ];
+    for (const pattern of patterns) {
+      const match = boardUrl.match(pattern);
+      if (match) {
+        return { username: match[1], slug: match[2] };
+      }
+    }
+    return null;
+  }
+}
+
+// Top-level paths that are Pinterest pages rather than usernames
+const RESERVED_PROFILE_PATHS = new Set(['pin', 'search', 'ideas', 'today', 'explore', 'business', 'settings', 'resource', 'login', 'signup', '_']);
+
+// Profile tabs that may follow the username in a profile URL
+const PROFILE_TABS = new Set(['_saved', '_created', 'boards', '_profile']);
+
+/**
+ * Extract the username from a profile URL (/{user}/ or a profile tab like /{user}/_saved/)
+ */
+export function parseProfileUrl(profileUrl: string): { username: string } | null {
+  try {
+    const url = new URL(profileUrl.startsWith('http') ? profileUrl : `https://${profileUrl}`);
+    if (!url.hostname.endsWith('pinterest.com')) return null;
+
+    const parts = url.pathname.split('/').filter(Boolean);
+    if (parts.length === 0 || parts.length > 2) return null;
+    if (RESERVED_PROFILE_PATHS.has(parts[0].toLowerCase())) return null;
+    if (parts.length === 2 && !PROFILE_TABS.has(parts[1].toLowerCase())) return null;
+
+    return { username: parts[0] };
+  } catch {
+    return null;
+  }
+}
+
+export type PinterestUrlKind =
+  | { kind: 'pin', pinId: string }
+  | { kind: 'short' }
+  | { kind: 'profile', username: string }
+  | { kind: 'search', query: string }
+  | { kind: 'board', username: string, slug: string, section?: string };
+
+/**
+ * Extract the pin id from /pin/{id}/ (also /pin/{title-slug}--{id}/)
+ */
+export function parsePinUrl(pinUrl: string): { pinId: string } | null {
+  try {
+    const url = new URL(pinUrl.startsWith('http') ? pinUrl : `https://${pinUrl}`);
+    if (!url.hostname.endsWith('pinterest.com')) return null;
+    const match = url.pathname.match(/^\/pin\/(?:[^/]*--)?(\d+)\/?/);
+    return match ? { pinId: match[1] } : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Extract the query from a pin search URL (/search/pins/?q=...)
+ */
+export function parseSearchUrl(searchUrl: string): { query: string } | null {
+  try {
+    const url = new URL(searchUrl.startsWith('http') ? searchUrl : `https://${searchUrl}`);
+    if (!url.hostname.endsWith('pinterest.com')) return null;
+    if (!/^\/search\/pins\/?$/.test(url.pathname)) return null;
+    const query = url.searchParams.get('q')?.trim();
+    return query ? { query } : null;
+  } catch {
+    return null;
+  }
+}
+
+export function searchUrlFor(query: string): string {
+  return `https://www.pinterest.com/search/pins/?q=${encodeURIComponent(query.trim())}`;
+}
+
+/**
+ * Work out what a pasted Pinterest link points at (pin.it short links need resolving first)
+ */
+export function classifyPinterestUrl(value: string): PinterestUrlKind | null {
+  try {
+    const url = new URL(value.startsWith('http') ? value : `https://${value}`);
+    if (url.hostname === 'pin.it' || url.hostname.endsWith('.pin.it')) return { kind: 'short' };
+  } catch {
+    return null;
+  }
+
+  const pin = parsePinUrl(value);
+  if (pin) return { kind: 'pin', pinId: pin.pinId };
+  const search = parseSearchUrl(value);
+  if (search) return { kind: 'search', query: search.query };
+  const profile = parseProfileUrl(value);
+  if (profile) return { kind: 'profile', username: profile.username };
+  const board = parseBoardUrl(value);
+  if (board && !/^(pin|search|ideas)$/i.test(board.username)) return { kind: 'board', ...board };
+  return null;
+}
@@ -0,0 +1,199 @@
+/**
+ * Streaming ZIP writer (STORE only)
+ * Entries are written to a sink as they are added, so an archive can go out over HTTP while
+ * later files are still being fetched. Images and videos are already compressed, so files are
+ * stored rather than deflated. Zip64 records are added once the archive passes 4 GB.
+ */
+
+// Largest value that fits the classic 32-bit size/offset fields; it also marks "see the zip64 record"
+const ZIP32_MAX = 0xffffffff;
+const ZIP16_MAX = 0xffff;
+// General purpose flag bit 11: names are UTF-8
+const FLAG_UTF8 = 0x0800;
+const VERSION_DEFAULT = 20;
+const VERSION_ZIP64 = 45;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * MS-DOS time and date fields (2-second resolution, local time)
+ */
+function dosDateTime(date: Date): { time: number, date: number } {
+  const year = Math.max(date.getFullYear(), 1980);
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  };
+}
+
+interface ZipEntry {
+  name: Buffer;
+  crc: number;
+  size: number;
+  offset: number;
+  time: number;
+  date: number;
+}
+
+export type ZipSink = (chunk: Uint8Array) => Promise<void>;
+
+export class ZipWriter {
+  private entries: ZipEntry[] = [];
+  private names = new Set<string>();
+  private offset = 0;
+  private directoryOffset = 0;
+  private finished = false;
+
+  constructor(private readonly sink: ZipSink) {}
+
+  /** Bytes written so far */
+  get size(): number {
+    return this.offset;
+  }
+
+  get fileCount(): number {
+    return this.entries.length;
+  }
+
+  private async write(chunk: Uint8Array): Promise<void> {
+    await this.sink(chunk);
+    this.offset += chunk.length;
+  }
+
+  /**
+   * Name not used yet in this archive: "a.jpg" becomes "a (2).jpg", "a (3).jpg", ...
+   */
+  private uniqueName(name: string): string {
+    let candidate = name;
+    const dot = name.lastIndexOf('.');
+    const [stem, ext] = dot > name.lastIndexOf('/') + 1 ? [name.slice(0, dot), name.slice(dot)] : [name, ''];
+    for (let n = 2; this.names.has(candidate.toLowerCase()); n++) candidate = `${stem} (${n})${ext}`;
+    this.names.add(candidate.toLowerCase());
+    return candidate;
+  }
+
+  /**
+   * Store one file; returns the name it was saved under (deduplicated)
+   */
+  async addFile(name: string, data: Uint8Array, modified: Date = new Date()): Promise<string> {
+    if (this.finished) throw new Error('ZIP archive already finished');
+    if (data.length >= ZIP32_MAX) throw new Error(`File too large for the archive: ${name}`);
+
+    const savedName = this.uniqueName(name.replace(/\\/g, '/').replace(/^\/+/, ''));
+    const nameBytes = Buffer.from(savedName, 'utf8');
+    const { time, date } = dosDateTime(modified);
+    const entry: ZipEntry = { name: nameBytes, crc: crc32(data), size: data.length, offset: this.offset, time, date };
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(VERSION_DEFAULT, 4);
+    header.writeUInt16LE(FLAG_UTF8, 6);
+    header.writeUInt16LE(0, 8); // method: store
+    header.writeUInt16LE(time, 10);
+    header.writeUInt16LE(date, 12);
+    header.writeUInt32LE(entry.crc, 14);
+    header.writeUInt32LE(entry.size, 18); // compressed size
+    header.writeUInt32LE(entry.size, 22); // uncompressed size
+    header.writeUInt16LE(nameBytes.length, 26);
+    header.writeUInt16LE(0, 28); // extra field length
+
+    await this.write(Buffer.concat([header, nameBytes]));
+    await this.write(data);
+    this.entries.push(entry);
+    return savedName;
+  }
+
+  /**
+   * Write the central directory; nothing can be added afterwards until reopen()
+   */
+  async finish(): Promise<void> {
+    if (this.finished) return;
+    this.finished = true;
+
+    const directoryOffset = this.directoryOffset = this.offset;
+    const records = this.entries.map(entry => {
+      const zip64 = entry.offset >= ZIP32_MAX;
+      const extra = Buffer.alloc(zip64 ? 12 : 0);
+      if (zip64) {
+        extra.writeUInt16LE(0x0001, 0); // zip64 extended information
+        extra.writeUInt16LE(8, 2);
+        extra.writeBigUInt64LE(BigInt(entry.offset), 4);
+      }
+
+      const record = Buffer.alloc(46);
+      record.writeUInt32LE(0x02014b50, 0);
+      record.writeUInt16LE(zip64 ? VERSION_ZIP64 : VERSION_DEFAULT, 4); // version made by
+      record.writeUInt16LE(zip64 ? VERSION_ZIP64 : VERSION_DEFAULT, 6); // version needed
+      record.writeUInt16LE(FLAG_UTF8, 8);
+      record.writeUInt16LE(0, 10);
+      record.writeUInt16LE(entry.time, 12);
+      record.writeUInt16LE(entry.date, 14);
+      record.writeUInt32LE(entry.crc, 16);
+      record.writeUInt32LE(entry.size, 20);
+      record.writeUInt32LE(entry.size, 24);
+      record.writeUInt16LE(entry.name.length, 28);
+      record.writeUInt16LE(extra.length, 30);
+      // comment length, disk number, internal and external attributes stay 0
+      record.writeUInt32LE(zip64 ? ZIP32_MAX : entry.offset, 42);
+      return Buffer.concat([record, entry.name, extra]);
+    });
+    const directory = Buffer.concat(records);
+    await this.write(directory);
+
+    const count = this.entries.length;
+    const needsZip64 = count >= ZIP16_MAX || directoryOffset >= ZIP32_MAX || directory.length >= ZIP32_MAX;
+    if (needsZip64) {
+      const zip64EndOffset = this.offset;
+      const zip64End = Buffer.alloc(56);
+      zip64End.writeUInt32LE(0x06064b50, 0);
+      zip64End.writeBigUInt64LE(BigInt(44), 4); // size of the rest of this record
+      zip64End.writeUInt16LE(VERSION_ZIP64, 12);
+      zip64End.writeUInt16LE(VERSION_ZIP64, 14);
+      zip64End.writeBigUInt64LE(BigInt(count), 24);
+      zip64End.writeBigUInt64LE(BigInt(count), 32);
+      zip64End.writeBigUInt64LE(BigInt(directory.length), 40);
+      zip64End.writeBigUInt64LE(BigInt(directoryOffset), 48);
+
+      const locator = Buffer.alloc(20);
+      locator.writeUInt32LE(0x07064b50, 0);
+      locator.writeBigUInt64LE(BigInt(zip64EndOffset), 8);
+      locator.writeUInt32LE(1, 16); // total number of disks
+      await this.write(Buffer.concat([zip64End, locator]));
+    }
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(Math.min(count, ZIP16_MAX), 8);
+    end.writeUInt16LE(Math.min(count, ZIP16_MAX), 10);
+    end.writeUInt32LE(Math.min(directory.length, ZIP32_MAX), 12);
+    end.writeUInt32LE(Math.min(directoryOffset, ZIP32_MAX), 16);
+    await this.write(end);
+  }
+
+  /**
+   * Drop everything after the first `keep` files (the central directory included) so more files
+   * can be added; returns the length the written output must be truncated to
+   */
+  reopen(keep: number = this.entries.length): number {
+    const dropped = this.entries.splice(keep);
+    for (const entry of dropped) this.names.delete(entry.name.toString('utf8').toLowerCase());
+    if (dropped.length > 0) this.offset = dropped[0].offset;
+    else if (this.finished) this.offset = this.directoryOffset;
+    this.finished = false;
+    return this.offset;
+  }
+}
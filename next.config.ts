@@ -1,7 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // sql.js loads its .wasm next to the package at runtime; keep it out of the server bundle
+  serverExternalPackages: ["sql.js"],
 };
 
 export default nextConfig;
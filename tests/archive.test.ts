@@ -0,0 +1,118 @@
+/**
+ * Streaming ZIP archives (lib/zip.ts, lib/archive.ts)
+ * Archives are built against the fake Pinterest's image CDN and read back with JSZip, which checks
+ * every entry's CRC.
+ */
+
+import { beforeAll, describe, expect, it } from 'vitest';
+import JSZip from 'jszip';
+import { ZipWriter, crc32 } from '../lib/zip';
+import { ARCHIVE_REPORT, streamPinArchive, writePinArchive } from '../lib/archive';
+import { createTransport } from '../lib/transport';
+import { fakePinterestFetch } from '../lib/fake-pinterest';
+import type { PinterestImage } from '../lib/scraper';
+import { pin, silenceLogs } from './helpers';
+
+const transport = createTransport({ fetch: fakePinterestFetch, imageBaseUrl: 'https://i.pinimg.com' });
+
+const PINS: PinterestImage[] = [
+  pin('1001', 'a'.repeat(32)),
+  pin('1002', 'b'.repeat(32)),
+  pin('1003', 'c'.repeat(32), {
+    mediaType: 'carousel',
+    children: [pin('x', 'd'.repeat(32)), pin('y', 'e'.repeat(32))]
+  }),
+  // Not on the CDN: ends up in the report
+  { ...pin('1004', 'f'.repeat(32)), large: 'https://i.pinimg.com/736x/missing.jpg' },
+  // GIFs are always saved at their original size
+  pin('1005', '0'.repeat(32), { mediaType: 'gif', original: `https://i.pinimg.com/originals/00/00/00/${'0'.repeat(32)}.gif` })
+];
+
+const JPEG_MAGIC = [0xff, 0xd8, 0xff];
+const GIF_MAGIC = [0x47, 0x49, 0x46];
+
+async function collect(sink: (write: (chunk: Uint8Array) => Promise<void>) => Promise<void>): Promise<Uint8Array> {
+  const chunks: Uint8Array[] = [];
+  await sink(async chunk => {
+    chunks.push(chunk);
+  });
+  return Buffer.concat(chunks);
+}
+
+beforeAll(() => {
+  silenceLogs();
+});
+
+describe('ZipWriter', () => {
+  it('computes the standard CRC-32', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+  });
+
+  it('writes archives other tools can read, with unique names', async () => {
+    const bytes = await collect(async write => {
+      const zip = new ZipWriter(write);
+      await zip.addFile('a/hello.txt', new TextEncoder().encode('hello'));
+      expect(await zip.addFile('a/hello.txt', new TextEncoder().encode('again'))).toBe('a/hello (2).txt');
+      await zip.addFile('ünïcödé.txt', new Uint8Array(0));
+      await zip.finish();
+    });
+
+    const archive = await JSZip.loadAsync(bytes, { checkCRC32: true });
+    expect(Object.keys(archive.files).sort()).toEqual(['a/hello (2).txt', 'a/hello.txt', 'ünïcödé.txt']);
+    expect(await archive.file('a/hello (2).txt')?.async('string')).toBe('again');
+  });
+
+  it('switches to zip64 records past 65535 entries', async () => {
+    const count = 0xffff + 1;
+    const bytes = await collect(async write => {
+      const zip = new ZipWriter(write);
+      const data = new Uint8Array([1]);
+      for (let i = 0; i < count; i++) await zip.addFile(`${i}`, data);
+      await zip.finish();
+    });
+
+    const archive = await JSZip.loadAsync(bytes);
+    expect(Object.keys(archive.files)).toHaveLength(count);
+  }, 60_000);
+});
+
+describe('pin archives', () => {
+  it('stores each pin file and reports the failures', async () => {
+    const bytes = await collect(async write => {
+      const { saved, failures } = await writePinArchive(
+        new ZipWriter(write),
+        { pins: PINS, size: 'large', videoMode: 'mp4', sections: { '1002': 'Tiles / Floors' } },
+        { transport, concurrency: 2 }
+      );
+      expect(saved).toBe(5);
+      expect(failures.map(failure => failure.file.pinId)).toEqual(['1004']);
+    });
+
+    const archive = await JSZip.loadAsync(bytes, { checkCRC32: true });
+    expect(Object.keys(archive.files).filter(name => !name.endsWith('/')).sort()).toEqual([
+      ARCHIVE_REPORT,
+      'pinterest-images/001_pinterest_1001.jpg',
+      'pinterest-images/005_pinterest_1005.gif',
+      'pinterest-images/1003_01.jpg',
+      'pinterest-images/1003_02.jpg',
+      'pinterest-images/Tiles _ Floors/002_pinterest_1002.jpg'
+    ]);
+    const jpeg = await archive.file('pinterest-images/001_pinterest_1001.jpg')?.async('uint8array');
+    expect(Array.from(jpeg!.subarray(0, 3))).toEqual(JPEG_MAGIC);
+    const gif = await archive.file('pinterest-images/005_pinterest_1005.gif')?.async('uint8array');
+    expect(Array.from(gif!.subarray(0, 3))).toEqual(GIF_MAGIC);
+
+    const report = await archive.file(ARCHIVE_REPORT)?.async('string');
+    expect(report).toContain('Files: 5 saved, 1 failed');
+    expect(report).toContain('1004\t004_pinterest_1004\tHTTP 404');
+  });
+
+  it('streams the same archive', async () => {
+    const stream = streamPinArchive({ pins: PINS.slice(0, 2), size: 'medium', videoMode: 'poster' }, { transport });
+    const bytes = new Uint8Array(await new Response(stream).arrayBuffer());
+
+    const archive = await JSZip.loadAsync(bytes, { checkCRC32: true });
+    expect(archive.file('pinterest-images/002_pinterest_1002.jpg')).not.toBeNull();
+    expect(await archive.file(ARCHIVE_REPORT)?.async('string')).toContain('Files: 2 saved, 0 failed');
+  });
+});
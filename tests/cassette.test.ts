@@ -0,0 +1,84 @@
+/**
+ * Cassettes (lib/cassette.ts): a scrape of the fake Pinterest is recorded, then replayed offline by
+ * separate transports
+ */
+
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { isRecordable, openCassette } from '../lib/cassette';
+import { fakePinterestFetch } from '../lib/fake-pinterest';
+import { resolveShortLink } from '../lib/pin';
+import { scrapePinterestBoard } from '../lib/scraper';
+import { createTransport } from '../lib/transport';
+import { silenceLogs } from './helpers';
+
+const dataDir = mkdtempSync(path.join(tmpdir(), 'cassette-test-'));
+const BOARD_URL = 'https://www.pinterest.com/fixture/kitchen-ideas/';
+const offline: typeof fetch = async input => {
+  throw new Error(`Replay reached the network: ${String(input)}`);
+};
+
+beforeAll(() => {
+  vi.stubEnv('SCRAPER_DATA_DIR', dataDir);
+  silenceLogs();
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+  rmSync(dataDir, { recursive: true, force: true });
+});
+
+describe('cassettes', () => {
+  it('appends one line per response and replays a scrape offline, from the start for each transport', async () => {
+    const recorder = createTransport({ fetch: fakePinterestFetch, cassette: openCassette('kitchen', 'record') });
+    const recorded = await scrapePinterestBoard(BOARD_URL, 2, { transport: recorder });
+    expect(recorded.images.length).toBeGreaterThan(0);
+
+    const [header, ...entries] = readFileSync(path.join(dataDir, 'cassettes', 'kitchen.jsonl'), 'utf8').trim().split('\n');
+    expect(JSON.parse(header)).toMatchObject({ name: 'kitchen' });
+    expect(entries.map(line => JSON.parse(line).key)[0]).toBe('GET /fixture/kitchen-ideas/');
+    expect(entries.length).toBeGreaterThan(1);
+
+    for (let run = 0; run < 2; run++) {
+      const player = createTransport({ fetch: offline, cassette: openCassette('kitchen', 'replay') });
+      const replayed = await scrapePinterestBoard(BOARD_URL, 2, { transport: player });
+      expect(replayed.images.map(image => image.id)).toEqual(recorded.images.map(image => image.id));
+    }
+  }, 20_000);
+
+  it('replays repeated requests in recorded order per transport', async () => {
+    let served = 0;
+    const counting: typeof fetch = async () => new Response(`<html>${++served}</html>`, { headers: { 'content-type': 'text/html' } });
+    const recorder = createTransport({ fetch: counting, cassette: openCassette('repeats', 'record') });
+    for (let n = 0; n < 2; n++) await recorder.fetch('https://www.pinterest.com/fixture/', {});
+
+    for (let run = 0; run < 2; run++) {
+      const player = createTransport({ fetch: offline, cassette: openCassette('repeats', 'replay') });
+      const bodies: string[] = [];
+      for (let n = 0; n < 3; n++) bodies.push(await (await player.fetch('https://www.pinterest.com/fixture/', {})).text());
+      expect(bodies).toEqual(['<html>1</html>', '<html>2</html>', '<html>2</html>']);
+    }
+  });
+
+  it('replays the URL a short link redirected to', async () => {
+    const redirecting: typeof fetch = async () => {
+      const response = new Response('<html></html>', { headers: { 'content-type': 'text/html' } });
+      Object.defineProperty(response, 'url', { value: 'https://www.pinterest.com/fixture/kitchen-ideas/?invite_code=abc' });
+      return response;
+    };
+    const recorder = createTransport({ fetch: redirecting, cassette: openCassette('short-link', 'record') });
+    expect(await resolveShortLink('https://pin.it/AbC123', { transport: recorder })).toBe(BOARD_URL);
+
+    const player = createTransport({ fetch: offline, cassette: openCassette('short-link', 'replay') });
+    expect(await resolveShortLink('https://pin.it/AbC123', { transport: player })).toBe(BOARD_URL);
+  });
+
+  it('records Pinterest scripts but not other hosts', () => {
+    expect(isRecordable('https://s.pinimg.com/webapp/app-1a2b.js', 'application/javascript')).toBe(true);
+    expect(isRecordable('https://s.pinimg.com/webapp/style.css', 'text/css')).toBe(false);
+    expect(isRecordable('https://i.pinimg.com/236x/ab/cd/ef/a.jpg', 'image/jpeg')).toBe(false);
+    expect(isRecordable('https://cdn.example.com/app.js', 'text/javascript')).toBe(false);
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Download queue (lib/downloads.ts): per-file status, pause/resume and retrying failed files into
+ * the same archive, against the fake Pinterest's image CDN
+ */
+
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import JSZip from 'jszip';
+import { ARCHIVE_REPORT } from '../lib/archive';
+import {
+  cancelDownload,
+  createDownload,
+  getDownload,
+  getDownloadArchive,
+  retryFailedDownloads,
+  summarizeDownload,
+  updateDownload
+} from '../lib/downloads';
+import type { DownloadJobStatus } from '../lib/downloads';
+import { fakePinterestFetch } from '../lib/fake-pinterest';
+import { pin, silenceLogs } from './helpers';
+
+const dataDir = mkdtempSync(path.join(tmpdir(), 'downloads-test-'));
+
+const PINS = ['a', 'b', 'c', 'd', 'e'].map((char, index) => pin(`200${index}`, char.repeat(32)));
+
+// The CDN "loses" pin 2002's image until it is restored
+let brokenHash: string | undefined = 'c'.repeat(32);
+const flakyFetch: typeof fetch = async (input, init) => {
+  const url = typeof input === 'string' ? input : input instanceof URL ? input.toString() : input.url;
+  if (brokenHash && url.includes(brokenHash)) return new Response('Not found', { status: 404, statusText: 'Not Found' });
+  return fakePinterestFetch(input, init);
+};
+
+async function waitForStatus(id: string, status: DownloadJobStatus) {
+  await vi.waitFor(() => expect(getDownload(id)?.status).toBe(status), { timeout: 5000, interval: 20 });
+}
+
+beforeAll(() => {
+  process.env.SCRAPER_DATA_DIR = dataDir;
+  silenceLogs();
+});
+
+afterAll(() => {
+  delete process.env.SCRAPER_DATA_DIR;
+  rmSync(dataDir, { recursive: true, force: true });
+});
+
+describe('download queue', () => {
+  it('tracks each file and appends retried files to the same archive', async () => {
+    const job = await createDownload({ pins: PINS, size: 'large', videoMode: 'mp4' }, { fetch: flakyFetch, concurrency: 2 });
+    await waitForStatus(job.id, 'completed');
+
+    expect(summarizeDownload(job).counts).toEqual({ queued: 0, downloading: 0, done: 4, failed: 1 });
+    const failed = job.files.find(file => file.status === 'failed');
+    expect(failed).toMatchObject({ pinId: '2002', reason: 'HTTP 404 Not Found' });
+
+    const firstArchive = readFileSync(getDownloadArchive(job.id)!);
+    const first = await JSZip.loadAsync(firstArchive, { checkCRC32: true });
+    expect(await first.file(ARCHIVE_REPORT)?.async('string')).toContain('Files: 4 saved, 1 failed');
+    const storedBefore = Object.keys(first.files).filter(name => name.endsWith('.jpg'));
+    expect(storedBefore).toHaveLength(4);
+
+    brokenHash = undefined;
+    await retryFailedDownloads(job.id);
+    await waitForStatus(job.id, 'completed');
+    expect(summarizeDownload(job).counts.done).toBe(5);
+    expect(failed).toMatchObject({ status: 'done', attempts: 2 });
+
+    const secondArchive = readFileSync(getDownloadArchive(job.id)!);
+    const second = await JSZip.loadAsync(secondArchive, { checkCRC32: true });
+    expect(Object.keys(second.files).filter(name => name.endsWith('.jpg'))).toHaveLength(5);
+    expect(await second.file(ARCHIVE_REPORT)?.async('string')).toContain('Files: 5 saved, 0 failed');
+
+    // The files stored the first time were kept in place, not written again
+    const firstEntries = firstArchive.indexOf(Buffer.from(ARCHIVE_REPORT)) - 30;
+    expect(secondArchive.subarray(0, firstEntries).equals(firstArchive.subarray(0, firstEntries))).toBe(true);
+  });
+
+  it('pauses and resumes the queue', async () => {
+    const job = await createDownload({ pins: PINS, size: 'medium', videoMode: 'mp4' }, { fetch: fakePinterestFetch, concurrency: 1 });
+    updateDownload(job.id, { paused: true });
+    expect(job.status).toBe('paused');
+
+    // The file already being fetched finishes; nothing else starts
+    await vi.waitFor(() => expect(summarizeDownload(job).counts.downloading).toBe(0));
+    expect(summarizeDownload(job).counts).toEqual({ queued: 4, downloading: 0, done: 1, failed: 0 });
+    expect(getDownloadArchive(job.id)).toBeUndefined();
+
+    updateDownload(job.id, { paused: false, concurrency: 3 });
+    expect(job.concurrency).toBe(3);
+    await waitForStatus(job.id, 'completed');
+    expect(summarizeDownload(job).counts.done).toBe(5);
+  });
+
+  it('keeps a cancelled archive deleted when a fetch lands afterwards', async () => {
+    let release!: () => void;
+    const released = new Promise<void>(resolve => { release = resolve; });
+    // Ignores the abort signal, like a response already on its way
+    const lateFetch: typeof fetch = async (input, init) => {
+      await released;
+      return fakePinterestFetch(input, { ...init, signal: undefined });
+    };
+    const job = await createDownload({ pins: PINS.slice(0, 1), size: 'medium', videoMode: 'mp4' }, { fetch: lateFetch });
+    const archive = path.join(dataDir, 'downloads', `${job.id}.zip`);
+
+    expect(cancelDownload(job.id)).toBe(true);
+    await vi.waitFor(() => expect(existsSync(archive)).toBe(false));
+    release();
+
+    await new Promise(resolve => setTimeout(resolve, 100));
+    expect(existsSync(archive)).toBe(false);
+    expect(job.files[0]).toMatchObject({ status: 'failed', reason: 'Cancelled' });
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Golden-fixture regression suite for the extractors in lib/scraper.ts
+ * Every saved page in fixtures/golden/pages, resource payload in fixtures/golden/resources and
+ * recorded scrape in fixtures/golden/cassettes has a <name>.expected.json beside it holding each
+ * extractor's (or fetcher's) output. After an intended change, review the diff of
+ * `UPDATE_GOLDEN=1 npm test`, which rewrites the expected files.
+ */
+
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { copyFileSync, existsSync, mkdirSync, mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import {
+  extractImagesFromHtml,
+  extractBoardInfo,
+  extractBoardInfoNew,
+  extractBoardPins,
+  extractBoardPinsNew,
+  fetchBoardPins,
+  fetchSectionPins,
+  findPinsRecursively,
+  findPinsInStructure,
+  scrapePinterestBoard
+} from '../lib/scraper';
+import type { PinterestImage } from '../lib/scraper';
+import { fetchPin } from '../lib/pin';
+import { openCassette } from '../lib/cassette';
+import type { CassetteEntry } from '../lib/cassette';
+import { createTransport } from '../lib/transport';
+import { silenceLogs } from './helpers';
+
+const GOLDEN_DIR = path.resolve('fixtures/golden');
+const UPDATE = process.env.UPDATE_GOLDEN === '1';
+// Cassettes are read from the data directory, and scrapes write their diagnostics there
+const dataDir = mkdtempSync(path.join(tmpdir(), 'golden-test-'));
+
+function fixtures(dir: string, extension: string): string[] {
+  if (!existsSync(path.join(GOLDEN_DIR, dir))) return [];
+  return readdirSync(path.join(GOLDEN_DIR, dir))
+    .filter(file => file.endsWith(extension) && !file.endsWith('.expected.json'))
+    .sort();
+}
+
+/**
+ * Drop undefined fields like the JSON file does, and mask board ids generated from the clock
+ */
+function normalize(value: unknown): unknown {
+  return JSON.parse(JSON.stringify(value ?? null), (key, field) =>
+    (key === 'id' || key === 'boardId') && typeof field === 'string' ? field.replace(/_\d{13}$/, '_<generated>') : field
+  );
+}
+
+function matchGolden(fixture: string, actual: unknown) {
+  const expectedFile = fixture.replace(/\.(html|json|jsonl)$/, '.expected.json');
+  const normalized = normalize(actual);
+  if (UPDATE) {
+    writeFileSync(expectedFile, `${JSON.stringify(normalized, null, 2)}\n`);
+    return;
+  }
+  if (!existsSync(expectedFile)) {
+    throw new Error(`Missing ${path.relative(process.cwd(), expectedFile)}; run UPDATE_GOLDEN=1 npm test`);
+  }
+  expect(normalized).toEqual(JSON.parse(readFileSync(expectedFile, 'utf8')));
+}
+
+/**
+ * The JSON a page embeds, as extractImagesFromHtml finds it
+ */
+function embeddedData(html: string): unknown {
+  const script = html.match(/<script[^>]*id="__PWS_DATA__"[^>]*>([^<]+)<\/script>/)
+    || html.match(/__INITIAL_STATE__\s*=\s*({[\s\S]*?});/);
+  return script ? JSON.parse(script[1]) : undefined;
+}
+
+const pinIds = (pins: PinterestImage[]) => pins.map(pin => pin.id);
+
+function collect(finder: (obj: unknown, images: PinterestImage[], processedIds: Set<string>, boardId?: string) => void, data: unknown, boardId?: string) {
+  const images: PinterestImage[] = [];
+  finder(data, images, new Set(), boardId);
+  return pinIds(images);
+}
+
+/**
+ * A transport that answers every request with `payload`, as Pinterest would answer the fetcher
+ */
+function serving(payload: unknown) {
+  return createTransport({ fetch: async () => Response.json(payload) });
+}
+
+const offline: typeof fetch = async input => {
+  throw new Error(`Replay reached the network: ${String(input)}`);
+};
+
+beforeAll(() => {
+  vi.stubEnv('SCRAPER_DATA_DIR', dataDir);
+  // The extractors narrate every step
+  silenceLogs();
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+  rmSync(dataDir, { recursive: true, force: true });
+});
+
+describe('board pages', () => {
+  for (const file of fixtures('pages', '.html')) {
+    it(file, () => {
+      const fixture = path.join(GOLDEN_DIR, 'pages', file);
+      const html = readFileSync(fixture, 'utf8');
+      const { images, boardInfo, diagnostics } = extractImagesFromHtml(html);
+      const data = embeddedData(html);
+      const boardId = data ? extractBoardInfoNew(data)?.id : undefined;
+
+      matchGolden(fixture, {
+        extractImagesFromHtml: { boardInfo, images, diagnostics },
+        ...(data ? {
+          extractBoardInfo: extractBoardInfo(data),
+          extractBoardInfoNew: extractBoardInfoNew(data),
+          extractBoardPins: pinIds(extractBoardPins(data, boardId)),
+          extractBoardPinsNew: pinIds(extractBoardPinsNew(data, boardId)),
+          findPinsRecursively: collect(findPinsRecursively, data, boardId),
+          findPinsInStructure: collect(findPinsInStructure, data, boardId)
+        } : {})
+      });
+    });
+  }
+});
+
+describe('resource payloads', () => {
+  // Each payload is served to the real fetchers: feed pages to the board and section feeds,
+  // single pins to the pin fetcher
+  for (const file of fixtures('resources', '.json')) {
+    it(file, async () => {
+      const fixture = path.join(GOLDEN_DIR, 'resources', file);
+      const payload = JSON.parse(readFileSync(fixture, 'utf8'));
+      const data = payload.resource_response?.data?.results || payload.resource_response?.data;
+
+      if (Array.isArray(data)) {
+        const transport = serving(payload);
+        matchGolden(fixture, {
+          fetchBoardPins: await fetchBoardPins('fixture', 'board', undefined, { transport }),
+          fetchSectionPins: await fetchSectionPins('fixture', 'board', '920000000000000001', undefined, { transport })
+        });
+      } else {
+        matchGolden(fixture, { fetchPin: await fetchPin(String(data?.id), { transport: serving(payload) }) });
+      }
+    });
+  }
+});
+
+describe('recorded scrapes', () => {
+  // A cassette replays a whole scrape offline; the first request it recorded is the board page
+  for (const file of fixtures('cassettes', '.jsonl')) {
+    it(file, async () => {
+      const fixture = path.join(GOLDEN_DIR, 'cassettes', file);
+      mkdirSync(path.join(dataDir, 'cassettes'), { recursive: true });
+      copyFileSync(fixture, path.join(dataDir, 'cassettes', file));
+      const [, first] = readFileSync(fixture, 'utf8').split('\n');
+      const boardUrl = (JSON.parse(first) as CassetteEntry).url;
+
+      const transport = createTransport({ fetch: offline, cassette: openCassette(file.replace(/\.jsonl$/, ''), 'replay') });
+      const { images, boardInfo, diagnostics } = await scrapePinterestBoard(boardUrl, 10, { transport });
+      matchGolden(fixture, { boardInfo, images, diagnostics });
+    }, 20_000);
+  }
+});
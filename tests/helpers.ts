@@ -0,0 +1,24 @@
+/**
+ * Helpers shared by the test files: fixture pins on the fake Pinterest's image CDN, and silencing
+ * the progress the libraries log
+ */
+
+import { vi } from 'vitest';
+import type { PinterestImage } from '../lib/scraper';
+
+/**
+ * A pin whose sizes sit at i.pinimg.com-style paths for `hash` (32 characters), which the fake
+ * Pinterest's CDN serves
+ */
+export function pin(id: string, hash: string, extra: Partial<PinterestImage> = {}): PinterestImage {
+  const url = (size: string) => `https://i.pinimg.com/${size}/${hash.slice(0, 2)}/${hash.slice(2, 4)}/${hash.slice(4, 6)}/${hash}.jpg`;
+  return { id, url: url('236x'), thumbnail: url('236x'), medium: url('474x'), large: url('736x'), original: url('originals'), ...extra };
+}
+
+/**
+ * Mute console.log and console.warn for the rest of the file; call it from beforeAll
+ */
+export function silenceLogs(): void {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+}
@@ -0,0 +1,56 @@
+/**
+ * Library snapshots (lib/library.ts): scrapes that stop early are saved as partial, so diffs and
+ * the timeline don't read the pins they never reached as removed
+ */
+
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { diffScrapes, getBoardTimeline, getScrape, libraryBoardId, LibraryPartialScrapeError, saveToLibrary } from '../lib/library';
+import { fakePinterestFetch } from '../lib/fake-pinterest';
+import { paginatedStrategy, runScrapeChain } from '../lib/strategies';
+import { createTransport } from '../lib/transport';
+import { silenceLogs } from './helpers';
+
+const dataDir = mkdtempSync(path.join(tmpdir(), 'library-test-'));
+const BOARD_URL = 'https://www.pinterest.com/fixture/kitchen-ideas/';
+const transport = createTransport({ fetch: fakePinterestFetch });
+
+// Save a chain run the way /api/board does
+async function scrapeIntoLibrary(maxPages: number) {
+  const chain = await runScrapeChain(BOARD_URL, { maxPages, strategies: [paginatedStrategy], includeSections: true, transport });
+  const scrapeId = await saveToLibrary(BOARD_URL, chain.boardInfo, chain.images, 'board', !chain.complete);
+  return { chain, scrapeId: scrapeId as number };
+}
+
+beforeAll(() => {
+  vi.stubEnv('SCRAPER_DATA_DIR', dataDir);
+  silenceLogs();
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+  rmSync(dataDir, { recursive: true, force: true });
+});
+
+describe('partial scrapes', () => {
+  it('saves a truncated chain as partial and keeps it out of diffs and the timeline', async () => {
+    const full = await scrapeIntoLibrary(10);
+    const truncated = await scrapeIntoLibrary(1);
+    const again = await scrapeIntoLibrary(10);
+
+    expect(full.chain.complete).toBe(true);
+    expect(truncated.chain.complete).toBe(false);
+    expect(truncated.chain.images.length).toBeLessThan(full.chain.images.length);
+    expect((await getScrape(truncated.scrapeId))?.scrape.partial).toBe(true);
+    expect((await getScrape(full.scrapeId))?.scrape.partial).toBe(false);
+
+    await expect(diffScrapes(full.scrapeId, truncated.scrapeId)).rejects.toBeInstanceOf(LibraryPartialScrapeError);
+    const diff = await diffScrapes(full.scrapeId, again.scrapeId);
+    expect(diff?.removed).toEqual([]);
+
+    const timeline = await getBoardTimeline(libraryBoardId(BOARD_URL, full.chain.boardInfo));
+    expect(timeline?.timeline.map(entry => [entry.partial, entry.removed])).toEqual([[false, 0], [true, 0], [false, 0]]);
+  }, 30_000);
+});
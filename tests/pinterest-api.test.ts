@@ -0,0 +1,168 @@
+/**
+ * Pinterest API v5 client (lib/pinterest-api.ts) against the fake v5 API: pin mapping, bookmark
+ * pagination and OAuth token refresh
+ */
+
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import {
+  apiGet,
+  apiList,
+  disconnectOAuth,
+  exchangeAuthorizationCode,
+  listApiBoards,
+  mapApiPin,
+  scrapeBoardWithApi
+} from '../lib/pinterest-api';
+import type { V5Pin, V5UserAccount } from '../lib/pinterest-api';
+import {
+  fakePinterestApiFetch,
+  fakeTokenRefreshCount,
+  resetFakePinterestApi,
+  revokeFakeAccessTokens
+} from '../lib/fake-pinterest-api';
+import { silenceLogs } from './helpers';
+
+const dataDir = mkdtempSync(path.join(tmpdir(), 'pinterest-api-test-'));
+const BIG_BOARD = '910000000000000003';
+const fetchSpy = vi.fn(fakePinterestApiFetch);
+
+function requestedUrls(): URL[] {
+  return fetchSpy.mock.calls.map(([input]) => new URL(input instanceof Request ? input.url : String(input)));
+}
+
+beforeAll(() => {
+  vi.stubEnv('SCRAPER_DATA_DIR', dataDir);
+  vi.stubEnv('SESSION_SECRET', 'test-secret');
+  vi.stubEnv('PINTEREST_APP_ID', 'fake-app');
+  vi.stubEnv('PINTEREST_APP_SECRET', 'fake-secret');
+  vi.stubEnv('PINTEREST_REDIRECT_URI', 'http://localhost:3017/api/auth/pinterest/callback');
+  vi.stubEnv('PINTEREST_API_BASE_URL', 'https://api.pinterest.com/v5');
+  vi.stubGlobal('fetch', fetchSpy);
+  silenceLogs();
+});
+
+beforeEach(async () => {
+  resetFakePinterestApi();
+  await disconnectOAuth();
+  await exchangeAuthorizationCode('fake-code-test');
+  fetchSpy.mockClear();
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+  rmSync(dataDir, { recursive: true, force: true });
+});
+
+describe('mapApiPin', () => {
+  const images = (hash: string, largest: string = 'jpg') => ({
+    '150x150': { url: `https://i.pinimg.com/150x150/ab/cd/ef/${hash}.jpg`, width: 150, height: 150 },
+    '400x300': { url: `https://i.pinimg.com/400x300/ab/cd/ef/${hash}.jpg`, width: 400, height: 300 },
+    '600x': { url: `https://i.pinimg.com/600x/ab/cd/ef/${hash}.jpg`, width: 600, height: 900 },
+    '1200x': { url: `https://i.pinimg.com/1200x/ab/cd/ef/${hash}.${largest}`, width: 1200, height: 1800 }
+  });
+
+  it('maps an image pin to the size ladder and its metadata', () => {
+    const image = mapApiPin({
+      id: '42',
+      title: 'Blue kitchen',
+      description: 'Tiles',
+      link: 'https://www.example.com/kitchen',
+      board_id: '7',
+      board_section_id: '8',
+      created_at: '2024-01-01T00:00:00',
+      media: { media_type: 'image', images: images('a1') },
+      pin_metrics: { all_time: { save: 12 } }
+    });
+
+    expect(image).toMatchObject({
+      id: '42',
+      thumbnail: 'https://i.pinimg.com/150x150/ab/cd/ef/a1.jpg',
+      medium: 'https://i.pinimg.com/400x300/ab/cd/ef/a1.jpg',
+      large: 'https://i.pinimg.com/600x/ab/cd/ef/a1.jpg',
+      original: 'https://i.pinimg.com/originals/ab/cd/ef/a1.jpg',
+      title: 'Blue kitchen',
+      boardId: '7',
+      sectionId: '8',
+      domain: 'example.com',
+      saveCount: 12,
+      mediaType: 'image'
+    });
+  });
+
+  it('keeps carousel slots as children and recognizes GIFs and videos', () => {
+    const carousel = mapApiPin({
+      id: '43',
+      media: { media_type: 'multiple_images', items: [{ title: 'one', images: images('b1') }, { images: images('b2') }] }
+    });
+    expect(carousel?.mediaType).toBe('carousel');
+    expect(carousel?.large).toBe('https://i.pinimg.com/600x/ab/cd/ef/b1.jpg');
+    expect(carousel?.children?.map(child => child.title)).toEqual(['one', undefined]);
+
+    expect(mapApiPin({ id: '44', media: { media_type: 'image', images: images('c1', 'gif') } })?.mediaType).toBe('gif');
+
+    const video = mapApiPin({ id: '45', media: { media_type: 'video', cover_image_url: 'https://i.pinimg.com/videos/thumbnails/d1.jpg' } });
+    expect(video).toMatchObject({ mediaType: 'video', original: 'https://i.pinimg.com/videos/thumbnails/d1.jpg' });
+  });
+
+  it('skips pins without an id or any image', () => {
+    expect(mapApiPin({ media: { images: images('e1') } })).toBeNull();
+    expect(mapApiPin({ id: '46', media: { media_type: 'image' } })).toBeNull();
+  });
+});
+
+describe('apiList', () => {
+  it('follows bookmarks until the limit', async () => {
+    const pages: number[] = [];
+    const pins = await apiList<V5Pin>(`/boards/${BIG_BOARD}/pins`, 250, undefined, page => pages.push(page.length));
+
+    expect(pins).toHaveLength(250);
+    expect(new Set(pins.map(pin => pin.id)).size).toBe(250);
+    expect(pages).toEqual([100, 100, 100]);
+    const bookmarks = requestedUrls().map(url => url.searchParams.get('bookmark'));
+    expect(bookmarks[0]).toBeNull();
+    expect(bookmarks.slice(1).every(Boolean)).toBe(true);
+  });
+
+  it('stops at the last page', async () => {
+    const boards = await listApiBoards();
+    expect(boards.map(board => board.name)).toEqual(['Kitchen ideas', 'Small board', 'Big board']);
+    expect(requestedUrls()).toHaveLength(1);
+  });
+
+  it('scrapes a board with its sections', async () => {
+    const { images, sections } = await scrapeBoardWithApi('https://www.pinterest.com/fixture/kitchen-ideas/', { includeSections: true });
+    expect(images).toHaveLength(180);
+    expect(sections?.map(section => section.title)).toEqual(['Tiles', 'Lighting']);
+    expect(images.filter(image => image.sectionId === '920000000000000001')).toHaveLength(40);
+  });
+});
+
+describe('token refresh', () => {
+  it('refreshes once and retries after a 401', async () => {
+    revokeFakeAccessTokens();
+    const account = await apiGet<V5UserAccount>('/user_account');
+
+    expect(account.username).toBe('fixture');
+    expect(fakeTokenRefreshCount()).toBe(1);
+    expect(requestedUrls().map(url => url.pathname)).toEqual(['/v5/user_account', '/v5/oauth/token', '/v5/user_account']);
+  });
+
+  it('shares one refresh between concurrent requests', async () => {
+    revokeFakeAccessTokens();
+    const results = await Promise.all([
+      apiGet<V5UserAccount>('/user_account'),
+      listApiBoards(),
+      apiList<V5Pin>(`/boards/${BIG_BOARD}/pins`, 10)
+    ]);
+
+    expect(results[0].username).toBe('fixture');
+    expect(results[1]).toHaveLength(3);
+    expect(results[2]).toHaveLength(10);
+    // The fake rotates refresh tokens, so a second refresh with the old one would have failed
+    expect(fakeTokenRefreshCount()).toBe(1);
+  });
+});